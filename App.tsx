@@ -1,12 +1,32 @@
 
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { FileUploader } from './components/FileUploader';
 import { UniverSheet, UniverSheetRef } from './components/UniverSheet';
 import { AgentControlPanel } from './components/AgentControlPanel';
+import { ActivityLogPanel } from './components/ActivityLogPanel';
+import { ReviewQueueModal } from './components/ReviewQueueModal';
 import { parseDataFile, exportCsv, exportExcel } from './utils/csvHelper';
-import { researchEntity } from './services/geminiService';
-import { CsvRow, ProcessingStatus, ResearchConfig, ResearchResult, Source } from './types';
-import { Layout, Database, Search, Heart, RefreshCw } from 'lucide-react';
+import { ensureRowIds, getCellKey, getRowId, indexRowIds, parseCellKey } from './utils/rowId';
+import { createProvenance, markEdited, provenanceToRows } from './utils/provenance';
+import { acceptByConfidence, countReviewStatuses, getRejectedCells, setReview } from './utils/review';
+import { buildDocumentIndex } from './utils/documentIndex';
+import { describeProvider, isProviderConfigured } from './services/geminiService';
+import { addDocument, deleteDocument, loadDocuments } from './services/knowledgeBase';
+import { createJobQueue, JobQueue, JobQueueSnapshot, JobQueueStatus } from './services/jobQueue';
+import { classifyError } from './services/llmErrors';
+import { applyRateLimits, buildResearchJobs, countJobsByMode, createSharedRequests, expandCellResult, getQueueConcurrency, fingerprintRows, getJobId, refreshJobInput, ResearchJob, ResearchJobPayload, runResearchJob } from './services/researchJobs';
+import { RunSummary, summarizeRun } from './services/runSummary';
+import { estimateRun, recordUsageSample } from './services/costEstimator';
+import { onUsage } from './services/llmProvider';
+import { estimateCost, formatCost } from './services/modelPricing';
+import { createRunLogger, loadRunLog, RunLogger } from './services/runLog';
+import { CellResult, clearRunCheckpoint, createRunId, loadRunCheckpoint, RunCheckpoint, saveRunCheckpoint } from './services/runStore';
+import { AgentLog, CellProvenance, CsvRow, KnowledgeDocument, ProcessingStatus, ResearchConfig, ResearchResult, ReviewStatus } from './types';
+import { Layout, Database, Search, Heart, RefreshCw, History, ClipboardCheck } from 'lucide-react';
+
+type ActiveRun = Omit<RunCheckpoint, 'key' | 'updatedAt'>;
+
+const CHECKPOINT_INTERVAL_MS = 500;
 
 const App: React.FC = () => {
   const [data, setData] = useState<CsvRow[]>([]);
@@ -16,22 +36,69 @@ const App: React.FC = () => {
   const [status, setStatus] = useState<ProcessingStatus>(ProcessingStatus.IDLE);
   const [processedCount, setProcessedCount] = useState(0);
   const [activeConfig, setActiveConfig] = useState<ResearchConfig | null>(null);
-  const [cellSources, setCellSources] = useState<Record<string, Source[]>>({});
+  // How each AI-filled cell got its value (sources, model, prompt, raw response, edits), keyed by getCellKey
+  const [cellProvenance, setCellProvenance] = useState<Record<string, CellProvenance>>({});
+  // Validation errors for cells whose answer did not match the task's output type
+  const [invalidCells, setInvalidCells] = useState<Record<string, string>>({});
+  // Confidence score (0-1) of each AI-filled cell, same keys as cellProvenance
+  const [cellConfidence, setCellConfidence] = useState<Record<string, number>>({});
+  const [runSummary, setRunSummary] = useState<RunSummary | null>(null);
+  // Estimated USD spent by the active run
+  const [runSpend, setRunSpend] = useState(0);
+  // Input fingerprint of each row (by identity) when the last run started
+  const [rowFingerprints, setRowFingerprints] = useState<Record<string, string>>({});
+
+  const [totalJobs, setTotalJobs] = useState(0);
+  // Why the queue paused itself (e.g. quota exhausted), shown in the control panel
+  const [pauseReason, setPauseReason] = useState<string | null>(null);
+
+  // The active job queue drives progress, pause and cancel
+  const queueRef = useRef<JobQueue<ResearchJobPayload, ResearchResult> | null>(null);
+
+  // Activity log of the active (or last) run, persisted per run id
+  const [activityLog, setActivityLog] = useState<AgentLog[]>([]);
+  const loggerRef = useRef<RunLogger | null>(null);
+
+  // The active run is checkpointed to IndexedDB so it survives a reload
+  const activeRunRef = useRef<ActiveRun | null>(null);
+  const checkpointTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [interruptedRun, setInterruptedRun] = useState<RunCheckpoint | null>(null);
+  // Config loaded back into the control panel when a run is restored
+  const [restoredConfig, setRestoredConfig] = useState<ResearchConfig | null>(null);
+  const [isReviewOpen, setIsReviewOpen] = useState(false);
+  // Local documents (knowledge base) that runs can ground tasks on
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+  const documentIndex = useMemo(() => buildDocumentIndex(documents), [documents]);
+
+  // Offer to resume a run that was interrupted by a reload or crash
+  useEffect(() => {
+    loadRunCheckpoint()
+      .then(checkpoint => {
+        if (checkpoint) setInterruptedRun(checkpoint);
+      })
+      .catch(error => console.error("Failed to load run checkpoint", error));
+  }, []);
 
-  // Refs for pause/resume/cancel functionality
-  const isPausedRef = useRef(false);
-  const isCancelledRef = useRef(false);
-  const resumeResolverRef = useRef<(() => void) | null>(null);
+  useEffect(() => {
+    loadDocuments().then(setDocuments);
+  }, []);
 
   // Ref for UniverSheet to call syncData
   const sheetRef = useRef<UniverSheetRef>(null);
 
   const handleFileUpload = async (file: File) => {
     try {
+      queueRef.current?.cancel();
+      endActiveRun();
+      setInterruptedRun(null);
       setStatus(ProcessingStatus.IDLE);
       setProcessedCount(0);
       setActiveConfig(null);
-      setCellSources({});
+      setCellProvenance({});
+      setInvalidCells({});
+      setCellConfidence({});
+      loggerRef.current = null;
+      setActivityLog([]);
       const result = await parseDataFile(file);
       
       // Initialize both current and original data
@@ -47,6 +114,8 @@ const App: React.FC = () => {
 
   const handleClearData = () => {
     if (window.confirm("Are you sure you want to clear the current data? This action cannot be undone.")) {
+      queueRef.current?.cancel();
+      endActiveRun();
       setData([]);
       setColumns([]);
       setOriginalData([]);
@@ -54,11 +123,22 @@ const App: React.FC = () => {
       setStatus(ProcessingStatus.IDLE);
       setProcessedCount(0);
       setActiveConfig(null);
-      setCellSources({});
+      setCellProvenance({});
+      setInvalidCells({});
+      setCellConfidence({});
+      setRowFingerprints({});
+      loggerRef.current = null;
+      setActivityLog([]);
     }
   };
 
+  // Manual edits in the sheet; edited AI cells are flagged in their provenance
   const handleCellUpdate = (rowIndex: number, column: string, value: string) => {
+    const rowId = data[rowIndex] && getRowId(data[rowIndex]);
+    if (rowId) {
+      const cellKey = getCellKey(rowId, column);
+      setCellProvenance(prev => prev[cellKey] ? { ...prev, [cellKey]: markEdited(prev[cellKey], value) } : prev);
+    }
     setData(prevData => {
       const newData = [...prevData];
       newData[rowIndex] = {
@@ -69,171 +149,475 @@ const App: React.FC = () => {
     });
   };
 
+  // Map the queue lifecycle onto the UI processing status
+  const applyQueueSnapshot = useCallback((snapshot: JobQueueSnapshot) => {
+    setProcessedCount(snapshot.completed + snapshot.failed);
+    setTotalJobs(snapshot.total);
+    setPauseReason(snapshot.pauseReason || null);
+    switch (snapshot.status) {
+      case 'running':
+        setStatus(ProcessingStatus.PROCESSING);
+        break;
+      case 'paused':
+        setStatus(ProcessingStatus.PAUSED);
+        break;
+      case 'completed':
+        setStatus(ProcessingStatus.COMPLETED);
+        break;
+      case 'cancelled':
+        setStatus(ProcessingStatus.IDLE);
+        break;
+    }
+  }, []);
+
+  // Write a finished cell into the sheet the moment it completes. The row is looked up by id,
+  // so results land in the right row even if the sheet was sorted or rows were removed meanwhile.
+  const applyCellResult = useCallback(({ rowId, column: colName, result, provenance }: CellResult) => {
+    const cellKey = getCellKey(rowId, colName);
+
+    setData(prev => {
+      const rowIndex = prev.findIndex(row => getRowId(row) === rowId);
+      if (rowIndex === -1) return prev;
+      const next = [...prev];
+      next[rowIndex] = {
+        ...next[rowIndex],
+        [colName]: result.text
+      };
+      return next;
+    });
+
+    setCellProvenance(prev => ({ ...prev, [cellKey]: provenance || createProvenance(result) }));
+
+    // Mark cells that failed type validation (and clear stale marks on success)
+    setInvalidCells(prev => {
+      if (!result.validationError && !(cellKey in prev)) return prev;
+      const next = { ...prev };
+      if (result.validationError) {
+        next[cellKey] = result.validationError;
+      } else {
+        delete next[cellKey];
+      }
+      return next;
+    });
+
+    setCellConfidence(prev => {
+      if (result.confidence === undefined && !(cellKey in prev)) return prev;
+      const next = { ...prev };
+      if (result.confidence !== undefined) {
+        next[cellKey] = result.confidence;
+      } else {
+        delete next[cellKey];
+      }
+      return next;
+    });
+  }, []);
+
   // Pause handler
   const handlePause = useCallback(() => {
-    isPausedRef.current = true;
-    setStatus(ProcessingStatus.PAUSED);
+    queueRef.current?.pause();
   }, []);
 
-  // Resume handler
+  // Resume handler. Resuming a run paused at its budget cap continues past the cap.
   const handleResume = useCallback(() => {
-    isPausedRef.current = false;
-    setStatus(ProcessingStatus.PROCESSING);
-    // Resolve the promise to continue the loop
-    if (resumeResolverRef.current) {
-      resumeResolverRef.current();
-      resumeResolverRef.current = null;
+    const run = activeRunRef.current;
+    if (run?.config.budgetUsd && (run.spentUsd || 0) >= run.config.budgetUsd) {
+      run.budgetCapLifted = true;
     }
-  }, []);
-
-  // Helper to wait for resume when paused
-  const waitForResume = useCallback(() => {
-    return new Promise<void>((resolve) => {
-      resumeResolverRef.current = resolve;
-    });
+    queueRef.current?.resume();
   }, []);
 
   // Cancel handler
   const handleCancel = useCallback(() => {
-    isCancelledRef.current = true;
-    isPausedRef.current = false;
-    setStatus(ProcessingStatus.IDLE);
-    // If paused, resolve to break out of the wait
-    if (resumeResolverRef.current) {
-      resumeResolverRef.current();
-      resumeResolverRef.current = null;
+    queueRef.current?.cancel();
+  }, []);
+
+  // Stop any running queue when the app unmounts (keeping its checkpoint for a later resume)
+  useEffect(() => {
+    return () => {
+      const queue = queueRef.current;
+      queueRef.current = null;
+      queue?.cancel();
+    };
+  }, []);
+
+  // Persist the active run at most every CHECKPOINT_INTERVAL_MS
+  const scheduleCheckpoint = useCallback(() => {
+    if (checkpointTimerRef.current) return;
+    checkpointTimerRef.current = setTimeout(() => {
+      checkpointTimerRef.current = null;
+      const run = activeRunRef.current;
+      if (!run) return;
+      saveRunCheckpoint(run).catch(error => console.error("Failed to save run checkpoint", error));
+    }, CHECKPOINT_INTERVAL_MS);
+  }, []);
+
+  const endActiveRun = useCallback(() => {
+    activeRunRef.current = null;
+    if (checkpointTimerRef.current) {
+      clearTimeout(checkpointTimerRef.current);
+      checkpointTimerRef.current = null;
     }
+    clearRunCheckpoint().catch(error => console.error("Failed to clear run checkpoint", error));
   }, []);
 
-  const handleStartResearch = useCallback(async (config: ResearchConfig) => {
-    if (!data.length) return;
+  // Creates the queue for a run and wires its events into React state and the checkpoint
+  const launchRun = useCallback(async (run: ActiveRun, options: { paused?: boolean } = {}) => {
+    // Stop any previous run before starting a new one
+    queueRef.current?.cancel();
+    activeRunRef.current = run;
+    setRunSummary(null);
+    setRunSpend(run.spentUsd || 0);
+
+    const { config } = run;
+    applyRateLimits(config);
+
+    // Skip jobs that already finished before a reload
+    const jobs = buildResearchJobs(run.data, config, {
+      invalidCells: run.invalidCells,
+      rowFingerprints: run.previousFingerprints,
+      rejectedCells: getRejectedCells(run.cellProvenance),
+    }).filter(job => !(job.id in run.cellResults));
+
+    // Remember the inputs this run saw, for the next "changed rows" run
+    setRowFingerprints(fingerprintRows(run.data, config));
+
+    // The row as the run started plus every result recorded for it since
+    const getCurrentRow = (rowIndex: number) => {
+      const row = { ...run.data[rowIndex] };
+      config.tasks.forEach(task => {
+        const cell = run.cellResults[getJobId(rowIndex, task.id)];
+        if (cell) row[task.newColumnName] = cell.result.text;
+      });
+      return row;
+    };
+
+    // Combined and multi-row jobs share one request per group
+    const sharedRequests = createSharedRequests();
+
+    // A resumed run keeps appending to the log it started
+    const previousLog = await loadRunLog(run.runId).catch(error => {
+      console.error("Failed to load run log", error);
+      return undefined;
+    });
+    const logger = createRunLogger(
+      { runId: run.runId, columns: config.tasks.map(t => t.newColumnName), startedAt: run.startedAt },
+      previousLog
+    );
+    loggerRef.current = logger;
+    logger.subscribe(entries => {
+      if (loggerRef.current === logger) setActivityLog(entries);
+    });
+    setActivityLog(logger.getEntries());
+    logger.add('info', `Run ${previousLog ? 'restored' : 'started'} with ${jobs.length} cell${jobs.length !== 1 ? 's' : ''} to fill`, { event: 'run' });
+
+    // Log details shared by every entry about a job's cell
+    const describeJob = (job: ResearchJob) => ({
+      rowIndex: job.payload.rowIndex,
+      taskId: job.payload.task.id,
+      column: job.payload.task.newColumnName,
+    });
+    const jobLabel = (job: ResearchJob) => `Row ${job.payload.rowIndex + 1} · ${job.payload.task.newColumnName}`;
+    const startTimes = new Map<string, number>();
+    const retryCounts = new Map<string, number>();
+    // Jobs as they were sent, with dependent prompts filled in from upstream answers
+    const sentJobs = new Map<string, ResearchJob>();
+
+    const queue = createJobQueue<ResearchJobPayload, ResearchResult>({
+      ...getQueueConcurrency(config),
+      // Answers copied to other rows of an entity cluster were not jobs of their own
+      initialCompleted: Object.values(run.cellResults).filter(cell => !cell.provenance?.copiedFrom).length,
+      // Dependent tasks are rendered when they start, once their inputs are filled
+      run: (job, signal) => {
+        const refreshed = refreshJobInput(job, getCurrentRow(job.payload.rowIndex), config);
+        sentJobs.set(job.id, refreshed);
+        return runResearchJob(refreshed, signal, {
+          shared: sharedRequests,
+          documents: documentIndex,
+          onRetry: (error, attempt, delayMs) => {
+            retryCounts.set(job.id, (retryCounts.get(job.id) || 0) + 1);
+            logger.add(
+              'warning',
+              `${jobLabel(job)}: ${error.description}, retry ${attempt} in ${(delayMs / 1000).toFixed(1)}s`,
+              { ...describeJob(job), event: 'retried', error: `${error.kind}: ${error.message}` }
+            );
+          },
+        });
+      },
+    });
+    queueRef.current = queue;
+
+    // Track spend from every model call the run makes and stop at the budget cap
+    const stopUsageTracking = onUsage((usage, model) => {
+      if (queueRef.current !== queue) return;
+      run.spentUsd = (run.spentUsd || 0) + estimateCost(model, usage);
+      setRunSpend(run.spentUsd);
+      scheduleCheckpoint();
+      if (config.budgetUsd && !run.budgetCapLifted && run.spentUsd >= config.budgetUsd) {
+        queue.pause(`Budget cap of ${formatCost(config.budgetUsd)} reached (${formatCost(run.spentUsd)} spent). Resume to continue past the cap.`);
+      }
+    });
+    queue.subscribe(event => {
+      if (event.type === 'status' && (event.snapshot.status === 'completed' || event.snapshot.status === 'cancelled')) {
+        stopUsageTracking();
+      }
+    });
 
-    // Reset pause/cancel state at start
-    isPausedRef.current = false;
-    isCancelledRef.current = false;
-    resumeResolverRef.current = null;
+    const recordResult = (job: ResearchJob, result: ResearchResult) => {
+      const sent = sentJobs.get(job.id)?.payload;
+      const provenance = createProvenance(result, {
+        task: job.payload.task,
+        prompt: sent?.prompt,
+        context: sent?.context,
+        retries: retryCounts.get(job.id) || 0,
+        runId: run.runId,
+      });
+      const cell = { rowIndex: job.payload.rowIndex, rowId: job.payload.rowId, column: job.payload.task.newColumnName, result, provenance };
+      // The answer also fills the other rows of the job's entity cluster
+      Object.entries(expandCellResult(job, cell)).forEach(([jobId, expanded]) => {
+        applyCellResult(expanded);
+        run.cellResults[jobId] = expanded;
+      });
+      scheduleCheckpoint();
+    };
+
+    // Queue status changes are logged once each, not on every progress update
+    let loggedStatus: JobQueueStatus = options.paused ? 'paused' : 'running';
+
+    queue.subscribe(event => {
+      // Ignore late events from a queue that has been replaced
+      if (queueRef.current !== queue) return;
+
+      if (event.type === 'started') {
+        startTimes.set(event.job.id, Date.now());
+        logger.add('info', `${jobLabel(event.job)}: started`, { ...describeJob(event.job), event: 'started' });
+      } else if (event.type === 'completed') {
+        if (!event.result.fromCache) recordUsageSample(event.result.model, event.result.usage);
+        recordResult(event.job, event.result);
+        const startedAt = startTimes.get(event.job.id);
+        startTimes.delete(event.job.id);
+        logger.add(
+          event.result.validationError ? 'warning' : 'success',
+          `${jobLabel(event.job)}: ${event.result.validationError || 'answered'}${event.result.fromCache ? ' (cached)' : ''}`,
+          {
+            ...describeJob(event.job),
+            event: 'completed',
+            model: event.result.model,
+            latencyMs: startedAt !== undefined ? Date.now() - startedAt : undefined,
+            sourceCount: event.result.sources.length,
+          }
+        );
+      } else if (event.type === 'failed') {
+        const error = classifyError(event.error);
+        console.error(`Research job ${event.job.id} failed (${error.kind}):`, error);
+        const startedAt = startTimes.get(event.job.id);
+        startTimes.delete(event.job.id);
+        if (error.kind !== 'cancelled') {
+          logger.add('error', `${jobLabel(event.job)}: ${error.description}`, {
+            ...describeJob(event.job),
+            event: 'failed',
+            latencyMs: startedAt !== undefined ? Date.now() - startedAt : undefined,
+            error: `${error.kind}: ${error.message}`,
+          });
+        }
+
+        // Quota/auth problems and exhausted retries would fail every remaining row too:
+        // pause with the reason and put the job back so Resume retries it
+        if (error.stopsRun || error.retryable) {
+          queue.pause(`${error.description}. ${error.retryable ? 'Retries exhausted' : 'Check your API key and quota'}, resume to try again.`);
+          queue.requeue(event.job);
+        } else if (error.kind !== 'cancelled') {
+          recordResult(event.job, { text: 'Error', sources: [], validationError: error.description });
+        }
+      } else if (event.type === 'skipped') {
+        const upstream = config.tasks.find(t => event.dependencyId === getJobId(event.job.payload.rowIndex, t.id));
+        const reason = upstream ? `Skipped because "${upstream.newColumnName}" failed` : 'Skipped because an input could not be researched';
+        recordResult(event.job, { text: 'Error', sources: [], validationError: reason });
+        logger.add('warning', `${jobLabel(event.job)}: ${reason}`, { ...describeJob(event.job), event: 'skipped' });
+      } else if (event.type === 'status') {
+        applyQueueSnapshot(event.snapshot);
+        const { snapshot } = event;
+        if (snapshot.status !== loggedStatus) {
+          if (snapshot.status === 'paused') {
+            logger.add('warning', snapshot.pauseReason ? `Run paused: ${snapshot.pauseReason}` : 'Run paused', { event: 'run' });
+          } else if (snapshot.status === 'running') {
+            logger.add('info', 'Run resumed', { event: 'run' });
+          } else if (snapshot.status === 'completed') {
+            logger.add(snapshot.failed > 0 ? 'warning' : 'success', `Run completed: ${snapshot.completed} done, ${snapshot.failed} failed`, { event: 'run' });
+          } else if (snapshot.status === 'cancelled') {
+            logger.add('warning', 'Run cancelled', { event: 'run' });
+          }
+          loggedStatus = snapshot.status;
+        }
+        if (snapshot.status === 'completed' || snapshot.status === 'cancelled') {
+          logger.flush();
+        }
+        if (event.snapshot.status === 'completed') {
+          setRunSummary(summarizeRun(Object.values(run.cellResults).filter(cell => !cell.provenance?.copiedFrom).map(cell => cell.result)));
+        }
+        if (event.snapshot.status === 'completed' || event.snapshot.status === 'cancelled') {
+          endActiveRun();
+        }
+      }
+    });
+
+    queue.add(jobs);
+    saveRunCheckpoint(run).catch(error => console.error("Failed to save run checkpoint", error));
+    await queue.start(options);
+  }, [applyCellResult, applyQueueSnapshot, scheduleCheckpoint, endActiveRun, documentIndex]);
+
+  // Cells finished by an approved preview are written up front and not run again
+  const handleStartResearch = useCallback(async (config: ResearchConfig, previewResults: Record<string, CellResult> = {}) => {
+    if (!data.length) return;
 
-    setStatus(ProcessingStatus.PROCESSING);
     setActiveConfig(config);
     setProcessedCount(0);
 
     // Add new columns to the header if they don't exist
     const newColumnsToAdd = config.tasks.map(t => t.newColumnName).filter(name => !columns.includes(name));
+    const runColumns = [...columns, ...newColumnsToAdd];
     if (newColumnsToAdd.length > 0) {
-      setColumns(prev => [...prev, ...newColumnsToAdd]);
+      setColumns(runColumns);
     }
 
-    const newData = [...data];
+    Object.values(previewResults).forEach(applyCellResult);
+
+    await launchRun({
+      runId: createRunId(),
+      config,
+      data: [...data],
+      columns: runColumns,
+      cellProvenance,
+      invalidCells,
+      cellConfidence,
+      previousFingerprints: rowFingerprints,
+      cellResults: { ...previewResults },
+      startedAt: Date.now(),
+    });
+  }, [data, columns, cellProvenance, invalidCells, cellConfidence, rowFingerprints, launchRun, applyCellResult]);
 
-    // Determine how many rows to process based on limit
-    // If rowLimit is set and > 0, use it. Otherwise process all.
-    const limit = config.rowLimit && config.rowLimit > 0 ? config.rowLimit : newData.length;
-    const effectiveTotal = Math.min(newData.length, limit);
+  // Rows selected or left visible by the filter in the sheet, for the row scope selector
+  const getSheetRowIndices = useCallback((kind: 'selection' | 'filtered') => {
+    if (!sheetRef.current) return [];
+    return kind === 'selection' ? sheetRef.current.getSelectedRowIndices() : sheetRef.current.getVisibleRowIndices();
+  }, []);
 
-    // Dynamic batch size based on number of tasks per row
-    const tasksPerItem = config.tasks.length;
-    const concurrentLimit = config.useThinkingModel ? 2 : 10;
-    const BATCH_SIZE = Math.max(1, Math.floor(concurrentLimit / tasksPerItem));
+  // Reviewer notes of rejected cells, re-sent with their prompts when they are re-run
+  const rejectedCells = useMemo(() => getRejectedCells(cellProvenance), [cellProvenance]);
 
-    // Process in batches until we reach the effective total
-    for (let i = 0; i < effectiveTotal; i += BATCH_SIZE) {
-      // Check if cancelled
-      if (isCancelledRef.current) {
-        return; // Exit early, status already set to IDLE by handleCancel
-      }
+  // Job counts per run mode, shown in the control panel before starting
+  const countJobs = useCallback((config: ResearchConfig) =>
+    countJobsByMode(data, config, { invalidCells, rowFingerprints, rejectedCells }),
+  [data, invalidCells, rowFingerprints, rejectedCells]);
 
-      // Check if paused before starting a new batch
-      if (isPausedRef.current) {
-        await waitForResume();
-        // Check again if cancelled while paused
-        if (isCancelledRef.current) {
-          return;
-        }
-      }
+  // Jobs a config would schedule, for the preview run
+  const buildJobs = useCallback((config: ResearchConfig) =>
+    buildResearchJobs(data, config, { invalidCells, rowFingerprints, rejectedCells }),
+  [data, invalidCells, rowFingerprints, rejectedCells]);
 
-      const batchEnd = Math.min(i + BATCH_SIZE, effectiveTotal);
-
-      const batchPromises: Promise<{ rowIndex: number; taskIndex: number; result: ResearchResult }>[] = [];
-
-      // Prepare promises for the current batch
-      for (let j = i; j < batchEnd; j++) {
-        const row = newData[j];
-
-        // Combine all selected columns to form the entity name
-        const entityName = config.targetColumns
-          .map(col => row[col])
-          .filter(val => val && val.trim() !== '')
-          .join(' ');
-
-        if (entityName) {
-          // Context: Send ALL other columns that are NOT part of the entity identity to provide context
-          const contextParts = Object.entries(row)
-            .filter(([key]) => !config.targetColumns.includes(key) && !config.tasks.find(t => t.newColumnName === key))
-            .map(([key, val]) => `${key}: ${val}`);
-          const contextStr = contextParts.join(', ');
-
-          // Create a promise for each task for this row
-          config.tasks.forEach((task, taskIdx) => {
-            const promise = researchEntity(
-              entityName,
-              task.prompt,
-              contextStr,
-              config.useThinkingModel
-            )
-              .then(result => ({
-                rowIndex: j,
-                taskIndex: taskIdx,
-                result
-              }));
-            batchPromises.push(promise);
-          });
-        }
-      }
+  // Token and cost estimate for the jobs a config would schedule
+  const estimateRunCost = useCallback((config: ResearchConfig) =>
+    estimateRun(buildJobs(config), config, documentIndex),
+  [buildJobs, documentIndex]);
 
-      // Wait for all requests in the batch to complete
-      if (batchPromises.length > 0) {
-        const results = await Promise.all(batchPromises);
+  const handleAddDocument = useCallback(async (file: File) => {
+    const doc = await addDocument(file);
+    setDocuments(prev => [...prev.filter(d => d.key !== doc.key), doc]);
+    return doc;
+  }, []);
 
-        const newSources: Record<string, Source[]> = {};
+  const handleDeleteDocument = useCallback(async (key: string) => {
+    try {
+      await deleteDocument(key);
+    } catch (error) {
+      console.error("Failed to delete document", error);
+    }
+    setDocuments(prev => prev.filter(d => d.key !== key));
+  }, []);
 
-        // Update data with results
-        results.forEach(({ rowIndex, taskIndex, result }) => {
-          const colName = config.tasks[taskIndex].newColumnName;
+  // Restore an interrupted run from its checkpoint, paused where it stopped
+  const handleRestoreRun = useCallback(() => {
+    if (!interruptedRun) return;
+    const checkpoint = interruptedRun;
+    setInterruptedRun(null);
+
+    // Checkpoints saved before rows had ids get them now; results are matched by position within the run
+    const runData = ensureRowIds(checkpoint.data);
+    const cellResults = Object.fromEntries(Object.entries(checkpoint.cellResults).map(([jobId, cell]) =>
+      [jobId, { ...cell, rowId: cell.rowId || getRowId(runData[cell.rowIndex]) }]
+    ));
+
+    const restoredData = [...runData];
+    const restoredProvenance = { ...checkpoint.cellProvenance };
+    const restoredInvalid = { ...checkpoint.invalidCells };
+    const restoredConfidence = { ...checkpoint.cellConfidence };
+    Object.values(cellResults).forEach(({ rowIndex, rowId, column, result, provenance }) => {
+      const cellKey = getCellKey(rowId, column);
+      restoredData[rowIndex] = { ...restoredData[rowIndex], [column]: result.text };
+      restoredProvenance[cellKey] = provenance || createProvenance(result);
+      if (result.validationError) {
+        restoredInvalid[cellKey] = result.validationError;
+      } else {
+        delete restoredInvalid[cellKey];
+      }
+      if (result.confidence !== undefined) {
+        restoredConfidence[cellKey] = result.confidence;
+      } else {
+        delete restoredConfidence[cellKey];
+      }
+    });
 
-          // Update row data
-          newData[rowIndex] = {
-            ...newData[rowIndex],
-            [colName]: result.text
-          };
+    setData(restoredData);
+    setColumns(checkpoint.columns);
+    setOriginalData(runData);
+    setOriginalColumns(checkpoint.columns);
+    setCellProvenance(restoredProvenance);
+    setInvalidCells(restoredInvalid);
+    setCellConfidence(restoredConfidence);
+    setActiveConfig(checkpoint.config);
+    setRestoredConfig(checkpoint.config);
+
+    const { key, updatedAt, ...run } = checkpoint;
+    launchRun({ ...run, data: runData, cellResults }, { paused: true });
+  }, [interruptedRun, launchRun]);
+
+  const handleReviewCell = useCallback((cellKey: string, reviewStatus: ReviewStatus, note?: string) => {
+    setCellProvenance(prev => prev[cellKey] ? { ...prev, [cellKey]: setReview(prev[cellKey], reviewStatus, note) } : prev);
+  }, []);
 
-          // Collect sources if available
-          if (result.sources && result.sources.length > 0) {
-            newSources[`${rowIndex}-${colName}`] = result.sources;
-          }
-        });
+  const handleBulkAccept = useCallback((minConfidence: number) => {
+    setCellProvenance(prev => acceptByConfidence(prev, cellConfidence, minConfidence, invalidCells));
+  }, [cellConfidence, invalidCells]);
 
-        // Update sources state once per batch
-        setCellSources(prev => ({ ...prev, ...newSources }));
-      }
+  // Corrections made in the review queue go through the same path as edits in the sheet
+  const handleReviewEdit = (cellKey: string, value: string) => {
+    const { rowId, column } = parseCellKey(cellKey);
+    const rowIndex = data.findIndex(row => getRowId(row) === rowId);
+    if (rowIndex !== -1) handleCellUpdate(rowIndex, column, value);
+  };
 
-      // Update state to reflect progress
-      setData([...newData]);
-      setProcessedCount(batchEnd);
+  // Re-runs every rejected cell of the last config, with the reviewer notes added to the prompts
+  const handleRerunRejected = useCallback(() => {
+    if (!activeConfig) return;
+    setIsReviewOpen(false);
+    handleStartResearch({ ...activeConfig, runMode: 'rejected', rowScope: { type: 'all' } });
+  }, [activeConfig, handleStartResearch]);
 
-      // Add a delay between batches to respect rate limits
-      if (batchEnd < effectiveTotal) {
-        await new Promise(resolve => setTimeout(resolve, config.useThinkingModel ? 4000 : 2000));
-      }
-    }
+  const reviewCounts = useMemo(() => countReviewStatuses(cellProvenance, indexRowIds(data)), [cellProvenance, data]);
 
-    setStatus(ProcessingStatus.COMPLETED);
-  }, [data, columns, waitForResume]);
+  const handleDiscardRun = useCallback(() => {
+    setInterruptedRun(null);
+    clearRunCheckpoint().catch(error => console.error("Failed to clear run checkpoint", error));
+  }, []);
 
   const handleExport = (format: 'csv' | 'xlsx') => {
     if (format === 'csv') {
       exportCsv(data, 'enriched_data_agent.csv');
     } else {
-      exportExcel(data, 'enriched_data_agent.xlsx');
+      // Write typed task columns (numbers, dates, booleans) as real typed cells
+      const columnTypes = Object.fromEntries(
+        (activeConfig?.tasks || []).map(t => [t.newColumnName, t.outputType || 'text'])
+      );
+      exportExcel(data, 'enriched_data_agent.xlsx', columnTypes, provenanceToRows(cellProvenance, data));
     }
   };
 
@@ -246,12 +630,9 @@ const App: React.FC = () => {
 
   const highlightColumns = activeConfig ? activeConfig.tasks.map(t => t.newColumnName) : [];
 
-  // Calculate the effective total to display in the progress bar
-  // If actively processing/paused with a limit, show the limit. Otherwise show total data length.
+  // Progress is measured in jobs (one per row and task) while a run is active or complete
   const isActiveOrComplete = status === ProcessingStatus.PROCESSING || status === ProcessingStatus.PAUSED || status === ProcessingStatus.COMPLETED;
-  const displayTotal = isActiveOrComplete && activeConfig?.rowLimit && activeConfig.rowLimit > 0
-    ? Math.min(data.length, activeConfig.rowLimit)
-    : data.length;
+  const displayTotal = isActiveOrComplete ? totalJobs : data.length;
 
   return (
     <div className="min-h-screen bg-slate-50 font-sans text-slate-900 flex flex-col">
@@ -269,7 +650,7 @@ const App: React.FC = () => {
             </h1>
           </div>
           <div className="flex items-center gap-4 text-sm">
-            {!process.env.API_KEY && (
+            {!isProviderConfigured() && (
               <span className="text-red-500 font-medium bg-red-50 px-3 py-1 rounded-full">
                 API Key Missing
               </span>
@@ -279,6 +660,36 @@ const App: React.FC = () => {
       </header>
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8 flex-grow w-full">
+
+        {/* Interrupted run banner */}
+        {interruptedRun && (
+          <div className="flex items-center justify-between gap-4 bg-amber-50 border border-amber-200 rounded-xl px-5 py-4 animate-fade-in">
+            <div className="flex items-center gap-3">
+              <History className="w-5 h-5 text-amber-600 flex-shrink-0" />
+              <div>
+                <p className="text-sm font-semibold text-amber-900">An enrichment run was interrupted</p>
+                <p className="text-xs text-amber-700">
+                  {Object.keys(interruptedRun.cellResults).length} cells were completed across {interruptedRun.data.length} rows
+                  (last saved {new Date(interruptedRun.updatedAt).toLocaleString()}). Resume to continue where it stopped.
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-2 flex-shrink-0">
+              <button
+                onClick={handleDiscardRun}
+                className="px-4 py-2 text-sm font-medium text-slate-600 bg-white border border-slate-300 rounded-lg hover:bg-slate-50"
+              >
+                Discard
+              </button>
+              <button
+                onClick={handleRestoreRun}
+                className="px-4 py-2 text-sm font-medium text-white bg-amber-600 rounded-lg hover:bg-amber-700"
+              >
+                Restore Run
+              </button>
+            </div>
+          </div>
+        )}
         
         {/* Hero / Upload Section */}
         {data.length === 0 ? (
@@ -308,7 +719,11 @@ const App: React.FC = () => {
                    <Search className="w-5 h-5 text-purple-600" />
                  </div>
                  <h3 className="font-semibold text-slate-900">Live Research</h3>
-                 <p className="text-slate-500 text-sm mt-2">Powered by Gemini Grounding, the agent actually searches the internet for real-time data.</p>
+                 <p className="text-slate-500 text-sm mt-2">
+                   {describeProvider().webSearch
+                     ? `Powered by ${describeProvider().fastModel} with live web search, the agent actually searches the internet for real-time data.`
+                     : `Answers come from ${describeProvider().fastModel} without web search, so recent facts may be missing.`}
+                 </p>
                </div>
                <div className="bg-white p-6 rounded-xl border border-slate-100 shadow-sm hover:shadow-md transition-shadow">
                  <div className="w-10 h-10 bg-green-50 rounded-lg flex items-center justify-center mb-4">
@@ -325,6 +740,7 @@ const App: React.FC = () => {
             {/* Control Panel */}
             <AgentControlPanel
               columns={columns}
+              data={data}
               status={status}
               onStart={handleStartResearch}
               onPause={handlePause}
@@ -334,8 +750,22 @@ const App: React.FC = () => {
               onClear={handleClearData}
               progress={processedCount}
               total={displayTotal}
+              statusMessage={pauseReason}
+              restoredConfig={restoredConfig}
+              countJobs={countJobs}
+              getSheetRowIndices={getSheetRowIndices}
+              runSummary={runSummary}
+              estimateRun={estimateRunCost}
+              spend={runSpend}
+              buildJobs={buildJobs}
+              documents={documents}
+              documentIndex={documentIndex}
+              onAddDocument={handleAddDocument}
+              onDeleteDocument={handleDeleteDocument}
             />
 
+            <ActivityLogPanel entries={activityLog} tasks={activeConfig?.tasks || []} />
+
             {/* Data Display */}
             <div>
               <div className="flex items-center justify-between mb-4">
@@ -348,6 +778,19 @@ const App: React.FC = () => {
                   >
                     <RefreshCw className="w-4 h-4" />
                   </button>
+                  {Object.keys(cellProvenance).length > 0 && (
+                    <button
+                      onClick={() => setIsReviewOpen(true)}
+                      className="flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium text-brand-700 bg-brand-50 border border-brand-100 rounded-md hover:bg-brand-100 transition-colors"
+                      title="Step through AI-filled cells to accept, reject or correct them"
+                    >
+                      <ClipboardCheck className="w-3.5 h-3.5" />
+                      Review
+                      <span className="text-brand-500">
+                        {reviewCounts.unreviewed > 0 ? `${reviewCounts.unreviewed} to review` : 'all reviewed'}
+                      </span>
+                    </button>
+                  )}
                 </div>
                 {activeConfig && (
                   <div className="flex gap-2">
@@ -364,12 +807,28 @@ const App: React.FC = () => {
                 data={data}
                 columns={columns}
                 highlightColumns={highlightColumns}
-                cellSources={cellSources}
+                cellProvenance={cellProvenance}
+                invalidCells={invalidCells}
+                cellConfidence={cellConfidence}
                 onCellUpdate={handleCellUpdate}
                 onDataChange={setData}
                 onColumnsChange={setColumns}
               />
             </div>
+
+            <ReviewQueueModal
+              isOpen={isReviewOpen}
+              onClose={() => setIsReviewOpen(false)}
+              data={data}
+              entityColumns={activeConfig?.targetColumns || []}
+              cellProvenance={cellProvenance}
+              cellConfidence={cellConfidence}
+              invalidCells={invalidCells}
+              onReview={handleReviewCell}
+              onEdit={handleReviewEdit}
+              onBulkAccept={handleBulkAccept}
+              onRerunRejected={activeConfig && status !== ProcessingStatus.PROCESSING && status !== ProcessingStatus.PAUSED ? handleRerunRejected : undefined}
+            />
           </div>
         )}
       </main>
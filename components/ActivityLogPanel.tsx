@@ -0,0 +1,181 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Activity, ChevronDown, ChevronRight, Download } from 'lucide-react';
+import { AgentLog, AgentLogType, ResearchTask } from '../types';
+import { filterLogs, loadRunLogs, logsToRows, RunLogRecord } from '../services/runLog';
+import { exportCsv, exportJson } from '../utils/csvHelper';
+
+interface ActivityLogPanelProps {
+  // Entries of the current run
+  entries: AgentLog[];
+  tasks: ResearchTask[];
+}
+
+// Rendering thousands of rows at once makes the page sluggish
+const MAX_VISIBLE_ENTRIES = 500;
+const CURRENT_RUN = 'current';
+
+const TYPE_STYLES: Record<AgentLogType, string> = {
+  info: 'bg-slate-100 text-slate-600',
+  success: 'bg-emerald-50 text-emerald-700',
+  warning: 'bg-amber-50 text-amber-700',
+  error: 'bg-red-50 text-red-700',
+};
+
+const formatTime = (timestamp: Date) => new Date(timestamp).toLocaleTimeString();
+
+/**
+ * Live log of what the agent did, with filters, export and access to earlier runs.
+ */
+export const ActivityLogPanel: React.FC<ActivityLogPanelProps> = ({ entries, tasks }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [typeFilter, setTypeFilter] = useState<AgentLogType | ''>('');
+  const [taskFilter, setTaskFilter] = useState('');
+  const [rowFilter, setRowFilter] = useState('');
+  const [selectedRun, setSelectedRun] = useState(CURRENT_RUN);
+  const [pastRuns, setPastRuns] = useState<RunLogRecord[]>([]);
+
+  // Refresh the list of stored runs whenever the panel is opened
+  useEffect(() => {
+    if (!isOpen) return;
+    loadRunLogs()
+      .then(setPastRuns)
+      .catch(error => console.error("Failed to load run logs", error));
+  }, [isOpen]);
+
+  const pastRun = pastRuns.find(run => run.runId === selectedRun);
+  const sourceEntries = pastRun ? pastRun.entries : entries;
+  // Past runs may have had other tasks; fall back to the columns the entries mention
+  const taskOptions = useMemo(() => {
+    const options = new Map(tasks.map(task => [task.id, task.newColumnName]));
+    sourceEntries.forEach(entry => {
+      if (entry.taskId && !options.has(entry.taskId)) options.set(entry.taskId, entry.column || entry.taskId);
+    });
+    return Array.from(options.entries());
+  }, [tasks, sourceEntries]);
+
+  const rowNumber = parseInt(rowFilter, 10);
+  const filtered = useMemo(() => filterLogs(sourceEntries, {
+    type: typeFilter || undefined,
+    taskId: taskFilter || undefined,
+    rowIndex: Number.isFinite(rowNumber) && rowNumber > 0 ? rowNumber - 1 : undefined,
+  }), [sourceEntries, typeFilter, taskFilter, rowNumber]);
+  const visible = filtered.slice(-MAX_VISIBLE_ENTRIES).reverse();
+
+  const exportName = `activity_log_${pastRun ? pastRun.runId : 'current'}`;
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="w-full flex items-center justify-between px-4 py-3 text-left"
+      >
+        <span className="flex items-center gap-2 font-bold text-slate-700">
+          {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+          <Activity className="w-5 h-5 text-brand-600" />
+          Activity Log
+          <span className="text-xs font-medium text-slate-400">({entries.length})</span>
+        </span>
+        {!isOpen && entries.length > 0 && (
+          <span className="text-xs text-slate-500 truncate max-w-md">{entries[entries.length - 1].message}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="border-t border-slate-100 p-4 space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={selectedRun}
+              onChange={(e) => setSelectedRun(e.target.value)}
+              className="px-2 py-1.5 rounded-lg border border-slate-300 text-sm focus:ring-2 focus:ring-brand-500 outline-none"
+            >
+              <option value={CURRENT_RUN}>Current run</option>
+              {pastRuns.map(run => (
+                <option key={run.runId} value={run.runId}>
+                  {new Date(run.startedAt).toLocaleString()} · {run.columns.join(', ') || 'Untitled'}
+                </option>
+              ))}
+            </select>
+            <select
+              value={typeFilter}
+              onChange={(e) => setTypeFilter(e.target.value as AgentLogType | '')}
+              className="px-2 py-1.5 rounded-lg border border-slate-300 text-sm focus:ring-2 focus:ring-brand-500 outline-none"
+            >
+              <option value="">All types</option>
+              <option value="info">Info</option>
+              <option value="success">Success</option>
+              <option value="warning">Warning</option>
+              <option value="error">Error</option>
+            </select>
+            <select
+              value={taskFilter}
+              onChange={(e) => setTaskFilter(e.target.value)}
+              className="px-2 py-1.5 rounded-lg border border-slate-300 text-sm focus:ring-2 focus:ring-brand-500 outline-none"
+            >
+              <option value="">All tasks</option>
+              {taskOptions.map(([id, name]) => (
+                <option key={id} value={id}>{name || 'Untitled'}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={1}
+              value={rowFilter}
+              onChange={(e) => setRowFilter(e.target.value)}
+              placeholder="Row"
+              className="w-20 px-2 py-1.5 rounded-lg border border-slate-300 text-sm focus:ring-2 focus:ring-brand-500 outline-none"
+            />
+            <div className="ml-auto flex gap-2">
+              <button
+                onClick={() => exportJson(filtered, `${exportName}.json`)}
+                disabled={filtered.length === 0}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-600 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 disabled:opacity-50"
+              >
+                <Download className="w-3.5 h-3.5" />
+                JSON
+              </button>
+              <button
+                onClick={() => exportCsv(logsToRows(filtered), `${exportName}.csv`)}
+                disabled={filtered.length === 0}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-600 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 disabled:opacity-50"
+              >
+                <Download className="w-3.5 h-3.5" />
+                CSV
+              </button>
+            </div>
+          </div>
+
+          <div className="max-h-80 overflow-y-auto custom-scrollbar border border-slate-100 rounded-lg divide-y divide-slate-100">
+            {visible.length === 0 ? (
+              <p className="p-4 text-sm text-slate-400 text-center">No activity to show.</p>
+            ) : visible.map(entry => (
+              <div key={entry.id} className="flex items-start gap-3 px-3 py-2 text-xs">
+                <span className="text-slate-400 whitespace-nowrap tabular-nums">{formatTime(entry.timestamp)}</span>
+                <span className={`px-1.5 py-0.5 rounded font-medium uppercase text-[10px] ${TYPE_STYLES[entry.type]}`}>
+                  {entry.type}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-slate-700 break-words">{entry.message}</p>
+                  {(entry.model || entry.latencyMs !== undefined || entry.sourceCount !== undefined) && (
+                    <p className="text-slate-400 mt-0.5">
+                      {[
+                        entry.model,
+                        entry.latencyMs !== undefined ? `${(entry.latencyMs / 1000).toFixed(1)}s` : undefined,
+                        entry.sourceCount !== undefined ? `${entry.sourceCount} source${entry.sourceCount !== 1 ? 's' : ''}` : undefined,
+                      ].filter(Boolean).join(' · ')}
+                    </p>
+                  )}
+                  {entry.error && <p className="text-red-600 mt-0.5 break-words">{entry.error}</p>}
+                </div>
+              </div>
+            ))}
+          </div>
+          {filtered.length > MAX_VISIBLE_ENTRIES && (
+            <p className="text-xs text-slate-400">
+              Showing the latest {MAX_VISIBLE_ENTRIES} of {filtered.length} entries. Export to see them all.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,12 +1,36 @@
-import React, { useState, useEffect } from 'react';
-import { Bot, Play, Loader2, AlertCircle, Trash2, Wand2, Plus, X, Globe, BrainCircuit, Check, Sparkles, FileText, FileSpreadsheet, Pause, RotateCcw, StopCircle } from 'lucide-react';
-import { ProcessingStatus, ResearchConfig, ResearchTask } from '../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Bot, Play, Loader2, AlertCircle, Trash2, Wand2, Plus, X, Globe, BrainCircuit, Check, Sparkles, FileText, FileSpreadsheet, Pause, RotateCcw, StopCircle, Database, ShieldCheck, Eye, BookOpen, Combine } from 'lucide-react';
+import { AgentBudget, CsvRow, EntityCluster, ExecutionMode, Grounding, KnowledgeDocument, OutputType, ProcessingStatus, ResearchConfig, ResearchTask, RowScope, RunMode, SourcePolicy, TaskMode } from '../types';
+import { buildTaskInput, DEFAULT_OFFLINE_BATCH_SIZE, getAgentBudget, retrieveExcerpts, RUN_MODES } from '../services/researchJobs';
+import { buildAgentPlanPrompt, buildDocumentResearchPrompt, buildOfflinePrompt, buildResearchPrompt, describeProvider } from '../services/geminiService';
+import { formatCost } from '../services/modelPricing';
+import { ESCALATION_REASON_LABELS, RunSummary } from '../services/runSummary';
+import { RunEstimate } from '../services/costEstimator';
+import { OUTPUT_TYPES } from '../utils/outputSchema';
+import { GROUNDINGS, isAgentTask, isOfflineTask, TASK_MODES, usesDocuments } from '../utils/taskModes';
+import { DocumentIndex } from '../utils/documentIndex';
+import { hasSourcePolicy, parseDomainList, summarizeSourcePolicy } from '../utils/sourcePolicy';
+import { describeRowScope, ROW_SCOPE_TYPES } from '../utils/rowScope';
+import { findUnknownPlaceholders } from '../utils/promptTemplate';
+import { pruneClusters } from '../utils/entityResolution';
+import { getRowId } from '../utils/rowId';
+import { buildTaskGraph, describeCycle } from '../utils/taskGraph';
+import { clearResultCache } from '../services/resultCache';
 import { AiAssistantModal } from './AiAssistantModal';
+import { PromptInput } from './PromptInput';
+import { PreviewModal } from './PreviewModal';
+import { KnowledgeBasePanel } from './KnowledgeBasePanel';
+import { EntityResolutionModal } from './EntityResolutionModal';
+import { ResearchJob } from '../services/researchJobs';
+import { CellResult } from '../services/runStore';
 
 interface AgentControlPanelProps {
   columns: string[];
+  // Rows of the sheet, used for scope counts and the rendered-prompt preview
+  data: CsvRow[];
   status: ProcessingStatus;
-  onStart: (config: ResearchConfig) => void;
+  // Starts a run; results of an approved preview are reused instead of re-running those cells
+  onStart: (config: ResearchConfig, previewResults?: Record<string, CellResult>) => void;
   onPause: () => void;
   onResume: () => void;
   onCancel: () => void;
@@ -14,9 +38,29 @@ interface AgentControlPanelProps {
   onClear: () => void;
   progress: number;
   total: number;
+  statusMessage?: string | null;
+  // Config to load into the form, e.g. when an interrupted run is restored
+  restoredConfig?: ResearchConfig | null;
+  // Number of jobs each run mode would schedule for a config
+  countJobs?: (config: ResearchConfig) => Record<RunMode, number>;
+  // Reads the rows currently selected or left visible by the filter in the sheet
+  getSheetRowIndices?: (kind: 'selection' | 'filtered') => number[];
+  // Totals of the last finished run
+  runSummary?: RunSummary | null;
+  // Predicted tokens and cost of running a config
+  estimateRun?: (config: ResearchConfig) => RunEstimate;
+  // Estimated USD spent so far by the active run
+  spend?: number;
+  // Jobs a config would schedule, used by the preview run
+  buildJobs?: (config: ResearchConfig) => ResearchJob[];
+  // Local documents runs can be grounded on, and the index searched for their passages
+  documents?: KnowledgeDocument[];
+  documentIndex?: DocumentIndex;
+  onAddDocument?: (file: File) => Promise<KnowledgeDocument>;
+  onDeleteDocument?: (key: string) => void;
 }
 
-const PRESETS = [
+const PRESETS: { id: string; label: string; col: string; prompt: string; outputType?: OutputType }[] = [
   {
     id: 'ceo_name',
     label: 'Find CEO Name',
@@ -27,13 +71,15 @@ const PRESETS = [
     id: 'ceo_linkedin',
     label: 'Find CEO LinkedIn',
     col: 'CEO LinkedIn',
-    prompt: 'Find the LinkedIn public profile URL for the current CEO. Return ONLY the URL starting with https://'
+    prompt: 'Find the LinkedIn public profile URL for the current CEO. Return ONLY the URL starting with https://',
+    outputType: 'url'
   },
   {
     id: 'linkedin_screenshot',
     label: 'Screenshot Web Presence',
     col: 'Web Screenshot',
-    prompt: 'Find the most visual public profile page for this entity (e.g. Personal Website, Company Team Page, or About Page). Avoid LinkedIn/Facebook URLs as they strictly block screenshot tools. Return ONLY a URL in this exact format: "https://image.thum.io/get/width/1200/crop/800/[INSERT_URL_HERE]".'
+    prompt: 'Find the most visual public profile page for this entity (e.g. Personal Website, Company Team Page, or About Page). Avoid LinkedIn/Facebook URLs as they strictly block screenshot tools. Return ONLY a URL in this exact format: "https://image.thum.io/get/width/1200/crop/800/[INSERT_URL_HERE]".',
+    outputType: 'url'
   },
   {
     id: 'linkedin_summary',
@@ -51,7 +97,8 @@ const PRESETS = [
     id: 'company_website',
     label: 'Find Company Website',
     col: 'Website',
-    prompt: 'What is the official website URL? Return only the URL.'
+    prompt: 'What is the official website URL? Return only the URL.',
+    outputType: 'url'
   },
   {
     id: 'headquarters',
@@ -63,7 +110,8 @@ const PRESETS = [
     id: 'revenue',
     label: 'Find Latest Revenue',
     col: 'Revenue',
-    prompt: 'What is the most recent annual revenue? Return the amount and currency/year.'
+    prompt: 'What is the most recent annual revenue? Return the amount and currency/year.',
+    outputType: 'currency'
   },
   {
     id: 'summary',
@@ -79,8 +127,12 @@ const PRESETS = [
   }
 ];
 
+// Counting and estimating build every job of a run, so they wait for edits to pause this long
+const ESTIMATE_DEBOUNCE_MS = 400;
+
 export const AgentControlPanel: React.FC<AgentControlPanelProps> = ({
   columns,
+  data,
   status,
   onStart,
   onPause,
@@ -90,6 +142,18 @@ export const AgentControlPanel: React.FC<AgentControlPanelProps> = ({
   onClear,
   progress,
   total,
+  statusMessage,
+  restoredConfig,
+  countJobs,
+  getSheetRowIndices,
+  runSummary,
+  estimateRun,
+  spend = 0,
+  buildJobs,
+  documents = [],
+  documentIndex,
+  onAddDocument,
+  onDeleteDocument,
 }) => {
   // Changed to array for multi-select
   const [targetColumns, setTargetColumns] = useState<string[]>([]);
@@ -97,7 +161,70 @@ export const AgentControlPanel: React.FC<AgentControlPanelProps> = ({
     { id: '1', newColumnName: '', prompt: '' }
   ]);
   const [useThinkingModel, setUseThinkingModel] = useState<boolean>(false);
+  const [escalateToThinking, setEscalateToThinking] = useState<boolean>(false);
+  // 0 means "auto" (2 parallel requests for the thinking model, 10 otherwise)
+  const [concurrency, setConcurrency] = useState<number>(0);
+  // 0 uses the default rows per offline request
+  const [offlineBatchSize, setOfflineBatchSize] = useState<number>(0);
+  // Per-model budgets; 0 keeps the built-in defaults
+  const [requestsPerMinute, setRequestsPerMinute] = useState<number>(0);
+  const [tokensPerMinute, setTokensPerMinute] = useState<number>(0);
+  // 0 means no budget cap
+  const [budgetUsd, setBudgetUsd] = useState<number>(0);
+  const [bypassCache, setBypassCache] = useState<boolean>(false);
+  const [verifyResults, setVerifyResults] = useState<boolean>(false);
+  const [runMode, setRunMode] = useState<RunMode>('overwrite');
+  const [executionMode, setExecutionMode] = useState<ExecutionMode>('per_task');
+  const [rowScopeType, setRowScopeType] = useState<RowScope['type']>('all');
+  const [scopeCount, setScopeCount] = useState<number>(20);
+  const [sampleSeed, setSampleSeed] = useState<number>(1);
+  const [stratifyColumn, setStratifyColumn] = useState<string>('');
+  // Ids of the rows captured from the sheet for the selection and filtered scopes
+  const [scopeRowIds, setScopeRowIds] = useState<string[]>([]);
+  // null sends every non-identity column as context
+  const [contextColumns, setContextColumns] = useState<string[] | null>(null);
+  // Knowledge base documents attached to the run
+  const [documentIds, setDocumentIds] = useState<string[]>([]);
+  // Confirmed groups of rows naming the same entity, researched once each
+  const [entityClusters, setEntityClusters] = useState<EntityCluster[]>([]);
+  const [isResolutionOpen, setIsResolutionOpen] = useState(false);
+  const [previewTaskId, setPreviewTaskId] = useState<string>('');
+  const [previewRow, setPreviewRow] = useState<number>(1);
   const [isAssistantOpen, setIsAssistantOpen] = useState(false);
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+  // Tasks whose source policy editor is expanded
+  const [policyTaskIds, setPolicyTaskIds] = useState<string[]>([]);
+  // Models and search support of the backend selected by LLM_PROVIDER
+  const provider = useMemo(() => describeProvider(), []);
+
+  // Load a restored run's settings into the form
+  useEffect(() => {
+    if (!restoredConfig) return;
+    setTargetColumns(restoredConfig.targetColumns);
+    setTasks(restoredConfig.tasks);
+    setUseThinkingModel(restoredConfig.useThinkingModel);
+    setEscalateToThinking(!!restoredConfig.escalateToThinking);
+    setConcurrency(restoredConfig.concurrency || 0);
+    setOfflineBatchSize(restoredConfig.offlineBatchSize || 0);
+    setRequestsPerMinute(restoredConfig.requestsPerMinute || 0);
+    setTokensPerMinute(restoredConfig.tokensPerMinute || 0);
+    setBudgetUsd(restoredConfig.budgetUsd || 0);
+    setBypassCache(!!restoredConfig.bypassCache);
+    setVerifyResults(!!restoredConfig.verifyResults);
+    setRunMode(restoredConfig.runMode || 'overwrite');
+    setExecutionMode(restoredConfig.executionMode || 'per_task');
+    setContextColumns(restoredConfig.contextColumns || null);
+    setDocumentIds(restoredConfig.documentIds || []);
+    setEntityClusters(restoredConfig.entityClusters || []);
+    const scope = restoredConfig.rowScope;
+    setRowScopeType(scope?.type || 'all');
+    if (scope?.type === 'first' || scope?.type === 'sample') setScopeCount(scope.count);
+    if (scope?.type === 'sample') {
+      setSampleSeed(scope.seed);
+      setStratifyColumn(scope.stratifyColumn || '');
+    }
+    if (scope?.type === 'selection' || scope?.type === 'filtered') setScopeRowIds(scope.rowIds);
+  }, [restoredConfig]);
 
   // Sync targetColumns when columns change (remove invalid selections and auto-select if empty)
   useEffect(() => {
@@ -113,10 +240,13 @@ export const AgentControlPanel: React.FC<AgentControlPanelProps> = ({
 
       return validColumns;
     });
+    setContextColumns(prev => prev && prev.filter(col => columns.includes(col)));
   }, [columns]);
 
   const toggleTargetColumn = (col: string) => {
     if (isProcessing) return;
+    // Clusters were resolved on the old identity columns
+    setEntityClusters([]);
     setTargetColumns(prev => {
       if (prev.includes(col)) {
         // Prevent deselecting the last one
@@ -128,6 +258,24 @@ export const AgentControlPanel: React.FC<AgentControlPanelProps> = ({
     });
   };
 
+  const toggleContextColumn = (col: string) => {
+    if (isProcessing) return;
+    setContextColumns(prev => {
+      if (!prev) return [col];
+      return prev.includes(col) ? prev.filter(c => c !== col) : [...prev, col];
+    });
+  };
+
+  const handleClearCache = async () => {
+    if (!window.confirm("Clear all cached research results?")) return;
+    try {
+      await clearResultCache();
+    } catch (error) {
+      console.error("Failed to clear cache", error);
+      alert("Failed to clear the result cache.");
+    }
+  };
+
   const handleAddTask = () => {
     setTasks(prev => [...prev, {
       id: Math.random().toString(36).substr(2, 9),
@@ -150,7 +298,8 @@ export const AgentControlPanel: React.FC<AgentControlPanelProps> = ({
         const newTask = {
           id: Math.random().toString(36).substr(2, 9),
           newColumnName: preset.col,
-          prompt: preset.prompt
+          prompt: preset.prompt,
+          outputType: preset.outputType
         };
 
         if (isLastEmpty) {
@@ -188,6 +337,7 @@ export const AgentControlPanel: React.FC<AgentControlPanelProps> = ({
       const validTargets = suggestedTargets.filter(t => columns.includes(t));
       if (validTargets.length > 0) {
         setTargetColumns(validTargets);
+        setEntityClusters([]);
       }
     }
   };
@@ -207,17 +357,171 @@ export const AgentControlPanel: React.FC<AgentControlPanelProps> = ({
     ));
   };
 
+  const updateTaskMode = (id: string, mode: TaskMode) => {
+    setTasks(prev => prev.map(t =>
+      t.id === id ? { ...t, mode } : t
+    ));
+  };
+
+  // Blank budget fields fall back to the defaults
+  const updateTaskAgentBudget = (id: string, changes: Partial<AgentBudget>) => {
+    setTasks(prev => prev.map(t => {
+      if (t.id !== id) return t;
+      const agentBudget = { ...t.agentBudget, ...changes };
+      return { ...t, agentBudget: agentBudget.maxSteps || agentBudget.maxSeconds ? agentBudget : undefined };
+    }));
+  };
+
+  const updateTaskOutputType = (id: string, outputType: OutputType) => {
+    setTasks(prev => prev.map(t =>
+      t.id === id ? { ...t, outputType, enumValues: outputType === 'enum' ? (t.enumValues || []) : undefined } : t
+    ));
+  };
+
+  // Allowed enum values are edited as a comma-separated list
+  const updateTaskEnumValues = (id: string, value: string) => {
+    setTasks(prev => prev.map(t =>
+      t.id === id ? { ...t, enumValues: value.split(',').map(v => v.trim()).filter(Boolean) } : t
+    ));
+  };
+
+  const updateTaskGrounding = (id: string, grounding: Grounding) => {
+    setTasks(prev => prev.map(t =>
+      t.id === id ? { ...t, grounding: grounding === 'web' ? undefined : grounding } : t
+    ));
+  };
+
+  // Domain lists are edited as comma-separated text; an empty policy is dropped
+  const updateTaskSourcePolicy = (id: string, changes: Partial<SourcePolicy>) => {
+    setTasks(prev => prev.map(t => {
+      if (t.id !== id) return t;
+      const sourcePolicy = { ...t.sourcePolicy, ...changes };
+      return { ...t, sourcePolicy: hasSourcePolicy(sourcePolicy) ? sourcePolicy : undefined };
+    }));
+  };
+
+  const togglePolicyEditor = (id: string) => {
+    setPolicyTaskIds(prev => prev.includes(id) ? prev.filter(taskId => taskId !== id) : [...prev, id]);
+  };
+
   const isProcessing = status === ProcessingStatus.PROCESSING;
   const isPaused = status === ProcessingStatus.PAUSED;
   const isRunning = isProcessing || isPaused;
-  const isValid = targetColumns.length > 0 && tasks.every(t => t.newColumnName && t.prompt);
+  // Prompts may reference sheet columns and the outputs of other tasks
+  const referenceableColumns = useMemo(
+    () => Array.from(new Set([...columns, ...tasks.map(t => t.newColumnName).filter(Boolean)])),
+    [columns, tasks]
+  );
+  const taskGraph = useMemo(() => buildTaskGraph(tasks), [tasks]);
+  const hasDependencies = Object.values(taskGraph.dependencies).some(deps => deps.length > 0);
+
+  // Documents deleted from the knowledge base drop out of the run
+  const attachedDocumentIds = useMemo(
+    () => documentIds.filter(id => documents.some(doc => doc.key === id)),
+    [documentIds, documents]
+  );
+
+  // Rows removed from the sheet or whose identity was edited drop out of their cluster
+  const activeClusters = useMemo(
+    () => pruneClusters(entityClusters, data, targetColumns),
+    [entityClusters, data, targetColumns]
+  );
+
+  const isValid = targetColumns.length > 0 && !taskGraph.cycle && tasks.every(t =>
+    t.newColumnName && t.prompt && (t.outputType !== 'enum' || (t.enumValues && t.enumValues.length > 0)) &&
+    findUnknownPlaceholders(t.prompt, referenceableColumns).length === 0 &&
+    (!usesDocuments(t) || attachedDocumentIds.length > 0)
+  );
+
+  const selectRowScope = (type: RowScope['type']) => {
+    setRowScopeType(type);
+    if ((type === 'selection' || type === 'filtered') && getSheetRowIndices) {
+      setScopeRowIds(getSheetRowIndices(type).filter(index => data[index]).map(index => getRowId(data[index])));
+    }
+  };
+
+  const rowScope = useMemo<RowScope>(() => {
+    switch (rowScopeType) {
+      case 'first':
+        return { type: 'first', count: scopeCount };
+      case 'sample':
+        return { type: 'sample', count: scopeCount, seed: sampleSeed, stratifyColumn: stratifyColumn || undefined };
+      case 'selection':
+      case 'filtered':
+        return { type: rowScopeType, rowIds: scopeRowIds };
+      default:
+        return { type: 'all' };
+    }
+  }, [rowScopeType, scopeCount, sampleSeed, stratifyColumn, scopeRowIds]);
+
+  const draftConfig = useMemo<ResearchConfig>(() => ({
+    targetColumns,
+    tasks,
+    useThinkingModel,
+    escalateToThinking: !useThinkingModel && escalateToThinking,
+    rowScope,
+    contextColumns: contextColumns ?? undefined,
+    runMode,
+    executionMode,
+    concurrency: concurrency || undefined,
+    offlineBatchSize: offlineBatchSize || undefined,
+    requestsPerMinute: requestsPerMinute || undefined,
+    tokensPerMinute: tokensPerMinute || undefined,
+    bypassCache,
+    verifyResults,
+    budgetUsd: budgetUsd || undefined,
+    documentIds: attachedDocumentIds.length > 0 ? attachedDocumentIds : undefined,
+    entityClusters: activeClusters.length > 0 ? activeClusters : undefined,
+  }), [targetColumns, tasks, useThinkingModel, escalateToThinking, rowScope, contextColumns, runMode, executionMode, concurrency, offlineBatchSize, requestsPerMinute, tokensPerMinute, bypassCache, verifyResults, budgetUsd, attachedDocumentIds, activeClusters]);
+
+  const [settledConfig, setSettledConfig] = useState(draftConfig);
+  useEffect(() => {
+    const timer = setTimeout(() => setSettledConfig(draftConfig), ESTIMATE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [draftConfig]);
+
+  const runEstimate = useMemo(
+    () => (estimateRun && isValid && !isRunning ? estimateRun(settledConfig) : null),
+    [estimateRun, settledConfig, isValid, isRunning]
+  );
+
+  // Preview how many jobs each run mode would schedule
+  const jobCounts = useMemo(
+    () => (countJobs && isValid && !isRunning ? countJobs(settledConfig) : null),
+    [countJobs, settledConfig, isValid, isRunning]
+  );
+
+  // The full prompt one cell would be sent, for checking placeholders and context before a run
+  const renderedPreview = useMemo(() => {
+    const task = tasks.find(t => t.id === previewTaskId && t.prompt) || tasks.find(t => t.prompt);
+    const row = data[previewRow - 1];
+    if (!task || !task.prompt || !row) return null;
+    const input = buildTaskInput(row, draftConfig, task);
+    if (isOfflineTask(task)) return buildOfflinePrompt(task.mode, input.entityName, input.prompt, input.context, task).trim();
+    if (usesDocuments(task)) {
+      const excerpts = retrieveExcerpts({ ...input, documentIds: attachedDocumentIds }, documentIndex);
+      return buildDocumentResearchPrompt(input.entityName, input.prompt, input.context, excerpts, task, {
+        useWebSearch: task.grounding === 'both',
+        sourcePolicy: task.sourcePolicy,
+      }).trim();
+    }
+    return (isAgentTask(task)
+      ? buildAgentPlanPrompt(input.entityName, input.prompt, input.context, 'Nothing searched yet.', getAgentBudget(task).maxSteps)
+      : buildResearchPrompt(input.entityName, input.prompt, input.context, task, task.sourcePolicy)).trim();
+  }, [tasks, previewTaskId, previewRow, data, draftConfig, attachedDocumentIds, documentIndex]);
 
   const handleSubmit = () => {
     if (isValid) {
-      onStart({ targetColumns, tasks, useThinkingModel, rowLimit: 0 });
+      onStart(draftConfig);
     }
   };
 
+  const handleApprovePreview = (config: ResearchConfig, previewResults: Record<string, CellResult>) => {
+    setIsPreviewOpen(false);
+    onStart(config, previewResults);
+  };
+
+
   return (
     <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm space-y-6 relative">
       <AiAssistantModal
@@ -227,6 +531,29 @@ export const AgentControlPanel: React.FC<AgentControlPanelProps> = ({
         availableColumns={columns}
       />
 
+      <EntityResolutionModal
+        isOpen={isResolutionOpen}
+        onClose={() => setIsResolutionOpen(false)}
+        data={data}
+        targetColumns={targetColumns}
+        clusters={activeClusters}
+        onApply={setEntityClusters}
+      />
+
+      {buildJobs && (
+        <PreviewModal
+          isOpen={isPreviewOpen}
+          onClose={() => setIsPreviewOpen(false)}
+          config={draftConfig}
+          data={data}
+          columns={referenceableColumns}
+          buildJobs={buildJobs}
+          documents={documentIndex}
+          onPromptChange={(taskId, prompt) => updateTask(taskId, 'prompt', prompt)}
+          onApprove={handleApprovePreview}
+        />
+      )}
+
       <div className="flex items-center justify-between border-b border-slate-100 pb-4">
         <div className="flex items-center gap-3">
           <div className="bg-brand-100 p-2 rounded-lg">
@@ -246,7 +573,7 @@ export const AgentControlPanel: React.FC<AgentControlPanelProps> = ({
            )}
            <div className="flex items-center gap-2 text-xs font-medium text-brand-700 bg-brand-50 px-3 py-1.5 rounded-full border border-brand-100">
              <Globe className="w-3.5 h-3.5" />
-             <span>Web Search Active</span>
+             <span>{provider.webSearch ? 'Web Search Active' : 'No Web Search'}</span>
            </div>
         </div>
       </div>
@@ -282,8 +609,74 @@ export const AgentControlPanel: React.FC<AgentControlPanelProps> = ({
 
           <p className="text-xs text-slate-400 mt-3">
             Select the columns that identify the subject (e.g. "Name", or a "LinkedIn URL").
-            <br/><span className="italic">Note: Unselected columns will be used as context.</span>
           </p>
+
+          <div className="flex items-center justify-between mt-3">
+            <span className="text-xs text-slate-500">
+              {activeClusters.length > 0
+                ? `${activeClusters.reduce((sum, cluster) => sum + cluster.rowIds.length, 0)} rows grouped into ${activeClusters.length} entities, researched once each`
+                : 'Every row is researched on its own'}
+            </span>
+            <button
+              type="button"
+              onClick={() => setIsResolutionOpen(true)}
+              disabled={isProcessing || targetColumns.length === 0 || data.length === 0}
+              className="flex items-center gap-1 text-xs font-medium text-brand-600 hover:text-brand-800 disabled:opacity-50"
+            >
+              <Combine className="w-3 h-3" />
+              Resolve entities
+            </button>
+          </div>
+
+          <label className="block text-xs font-semibold text-slate-600 uppercase tracking-wider mt-4 mb-3">
+            Context Columns
+          </label>
+          <div className="flex flex-wrap gap-2 max-h-40 overflow-y-auto custom-scrollbar">
+            <button
+              onClick={() => setContextColumns(contextColumns ? null : [])}
+              disabled={isProcessing}
+              className={`flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-full border transition-all ${
+                !contextColumns
+                  ? 'bg-brand-100 text-brand-700 border-brand-300 ring-1 ring-brand-200'
+                  : 'bg-white text-slate-500 border-slate-200 hover:border-slate-300 hover:bg-slate-50'
+              } ${isProcessing ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              {!contextColumns && <Check className="w-3 h-3" />}
+              All other columns
+            </button>
+            {contextColumns && columns.filter(col => !targetColumns.includes(col)).map((col) => {
+              const isSelected = contextColumns.includes(col);
+              return (
+                <button
+                  key={col}
+                  onClick={() => toggleContextColumn(col)}
+                  disabled={isProcessing}
+                  className={`flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-full border transition-all ${
+                    isSelected
+                      ? 'bg-brand-100 text-brand-700 border-brand-300 ring-1 ring-brand-200'
+                      : 'bg-white text-slate-500 border-slate-200 hover:border-slate-300 hover:bg-slate-50'
+                  } ${isProcessing ? 'opacity-50 cursor-not-allowed' : ''}`}
+                >
+                  {isSelected && <Check className="w-3 h-3" />}
+                  {col}
+                </button>
+              );
+            })}
+          </div>
+          <p className="text-xs text-slate-400 mt-3">
+            Columns sent with every prompt. Reference a single value with <code className="text-brand-600">{'{{Column Name}}'}</code> in a prompt instead.
+          </p>
+
+          {onAddDocument && onDeleteDocument && (
+            <KnowledgeBasePanel
+              documents={documents}
+              attachedIds={attachedDocumentIds}
+              onAttachedChange={setDocumentIds}
+              onAdd={onAddDocument}
+              onDelete={onDeleteDocument}
+              disabled={isProcessing}
+            />
+          )}
         </div>
 
         {/* Intelligence Settings */}
@@ -295,7 +688,7 @@ export const AgentControlPanel: React.FC<AgentControlPanelProps> = ({
                  Enable Deep Thinking
                </div>
                <p className="text-xs text-slate-400 mt-1">
-                 Uses Gemini 3 Pro reasoning. Slower, but better for complex logic.
+                 Uses {provider.thinkingModel} reasoning. Slower, but better for complex logic.
                </p>
              </div>
              <div className="relative">
@@ -311,6 +704,172 @@ export const AgentControlPanel: React.FC<AgentControlPanelProps> = ({
              </div>
            </label>
 
+           {!useThinkingModel && (
+             <label className="flex items-center justify-between cursor-pointer mb-4">
+               <div>
+                 <div className="text-sm font-semibold text-slate-700">Escalate Hard Cells</div>
+                 <p className="text-xs text-slate-400 mt-1">
+                   Re-runs answers that are N/A, invalid or low confidence on {provider.thinkingModel}.
+                 </p>
+               </div>
+               <input
+                 type="checkbox"
+                 checked={escalateToThinking}
+                 onChange={(e) => setEscalateToThinking(e.target.checked)}
+                 disabled={isProcessing}
+                 className="w-4 h-4 text-purple-600 rounded border-slate-300 focus:ring-purple-500"
+               />
+             </label>
+           )}
+
+           <label className="flex items-center justify-between cursor-pointer mb-4">
+             <div>
+               <div className="text-sm font-semibold text-slate-700">Combine Tasks per Row</div>
+               <p className="text-xs text-slate-400 mt-1">
+                 Asks for all of a row's columns in one request. Missing fields are researched on their own.
+               </p>
+             </div>
+             <input
+               type="checkbox"
+               checked={executionMode === 'combined'}
+               onChange={(e) => setExecutionMode(e.target.checked ? 'combined' : 'per_task')}
+               disabled={isProcessing}
+               className="w-4 h-4 text-brand-600 rounded border-slate-300 focus:ring-brand-500"
+             />
+           </label>
+
+           <div className="flex items-center justify-between mb-4">
+             <div>
+               <div className="text-sm font-semibold text-slate-700">Parallel Requests</div>
+               <p className="text-xs text-slate-400 mt-1">
+                 New requests start as soon as a slot frees up.
+               </p>
+             </div>
+             <input
+               type="number"
+               min={1}
+               max={50}
+               value={concurrency || ''}
+               onChange={(e) => setConcurrency(Math.max(0, parseInt(e.target.value, 10) || 0))}
+               disabled={isProcessing}
+               placeholder={useThinkingModel ? 'Auto (2)' : 'Auto (10)'}
+               className="w-24 px-2 py-1.5 text-sm rounded-lg border border-slate-300 focus:ring-2 focus:ring-brand-500 focus:border-brand-500 outline-none"
+             />
+           </div>
+
+           <div className="flex items-center justify-between mb-4">
+             <div>
+               <div className="text-sm font-semibold text-slate-700">Rows per Offline Request</div>
+               <p className="text-xs text-slate-400 mt-1">
+                 Classify, extract, transform and generate tasks answer this many rows per call.
+               </p>
+             </div>
+             <input
+               type="number"
+               min={1}
+               max={100}
+               value={offlineBatchSize || ''}
+               onChange={(e) => setOfflineBatchSize(Math.max(0, parseInt(e.target.value, 10) || 0))}
+               disabled={isProcessing}
+               placeholder={`Auto (${DEFAULT_OFFLINE_BATCH_SIZE})`}
+               className="w-24 px-2 py-1.5 text-sm rounded-lg border border-slate-300 focus:ring-2 focus:ring-brand-500 focus:border-brand-500 outline-none"
+             />
+           </div>
+
+           <div className="flex items-center justify-between mb-4">
+             <div>
+               <div className="text-sm font-semibold text-slate-700">Rate Limits</div>
+               <p className="text-xs text-slate-400 mt-1">
+                 Requests and tokens per minute for the selected model.
+               </p>
+             </div>
+             <div className="flex gap-2">
+               <input
+                 type="number"
+                 min={1}
+                 value={requestsPerMinute || ''}
+                 onChange={(e) => setRequestsPerMinute(Math.max(0, parseInt(e.target.value, 10) || 0))}
+                 disabled={isProcessing}
+                 placeholder="RPM"
+                 title="Requests per minute"
+                 className="w-20 px-2 py-1.5 text-sm rounded-lg border border-slate-300 focus:ring-2 focus:ring-brand-500 focus:border-brand-500 outline-none"
+               />
+               <input
+                 type="number"
+                 min={1}
+                 value={tokensPerMinute || ''}
+                 onChange={(e) => setTokensPerMinute(Math.max(0, parseInt(e.target.value, 10) || 0))}
+                 disabled={isProcessing}
+                 placeholder="TPM"
+                 title="Tokens per minute"
+                 className="w-24 px-2 py-1.5 text-sm rounded-lg border border-slate-300 focus:ring-2 focus:ring-brand-500 focus:border-brand-500 outline-none"
+               />
+             </div>
+           </div>
+
+           <div className="flex items-center justify-between mb-4">
+             <div>
+               <div className="text-sm font-semibold text-slate-700">Budget Cap</div>
+               <p className="text-xs text-slate-400 mt-1">
+                 Pauses the run once its estimated spend reaches this amount.
+               </p>
+             </div>
+             <div className="relative">
+               <span className="absolute left-2 top-1/2 -translate-y-1/2 text-sm text-slate-400">$</span>
+               <input
+                 type="number"
+                 min={0}
+                 step={0.5}
+                 value={budgetUsd || ''}
+                 onChange={(e) => setBudgetUsd(Math.max(0, parseFloat(e.target.value) || 0))}
+                 disabled={isProcessing}
+                 placeholder="None"
+                 className="w-24 pl-5 pr-2 py-1.5 text-sm rounded-lg border border-slate-300 focus:ring-2 focus:ring-brand-500 focus:border-brand-500 outline-none"
+               />
+             </div>
+           </div>
+
+           <label className="flex items-center justify-between cursor-pointer mb-4">
+             <div>
+               <div className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+                 <Database className={`w-4 h-4 ${bypassCache ? 'text-amber-600' : 'text-slate-400'}`} />
+                 Bypass Cache
+               </div>
+               <p className="text-xs text-slate-400 mt-1">
+                 Identical requests are reused for 7 days.{' '}
+                 <button type="button" onClick={handleClearCache} className="text-brand-600 hover:underline">
+                   Clear cache
+                 </button>
+               </p>
+             </div>
+             <input
+               type="checkbox"
+               checked={bypassCache}
+               onChange={(e) => setBypassCache(e.target.checked)}
+               disabled={isProcessing}
+               className="w-4 h-4 text-brand-600 rounded border-slate-300 focus:ring-brand-500"
+             />
+           </label>
+
+           <label className="flex items-center justify-between cursor-pointer mb-4">
+             <div>
+               <div className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+                 <ShieldCheck className={`w-4 h-4 ${verifyResults ? 'text-emerald-600' : 'text-slate-400'}`} />
+                 Verify Answers
+               </div>
+               <p className="text-xs text-slate-400 mt-1">
+                 A second call checks each answer against its sources. Doubles request count.
+               </p>
+             </div>
+             <input
+               type="checkbox"
+               checked={verifyResults}
+               onChange={(e) => setVerifyResults(e.target.checked)}
+               disabled={isProcessing}
+               className="w-4 h-4 text-brand-600 rounded border-slate-300 focus:ring-brand-500"
+             />
+           </label>
+
            <div className="pt-4 border-t border-slate-200">
              <div className="text-sm font-semibold text-slate-700 mb-2 flex items-center gap-2">
                 <Sparkles className="w-4 h-4 text-purple-600" />
@@ -369,16 +928,157 @@ export const AgentControlPanel: React.FC<AgentControlPanelProps> = ({
                   className="w-full px-3 py-2 text-sm rounded-lg border border-slate-300 focus:ring-2 focus:ring-brand-500 focus:border-brand-500 outline-none"
                 />
               </div>
+              <div className="w-32 space-y-1">
+                {index === 0 && <label className="text-[10px] uppercase text-slate-400 font-semibold">Mode</label>}
+                <select
+                  value={task.mode || 'research'}
+                  onChange={(e) => updateTaskMode(task.id, e.target.value as TaskMode)}
+                  disabled={isProcessing}
+                  title={TASK_MODES.find(m => m.value === (task.mode || 'research'))?.description}
+                  className="w-full px-2 py-2 text-sm rounded-lg border border-slate-300 bg-white focus:ring-2 focus:ring-brand-500 focus:border-brand-500 outline-none"
+                >
+                  {TASK_MODES.map(m => (
+                    <option key={m.value} value={m.value}>{m.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="w-32 space-y-1">
+                {index === 0 && <label className="text-[10px] uppercase text-slate-400 font-semibold">Type</label>}
+                <select
+                  value={task.outputType || 'text'}
+                  onChange={(e) => updateTaskOutputType(task.id, e.target.value as OutputType)}
+                  disabled={isProcessing}
+                  className="w-full px-2 py-2 text-sm rounded-lg border border-slate-300 bg-white focus:ring-2 focus:ring-brand-500 focus:border-brand-500 outline-none"
+                >
+                  {OUTPUT_TYPES.map(t => (
+                    <option key={t.value} value={t.value}>{t.label}</option>
+                  ))}
+                </select>
+              </div>
               <div className="flex-[2] space-y-1">
                 {index === 0 && <label className="text-[10px] uppercase text-slate-400 font-semibold">Prompt / Question</label>}
-                <input
-                  type="text"
+                <PromptInput
                   value={task.prompt}
-                  onChange={(e) => updateTask(task.id, 'prompt', e.target.value)}
+                  columns={referenceableColumns.filter(col => col !== task.newColumnName)}
+                  onChange={(value) => updateTask(task.id, 'prompt', value)}
                   disabled={isProcessing}
-                  placeholder="e.g. Who is the current CEO?"
+                  placeholder="e.g. Who is the current CEO of {{Company}}?"
                   className="w-full px-3 py-2 text-sm rounded-lg border border-slate-300 focus:ring-2 focus:ring-brand-500 focus:border-brand-500 outline-none"
                 />
+                {findUnknownPlaceholders(task.prompt, referenceableColumns).map(name => (
+                  <p key={name} className="flex items-center gap-1 text-xs text-red-600">
+                    <AlertCircle className="w-3 h-3" />
+                    No column named "{name}"
+                  </p>
+                ))}
+                {task.outputType === 'enum' && (
+                  <input
+                    type="text"
+                    defaultValue={(task.enumValues || []).join(', ')}
+                    onBlur={(e) => updateTaskEnumValues(task.id, e.target.value)}
+                    disabled={isProcessing}
+                    placeholder="Allowed values, comma-separated (e.g. B2B, B2C, Both)"
+                    className="w-full px-3 py-1.5 text-xs rounded-lg border border-slate-200 bg-slate-50 focus:ring-2 focus:ring-brand-500 focus:border-brand-500 outline-none"
+                  />
+                )}
+                {isAgentTask(task) && (
+                  <div className="flex items-center gap-3 text-xs text-slate-500">
+                    <label className="flex items-center gap-1.5">
+                      Up to
+                      <input
+                        type="number"
+                        min={1}
+                        max={20}
+                        value={task.agentBudget?.maxSteps ?? ''}
+                        onChange={(e) => updateTaskAgentBudget(task.id, { maxSteps: Math.min(20, Math.max(0, Number(e.target.value) || 0)) || undefined })}
+                        disabled={isProcessing}
+                        placeholder={String(getAgentBudget(task).maxSteps)}
+                        className="w-14 px-2 py-1 rounded-md border border-slate-200 bg-slate-50 focus:ring-2 focus:ring-brand-500 outline-none"
+                      />
+                      searches
+                    </label>
+                    <label className="flex items-center gap-1.5">
+                      within
+                      <input
+                        type="number"
+                        min={10}
+                        value={task.agentBudget?.maxSeconds ?? ''}
+                        onChange={(e) => updateTaskAgentBudget(task.id, { maxSeconds: Math.max(0, Number(e.target.value) || 0) || undefined })}
+                        disabled={isProcessing}
+                        placeholder={String(getAgentBudget(task).maxSeconds)}
+                        className="w-16 px-2 py-1 rounded-md border border-slate-200 bg-slate-50 focus:ring-2 focus:ring-brand-500 outline-none"
+                      />
+                      seconds per cell
+                    </label>
+                  </div>
+                )}
+                {!isOfflineTask(task) && (
+                  <div className="flex items-center gap-3">
+                    {!isAgentTask(task) && (onAddDocument || task.grounding) && (
+                      <label className="flex items-center gap-1 text-xs text-slate-400">
+                        <BookOpen className="w-3 h-3" />
+                        Ground on
+                        <select
+                          value={task.grounding || 'web'}
+                          onChange={(e) => updateTaskGrounding(task.id, e.target.value as Grounding)}
+                          disabled={isProcessing}
+                          className={`text-xs border-none bg-transparent p-0 pr-5 focus:ring-0 cursor-pointer ${usesDocuments(task) ? 'text-brand-600' : 'text-slate-500'}`}
+                        >
+                          {GROUNDINGS.map(g => (
+                            <option key={g.value} value={g.value}>{g.label}</option>
+                          ))}
+                        </select>
+                      </label>
+                    )}
+                    {(task.grounding !== 'documents' || isAgentTask(task)) && (
+                      <button
+                        type="button"
+                        onClick={() => togglePolicyEditor(task.id)}
+                        className={`flex items-center gap-1 text-xs ${task.sourcePolicy ? 'text-brand-600' : 'text-slate-400'} hover:text-brand-700`}
+                      >
+                        <Globe className="w-3 h-3" />
+                        {task.sourcePolicy ? `Sources: ${summarizeSourcePolicy(task.sourcePolicy)}` : 'Source policy'}
+                      </button>
+                    )}
+                  </div>
+                )}
+                {usesDocuments(task) && attachedDocumentIds.length === 0 && (
+                  <p className="flex items-center gap-1 text-xs text-red-600">
+                    <AlertCircle className="w-3 h-3" />
+                    Attach documents in the Knowledge Base to ground this task on them
+                  </p>
+                )}
+                {!isOfflineTask(task) && (task.grounding !== 'documents' || isAgentTask(task)) && policyTaskIds.includes(task.id) && (
+                  <div className="space-y-1.5 p-2 rounded-lg border border-slate-200 bg-slate-50">
+                    {([
+                      { field: 'allowedDomains', placeholder: 'Only cite these sites (e.g. sec.gov, companieshouse.gov.uk)' },
+                      { field: 'blockedDomains', placeholder: 'Never cite these sites' },
+                      { field: 'preferredDomains', placeholder: 'Prefer these sites' },
+                    ] as const).map(({ field, placeholder }) => (
+                      <input
+                        key={field}
+                        type="text"
+                        defaultValue={(task.sourcePolicy?.[field] || []).join(', ')}
+                        onBlur={(e) => updateTaskSourcePolicy(task.id, { [field]: parseDomainList(e.target.value) })}
+                        disabled={isProcessing}
+                        placeholder={placeholder}
+                        className="w-full px-3 py-1.5 text-xs rounded-lg border border-slate-200 bg-white focus:ring-2 focus:ring-brand-500 focus:border-brand-500 outline-none"
+                      />
+                    ))}
+                    <label className="flex items-center justify-between gap-2 text-xs text-slate-500">
+                      When every source breaks the policy
+                      <select
+                        value={task.sourcePolicy?.onViolation || 'flag'}
+                        onChange={(e) => updateTaskSourcePolicy(task.id, { onViolation: e.target.value as SourcePolicy['onViolation'] })}
+                        disabled={isProcessing}
+                        className="px-2 py-1 text-xs rounded-md border border-slate-300 bg-white focus:ring-2 focus:ring-brand-500 outline-none"
+                      >
+                        <option value="flag">Flag the answer</option>
+                        <option value="reject">Reject the answer</option>
+                      </select>
+                    </label>
+                  </div>
+                )}
               </div>
               <div className="space-y-1 pt-0">
                  {index === 0 && <label className="block text-[10px] uppercase text-transparent select-none">X</label>}
@@ -395,6 +1095,31 @@ export const AgentControlPanel: React.FC<AgentControlPanelProps> = ({
           ))}
         </div>
 
+        {/* Execution order of dependent tasks */}
+        {taskGraph.cycle ? (
+          <div className="flex items-center gap-2 text-xs text-red-700 bg-red-50 px-3 py-2 rounded-md border border-red-100">
+            <AlertCircle className="w-3.5 h-3.5 flex-shrink-0" />
+            <span>Tasks reference each other in a cycle: {describeCycle(taskGraph.cycle, tasks)}</span>
+          </div>
+        ) : hasDependencies && (
+          <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500 bg-slate-50 px-3 py-2 rounded-md border border-slate-200">
+            <span className="font-semibold uppercase tracking-wider text-slate-400">Order</span>
+            {taskGraph.steps.map((step, index) => (
+              <React.Fragment key={index}>
+                {index > 0 && <span className="text-slate-300">→</span>}
+                <span className="flex items-center gap-1">
+                  <span className="text-slate-400">{index + 1}.</span>
+                  {step.map(id => (
+                    <span key={id} className="px-2 py-0.5 rounded-full bg-white border border-slate-200 text-slate-700">
+                      {tasks.find(t => t.id === id)?.newColumnName || 'Untitled'}
+                    </span>
+                  ))}
+                </span>
+              </React.Fragment>
+            ))}
+          </div>
+        )}
+
         {!isProcessing && (
           <button
             onClick={handleAddTask}
@@ -406,6 +1131,196 @@ export const AgentControlPanel: React.FC<AgentControlPanelProps> = ({
         )}
       </div>
 
+      {/* Rendered Prompt Preview */}
+      {!isRunning && data.length > 0 && tasks.some(t => t.prompt) && (
+        <details className="bg-slate-50 rounded-lg border border-slate-200">
+          <summary className="px-4 py-2 text-xs font-semibold text-slate-500 uppercase tracking-wider cursor-pointer select-none">
+            Preview Prompt
+          </summary>
+          <div className="px-4 pb-4 space-y-2">
+            <div className="flex flex-wrap items-center gap-3 text-xs text-slate-500">
+              <label className="flex items-center gap-2">
+                Task
+                <select
+                  value={previewTaskId}
+                  onChange={(e) => setPreviewTaskId(e.target.value)}
+                  className="px-2 py-1 rounded-md border border-slate-300 bg-white focus:ring-2 focus:ring-brand-500 outline-none"
+                >
+                  {tasks.filter(t => t.prompt).map(t => (
+                    <option key={t.id} value={t.id}>{t.newColumnName || 'Untitled'}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                Row
+                <input
+                  type="number"
+                  min={1}
+                  max={data.length}
+                  value={previewRow}
+                  onChange={(e) => setPreviewRow(Math.min(data.length, Math.max(1, Number(e.target.value) || 1)))}
+                  className="w-20 px-2 py-1 rounded-md border border-slate-300 focus:ring-2 focus:ring-brand-500 outline-none"
+                />
+              </label>
+            </div>
+            {renderedPreview && (
+              <pre className="text-xs text-slate-700 bg-white border border-slate-200 rounded-md p-3 whitespace-pre-wrap max-h-64 overflow-y-auto custom-scrollbar">
+                {renderedPreview}
+              </pre>
+            )}
+          </div>
+        </details>
+      )}
+
+      {/* Row Scope */}
+      {!isRunning && (
+        <div className="space-y-2">
+          <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider">
+            Rows
+          </label>
+          <div className="flex flex-wrap gap-2">
+            {ROW_SCOPE_TYPES.map(scope => {
+              const isSelected = rowScopeType === scope.value;
+              return (
+                <button
+                  key={scope.value}
+                  onClick={() => selectRowScope(scope.value)}
+                  className={`px-3 py-1.5 text-xs font-medium rounded-full border transition-all ${
+                    isSelected
+                      ? 'bg-brand-100 text-brand-700 border-brand-300 ring-1 ring-brand-200'
+                      : 'bg-white text-slate-500 border-slate-200 hover:border-slate-300 hover:bg-slate-50'
+                  }`}
+                >
+                  {scope.label}
+                </button>
+              );
+            })}
+          </div>
+          {(rowScopeType === 'first' || rowScopeType === 'sample') && (
+            <div className="flex flex-wrap items-center gap-3 text-xs text-slate-500">
+              <label className="flex items-center gap-2">
+                Rows
+                <input
+                  type="number"
+                  min={1}
+                  value={scopeCount}
+                  onChange={(e) => setScopeCount(Math.max(1, Number(e.target.value) || 1))}
+                  className="w-20 px-2 py-1 rounded-md border border-slate-300 focus:ring-2 focus:ring-brand-500 outline-none"
+                />
+              </label>
+              {rowScopeType === 'sample' && (
+                <>
+                  <label className="flex items-center gap-2">
+                    Seed
+                    <input
+                      type="number"
+                      value={sampleSeed}
+                      onChange={(e) => setSampleSeed(Number(e.target.value) || 0)}
+                      className="w-20 px-2 py-1 rounded-md border border-slate-300 focus:ring-2 focus:ring-brand-500 outline-none"
+                    />
+                  </label>
+                  <label className="flex items-center gap-2">
+                    Stratify by
+                    <select
+                      value={stratifyColumn}
+                      onChange={(e) => setStratifyColumn(e.target.value)}
+                      className="px-2 py-1 rounded-md border border-slate-300 bg-white focus:ring-2 focus:ring-brand-500 outline-none"
+                    >
+                      <option value="">None</option>
+                      {columns.map(col => (
+                        <option key={col} value={col}>{col}</option>
+                      ))}
+                    </select>
+                  </label>
+                </>
+              )}
+            </div>
+          )}
+          {(rowScopeType === 'selection' || rowScopeType === 'filtered') && (
+            <div className="flex items-center gap-2 text-xs text-slate-500">
+              {scopeRowIds.length === 0 && (
+                <span className="text-amber-600">
+                  {rowScopeType === 'selection' ? 'Select rows in the sheet first.' : 'No rows are visible under the current filter.'}
+                </span>
+              )}
+              <button
+                onClick={() => selectRowScope(rowScopeType)}
+                className="text-brand-600 hover:text-brand-800 font-medium"
+              >
+                Update from sheet
+              </button>
+            </div>
+          )}
+          <p className="text-xs text-slate-400">Runs on {describeRowScope(rowScope, data.length)}.</p>
+        </div>
+      )}
+
+      {/* Run Mode */}
+      {!isRunning && (
+        <div className="space-y-2">
+          <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider">
+            Run Mode
+          </label>
+          <div className="flex flex-wrap gap-2">
+            {RUN_MODES.map(mode => {
+              const isSelected = runMode === mode.value;
+              return (
+                <button
+                  key={mode.value}
+                  onClick={() => setRunMode(mode.value)}
+                  className={`flex items-center gap-2 px-3 py-1.5 text-xs font-medium rounded-full border transition-all ${
+                    isSelected
+                      ? 'bg-brand-100 text-brand-700 border-brand-300 ring-1 ring-brand-200'
+                      : 'bg-white text-slate-500 border-slate-200 hover:border-slate-300 hover:bg-slate-50'
+                  }`}
+                >
+                  {mode.label}
+                  {jobCounts && (
+                    <span className={`px-1.5 py-0.5 rounded ${isSelected ? 'bg-brand-200/60' : 'bg-slate-100'}`}>
+                      {jobCounts[mode.value]}
+                    </span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+          {jobCounts && (
+            <p className="text-xs text-slate-400">
+              {jobCounts[runMode]} cell{jobCounts[runMode] !== 1 ? 's' : ''} will be researched.
+              {runEstimate && runEstimate.jobs > 0 && (
+                <>
+                  {runEstimate.requests < runEstimate.jobs && ` Combined into ${runEstimate.requests} request${runEstimate.requests !== 1 ? 's' : ''}.`}
+                  {' '}Estimated {Math.round(runEstimate.usage.totalTokens).toLocaleString()} tokens, about {formatCost(runEstimate.cost)}
+                  {runEstimate.fromHistory ? ' based on recent answers' : ' based on typical answer sizes'}
+                  {budgetUsd > 0 && runEstimate.cost > budgetUsd && (
+                    <span className="text-amber-600"> (over the budget cap)</span>
+                  )}.
+                </>
+              )}
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Last run summary */}
+      {status === ProcessingStatus.COMPLETED && runSummary && (
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-slate-600 bg-slate-50 px-4 py-3 rounded-lg border border-slate-200">
+          <span className="font-semibold text-slate-700">Run complete</span>
+          <span>{runSummary.cells} cells ({runSummary.cachedCells} from cache)</span>
+          {runSummary.escalated > 0 && (
+            <span className="text-purple-700">
+              {runSummary.escalated} escalated to the thinking model (
+              {Object.entries(runSummary.escalationReasons)
+                .filter(([, count]) => count > 0)
+                .map(([reason, count]) => `${count} ${ESCALATION_REASON_LABELS[reason as keyof typeof ESCALATION_REASON_LABELS]}`)
+                .join(', ')}
+              ) for {formatCost(runSummary.escalationCost)}
+            </span>
+          )}
+          <span>Estimated spend {formatCost(runSummary.totalCost)}</span>
+        </div>
+      )}
+
       <div className="flex items-center justify-between pt-4 border-t border-slate-100">
         {isRunning ? (
            <div className="flex-1 mr-6">
@@ -415,6 +1330,9 @@ export const AgentControlPanel: React.FC<AgentControlPanelProps> = ({
                  {total > 0 && total < 1000000 && (
                     <span className="text-slate-400 font-normal ml-2">(Target: {total})</span>
                  )}
+                 <span className="text-slate-400 font-normal ml-2">
+                   Spent {formatCost(spend)}{budgetUsd > 0 && ` of ${formatCost(budgetUsd)}`}
+                 </span>
                </span>
                <span>{Math.min(100, Math.round((progress / total) * 100))}%</span>
              </div>
@@ -424,10 +1342,16 @@ export const AgentControlPanel: React.FC<AgentControlPanelProps> = ({
                  style={{ width: `${Math.min(100, (progress / total) * 100)}%` }}
                ></div>
              </div>
+             {isPaused && statusMessage && (
+               <div className="flex items-center gap-2 mt-2 text-xs text-red-700 bg-red-50 px-3 py-2 rounded-md border border-red-100">
+                 <AlertCircle className="w-3.5 h-3.5 flex-shrink-0" />
+                 <span>{statusMessage}</span>
+               </div>
+             )}
              <p className="text-xs text-slate-400 mt-2">
                {isPaused
-                 ? `Paused at ${progress} of ${total} items. Click Resume to continue.`
-                 : `Researched ${progress} of ${total} items. Please wait, do not close tab.`
+                 ? `Paused at ${progress} of ${total} cells. Click Resume to continue.`
+                 : `Researched ${progress} of ${total} cells. Please wait, do not close tab.`
                }
              </p>
            </div>
@@ -435,7 +1359,9 @@ export const AgentControlPanel: React.FC<AgentControlPanelProps> = ({
           <div className="flex items-center gap-4">
             <div className="flex items-center gap-2 text-amber-600 bg-amber-50 px-3 py-2 rounded-md border border-amber-100">
               <AlertCircle className="w-4 h-4" />
-              <span className="text-xs font-medium">Uses Gemini with Google Search.</span>
+              <span className="text-xs font-medium">
+                Uses {useThinkingModel ? provider.thinkingModel : provider.fastModel} {provider.webSearch ? 'with Google Search' : 'without web search'}.
+              </span>
             </div>
           </div>
         )}
@@ -508,6 +1434,18 @@ export const AgentControlPanel: React.FC<AgentControlPanelProps> = ({
             </button>
           )}
 
+          {/* Preview button - runs the tasks on a few rows without touching the data */}
+          {!isRunning && buildJobs && (
+            <button
+              onClick={() => setIsPreviewOpen(true)}
+              disabled={!isValid}
+              className="flex items-center gap-2 px-4 py-2.5 rounded-lg font-medium border border-brand-300 text-brand-700 bg-white hover:bg-brand-50 transition-all disabled:border-slate-200 disabled:text-slate-400 disabled:cursor-not-allowed"
+            >
+              <Eye className="w-4 h-4" />
+              Preview
+            </button>
+          )}
+
           {/* Start button - only when not running */}
           {!isRunning && (
             <button
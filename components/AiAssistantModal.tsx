@@ -1,7 +1,7 @@
 
 import React, { useState } from 'react';
 import { Sparkles, X, Loader2, Bot, BrainCircuit } from 'lucide-react';
-import { generateResearchConfig } from '../services/geminiService';
+import { describeProvider, generateResearchConfig } from '../services/geminiService';
 import { ResearchTask } from '../types';
 
 interface AiAssistantModalProps {
@@ -95,7 +95,7 @@ export const AiAssistantModal: React.FC<AiAssistantModalProps> = ({ isOpen, onCl
             
             <div className="flex justify-end gap-3 items-center pt-2 border-t border-slate-100">
                <div className="mr-auto text-xs text-slate-400 italic">
-                  Powered by Gemini
+                  Powered by {useProModel ? describeProvider().thinkingModel : describeProvider().fastModel}
                </div>
               <button 
                 type="button" 
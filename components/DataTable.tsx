@@ -1,12 +1,13 @@
 import React, { useState, useEffect } from 'react';
-import { CsvRow, Source } from '../types';
+import { CellProvenance, CsvRow } from '../types';
 import { ExternalLink, Info, ChevronLeft, ChevronRight, Edit2 } from 'lucide-react';
+import { getCellKey, getRowId } from '../utils/rowId';
 
 interface DataTableProps {
   data: CsvRow[];
   columns: string[];
   highlightColumns?: string[];
-  cellSources?: Record<string, Source[]>;
+  cellProvenance?: Record<string, CellProvenance>;
   onCellUpdate?: (rowIndex: number, column: string, value: string) => void;
 }
 
@@ -14,7 +15,7 @@ export const DataTable: React.FC<DataTableProps> = ({
   data,
   columns,
   highlightColumns = [],
-  cellSources = {},
+  cellProvenance = {},
   onCellUpdate
 }) => {
   const [page, setPage] = useState(1);
@@ -87,7 +88,7 @@ export const DataTable: React.FC<DataTableProps> = ({
                                     const cellValue = row[col] || '';
                                     const isEditing = editingCell?.rowIndex === actualIndex && editingCell?.col === col;
                                     const isHighlighted = highlightColumns.includes(col);
-                                    const sources = cellSources[`${actualIndex}-${col}`];
+                                    const sources = cellProvenance[getCellKey(getRowId(row), col)]?.sources;
                                     
                                     return (
                                         <td 
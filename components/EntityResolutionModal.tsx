@@ -0,0 +1,198 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Combine, Check } from 'lucide-react';
+import { CsvRow, EntityCluster } from '../types';
+import { ClusterSuggestion, DEFAULT_SIMILARITY_THRESHOLD, suggestEntityClusters } from '../utils/entityResolution';
+import { indexRowIds } from '../utils/rowId';
+
+interface EntityResolutionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  data: CsvRow[];
+  targetColumns: string[];
+  // Clusters confirmed earlier, pre-selected when the modal opens
+  clusters: EntityCluster[];
+  onApply: (clusters: EntityCluster[]) => void;
+}
+
+// Clusters listed at once; large lists rarely need more to be reviewed by hand
+const MAX_LISTED_CLUSTERS = 200;
+
+export const EntityResolutionModal: React.FC<EntityResolutionModalProps> = ({
+  isOpen,
+  onClose,
+  data,
+  targetColumns,
+  clusters,
+  onApply,
+}) => {
+  const [threshold, setThreshold] = useState(DEFAULT_SIMILARITY_THRESHOLD);
+  // Keys of the accepted clusters, and rows taken out of their suggested cluster
+  const [accepted, setAccepted] = useState<Set<string>>(new Set());
+  const [excludedRows, setExcludedRows] = useState<Set<string>>(new Set());
+
+  const suggestions = useMemo(
+    () => (isOpen ? suggestEntityClusters(data, targetColumns, threshold) : []),
+    [isOpen, data, targetColumns, threshold]
+  );
+  const rowPositions = useMemo(() => indexRowIds(data), [data]);
+
+  // Start from the confirmed clusters, or accept every exact match when there are none
+  useEffect(() => {
+    if (!isOpen) return;
+    const suggested = suggestEntityClusters(data, targetColumns, threshold);
+    if (clusters.length > 0) {
+      // Suggestions holding confirmed rows are accepted again, minus the members taken out of them;
+      // rows of other suggestions stay available
+      const confirmedRows = new Set(clusters.flatMap(cluster => cluster.rowIds));
+      const restored = suggested.filter(suggestion => suggestion.rowIds.some(rowId => confirmedRows.has(rowId)));
+      setAccepted(new Set(restored.map(suggestion => suggestion.key)));
+      setExcludedRows(new Set(restored.flatMap(suggestion => suggestion.rowIds.filter(rowId => !confirmedRows.has(rowId)))));
+    } else {
+      setAccepted(new Set(suggested.filter(suggestion => suggestion.exact).map(suggestion => suggestion.key)));
+      setExcludedRows(new Set());
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const getMembers = (suggestion: ClusterSuggestion) => suggestion.rowIds.filter(rowId => !excludedRows.has(rowId));
+  const selected = suggestions
+    .filter(suggestion => accepted.has(suggestion.key))
+    .map(suggestion => {
+      const rowIds = getMembers(suggestion);
+      return { key: suggestion.key, rowIds, rowKeys: Object.fromEntries(rowIds.map(rowId => [rowId, suggestion.rowKeys[rowId]])) };
+    })
+    .filter(cluster => cluster.rowIds.length > 1);
+  const sharedRows = selected.reduce((sum, cluster) => sum + cluster.rowIds.length, 0);
+
+  const toggleCluster = (key: string) => setAccepted(prev => {
+    const next = new Set(prev);
+    if (next.has(key)) next.delete(key); else next.add(key);
+    return next;
+  });
+  const toggleRow = (rowId: string) => setExcludedRows(prev => {
+    const next = new Set(prev);
+    if (next.has(rowId)) next.delete(rowId); else next.add(rowId);
+    return next;
+  });
+
+  const describeRow = (rowId: string) => {
+    const row = data[rowPositions.get(rowId)!];
+    return targetColumns.map(col => row[col]).filter(value => value && value.trim()).join(' · ');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[100] flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="bg-gradient-to-r from-brand-600 to-brand-500 p-4 flex items-center justify-between text-white">
+          <div className="flex items-center gap-2">
+            <Combine className="w-6 h-6" />
+            <h3 className="font-bold text-lg">Resolve Entities</h3>
+          </div>
+          <button onClick={onClose} className="hover:bg-white/20 p-1 rounded-full transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-slate-200 flex items-center gap-4">
+          <p className="flex-1 text-xs text-slate-500">
+            Rows whose identity columns name the same entity once casing, punctuation, legal suffixes and URLs are
+            normalized. Each accepted cluster is researched once and the answer is copied to all of its rows;
+            rows whose prompt placeholders or chosen context columns differ are still researched on their own.
+          </p>
+          <label className="flex items-center gap-2 text-xs text-slate-500 whitespace-nowrap">
+            Similarity
+            <input
+              type="range"
+              min={0.6}
+              max={1}
+              step={0.05}
+              value={threshold}
+              onChange={(e) => setThreshold(Number(e.target.value))}
+              className="w-24 accent-brand-600"
+            />
+            <span className="w-8 font-mono">{threshold === 1 ? 'exact' : threshold.toFixed(2)}</span>
+          </label>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-2">
+          {suggestions.slice(0, MAX_LISTED_CLUSTERS).map(suggestion => {
+            const isAccepted = accepted.has(suggestion.key);
+            return (
+              <div
+                key={suggestion.key}
+                className={`rounded-lg border p-3 ${isAccepted ? 'bg-brand-50 border-brand-200' : 'bg-white border-slate-200'}`}
+              >
+                <div className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => toggleCluster(suggestion.key)}
+                    title={isAccepted ? 'Research these rows separately' : 'Research these rows once'}
+                    className={`w-4 h-4 flex-shrink-0 flex items-center justify-center rounded border ${
+                      isAccepted ? 'bg-brand-600 border-brand-600 text-white' : 'bg-white border-slate-300'
+                    }`}
+                  >
+                    {isAccepted && <Check className="w-3 h-3" />}
+                  </button>
+                  <span className="text-sm font-semibold text-slate-700">{suggestion.key}</span>
+                  <span className={`text-[10px] px-1.5 py-0.5 rounded-full ${suggestion.exact ? 'bg-emerald-100 text-emerald-700' : 'bg-amber-100 text-amber-700'}`}>
+                    {suggestion.exact ? 'exact' : 'similar'}
+                  </span>
+                  <span className="ml-auto text-xs text-slate-400">{getMembers(suggestion).length} rows</span>
+                </div>
+                <ul className="mt-2 ml-6 space-y-0.5">
+                  {suggestion.rowIds.map(rowId => {
+                    const isExcluded = excludedRows.has(rowId);
+                    return (
+                      <li key={rowId} className="flex items-center gap-2 text-xs">
+                        <span className="w-10 text-slate-400">#{rowPositions.get(rowId)! + 1}</span>
+                        <span className={`flex-1 truncate ${isExcluded ? 'line-through text-slate-400' : 'text-slate-700'}`}>
+                          {describeRow(rowId)}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => toggleRow(rowId)}
+                          className="text-slate-400 hover:text-brand-600"
+                        >
+                          {isExcluded ? 'Add back' : 'Remove'}
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            );
+          })}
+          {suggestions.length > MAX_LISTED_CLUSTERS && (
+            <p className="text-xs text-slate-400 text-center">
+              Showing the {MAX_LISTED_CLUSTERS} largest of {suggestions.length} clusters.
+            </p>
+          )}
+          {suggestions.length === 0 && (
+            <p className="p-6 text-sm text-slate-500 text-center">No rows name the same entity at this similarity.</p>
+          )}
+        </div>
+
+        <div className="flex items-center gap-3 p-4 border-t border-slate-200">
+          <span className="text-xs text-slate-500">
+            {selected.length} cluster{selected.length !== 1 ? 's' : ''} · {sharedRows} rows researched as {selected.length}
+          </span>
+          <div className="ml-auto flex gap-3">
+            <button
+              onClick={() => { onApply([]); onClose(); }}
+              className="px-4 py-2 text-sm font-medium text-slate-600 bg-white border border-slate-300 rounded-lg hover:bg-slate-50"
+            >
+              Clear All
+            </button>
+            <button
+              onClick={() => { onApply(selected); onClose(); }}
+              className="px-5 py-2 text-sm font-medium text-white bg-brand-600 rounded-lg hover:bg-brand-700"
+            >
+              Apply Clusters
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
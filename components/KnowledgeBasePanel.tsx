@@ -0,0 +1,134 @@
+import React, { useRef, useState } from 'react';
+import { BookOpen, Check, FileText, Loader2, Trash2, Upload } from 'lucide-react';
+import { KnowledgeDocument } from '../types';
+import { DOCUMENT_FILE_ACCEPT } from '../services/knowledgeBase';
+
+interface KnowledgeBasePanelProps {
+  documents: KnowledgeDocument[];
+  // Documents attached to the run being configured
+  attachedIds: string[];
+  onAttachedChange: (ids: string[]) => void;
+  onAdd: (file: File) => Promise<KnowledgeDocument>;
+  onDelete: (key: string) => void;
+  disabled?: boolean;
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+export const KnowledgeBasePanel: React.FC<KnowledgeBasePanelProps> = ({
+  documents,
+  attachedIds,
+  onAttachedChange,
+  onAdd,
+  onDelete,
+  disabled = false,
+}) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // New documents are attached to the run straight away
+  const handleFiles = async (files: File[]) => {
+    setIsAdding(true);
+    setErrors([]);
+    const added: string[] = [];
+    for (const file of files) {
+      try {
+        added.push((await onAdd(file)).key);
+      } catch (error) {
+        setErrors(prev => [...prev, error instanceof Error ? error.message : `Could not read ${file.name}`]);
+      }
+    }
+    if (added.length > 0) onAttachedChange(Array.from(new Set([...attachedIds, ...added])));
+    setIsAdding(false);
+  };
+
+  const toggleAttached = (key: string) => {
+    if (disabled) return;
+    onAttachedChange(attachedIds.includes(key) ? attachedIds.filter(id => id !== key) : [...attachedIds, key]);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mt-4 mb-3">
+        <label className="flex items-center gap-1.5 text-xs font-semibold text-slate-600 uppercase tracking-wider">
+          <BookOpen className="w-3.5 h-3.5" />
+          Knowledge Base
+        </label>
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          disabled={disabled || isAdding}
+          className="flex items-center gap-1 text-xs font-medium text-brand-600 hover:text-brand-800 disabled:opacity-50"
+        >
+          {isAdding ? <Loader2 className="w-3 h-3 animate-spin" /> : <Upload className="w-3 h-3" />}
+          Add documents
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={DOCUMENT_FILE_ACCEPT}
+          className="hidden"
+          onChange={(e) => {
+            const files = Array.from(e.target.files || []);
+            e.target.value = '';
+            if (files.length > 0) handleFiles(files);
+          }}
+        />
+      </div>
+
+      {documents.length > 0 ? (
+        <ul className="space-y-1 max-h-40 overflow-y-auto custom-scrollbar">
+          {documents.map(doc => {
+            const isAttached = attachedIds.includes(doc.key);
+            return (
+              <li
+                key={doc.key}
+                className={`flex items-center gap-2 px-2 py-1.5 rounded-md border text-xs ${
+                  isAttached ? 'bg-brand-50 border-brand-200' : 'bg-white border-slate-200'
+                }`}
+              >
+                <button
+                  type="button"
+                  onClick={() => toggleAttached(doc.key)}
+                  disabled={disabled}
+                  title={isAttached ? 'Detach from this run' : 'Attach to this run'}
+                  className={`w-4 h-4 flex-shrink-0 flex items-center justify-center rounded border ${
+                    isAttached ? 'bg-brand-600 border-brand-600 text-white' : 'bg-white border-slate-300'
+                  }`}
+                >
+                  {isAttached && <Check className="w-3 h-3" />}
+                </button>
+                <FileText className="w-3.5 h-3.5 flex-shrink-0 text-slate-400" />
+                <span className="flex-1 truncate text-slate-700" title={doc.name}>{doc.name}</span>
+                <span className="text-slate-400 whitespace-nowrap">
+                  {doc.kind === 'pdf' ? `${doc.pages.length} p. · ` : ''}{formatSize(doc.size)}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => onDelete(doc.key)}
+                  disabled={disabled}
+                  title="Remove from the knowledge base"
+                  className="p-0.5 text-slate-400 hover:text-red-500"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="text-xs text-slate-400">No documents yet.</p>
+      )}
+
+      {errors.map((message, index) => (
+        <p key={index} className="text-xs text-red-600 mt-1">{message}</p>
+      ))}
+      <p className="text-xs text-slate-400 mt-3">
+        PDFs and text files, indexed in your browser. Tasks set to ground on documents answer from the attached ones and cite the page.
+      </p>
+    </div>
+  );
+};
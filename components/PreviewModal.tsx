@@ -0,0 +1,298 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { X, Eye, Loader2, Play, RotateCcw, AlertTriangle, ExternalLink, FileText } from 'lucide-react';
+import { CsvRow, ResearchConfig } from '../types';
+import { DEFAULT_PREVIEW_ROWS, PreviewCell, runPreview, selectPreviewJobs } from '../services/previewRun';
+import { ResearchJob } from '../services/researchJobs';
+import { CellResult } from '../services/runStore';
+import { formatConfidence, isLowConfidence } from '../utils/confidence';
+import { DocumentIndex } from '../utils/documentIndex';
+import { PromptInput } from './PromptInput';
+
+interface PreviewModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  config: ResearchConfig;
+  data: CsvRow[];
+  // Column names prompts may reference, for autocomplete
+  columns: string[];
+  buildJobs: (config: ResearchConfig) => ResearchJob[];
+  // Knowledge base index for tasks with document grounding
+  documents?: DocumentIndex;
+  onPromptChange: (taskId: string, prompt: string) => void;
+  // Starts the full run, reusing the preview's finished cells
+  onApprove: (config: ResearchConfig, previewResults: Record<string, CellResult>) => void;
+}
+
+export const PreviewModal: React.FC<PreviewModalProps> = ({
+  isOpen,
+  onClose,
+  config,
+  data,
+  columns,
+  buildJobs,
+  documents,
+  onPromptChange,
+  onApprove,
+}) => {
+  const [rowCount, setRowCount] = useState(DEFAULT_PREVIEW_ROWS);
+  const [jobs, setJobs] = useState<ResearchJob[]>([]);
+  const [cells, setCells] = useState<Record<string, PreviewCell>>({});
+  const [results, setResults] = useState<Record<string, CellResult>>({});
+  const [isRunning, setIsRunning] = useState(false);
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
+  // Config the current results were produced with; approving requires it to be unchanged
+  const [previewedConfig, setPreviewedConfig] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const configKey = JSON.stringify(config);
+  const isStale = previewedConfig !== null && previewedConfig !== configKey;
+
+  const startPreview = useCallback(async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    const previewJobs = selectPreviewJobs(buildJobs(config), rowCount);
+    setJobs(previewJobs);
+    setCells({});
+    setResults({});
+    setSelectedJobId(previewJobs[0]?.id || null);
+    setPreviewedConfig(null);
+    setIsRunning(true);
+
+    try {
+      const finished = await runPreview(previewJobs, data, config, {
+        signal: controller.signal,
+        documents,
+        onUpdate: (jobId, cell) => {
+          if (!controller.signal.aborted) setCells(prev => ({ ...prev, [jobId]: cell }));
+        },
+      });
+      if (controller.signal.aborted) return;
+      setResults(finished);
+      setPreviewedConfig(JSON.stringify(config));
+    } finally {
+      if (abortRef.current === controller) setIsRunning(false);
+    }
+  }, [buildJobs, config, data, rowCount, documents]);
+
+  // Run a preview as soon as the modal opens
+  useEffect(() => {
+    if (isOpen) startPreview();
+    return () => abortRef.current?.abort();
+  }, [isOpen]);
+
+  const rowIndices = useMemo(
+    () => Array.from(new Set(jobs.map(job => job.payload.rowIndex))),
+    [jobs]
+  );
+  const jobByCell = useMemo(
+    () => new Map(jobs.map(job => [`${job.payload.rowIndex}:${job.payload.task.id}`, job])),
+    [jobs]
+  );
+
+  if (!isOpen) return null;
+
+  const handleClose = () => {
+    abortRef.current?.abort();
+    onClose();
+  };
+
+  const selected = selectedJobId ? cells[selectedJobId] : undefined;
+  const selectedJob = jobs.find(job => job.id === selectedJobId);
+  const canApprove = !isRunning && previewedConfig === configKey;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[100] flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-6xl max-h-[90vh] flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="bg-gradient-to-r from-brand-600 to-brand-500 p-4 flex items-center justify-between text-white">
+          <div className="flex items-center gap-2">
+            <Eye className="w-6 h-6" />
+            <h3 className="font-bold text-lg">Preview Run</h3>
+          </div>
+          <button onClick={handleClose} className="hover:bg-white/20 p-1 rounded-full transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Prompt editors */}
+        <div className="p-4 border-b border-slate-200 space-y-2">
+          {config.tasks.map(task => (
+            <div key={task.id} className="flex items-center gap-3">
+              <span className="w-40 text-xs font-semibold text-slate-600 truncate" title={task.newColumnName}>
+                {task.newColumnName}
+              </span>
+              <div className="flex-1">
+                <PromptInput
+                  value={task.prompt}
+                  columns={columns.filter(col => col !== task.newColumnName)}
+                  onChange={(value) => onPromptChange(task.id, value)}
+                  disabled={isRunning}
+                  className="w-full px-3 py-1.5 text-sm rounded-lg border border-slate-300 focus:ring-2 focus:ring-brand-500 focus:border-brand-500 outline-none"
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Answers */}
+          <div className="flex-1 overflow-auto custom-scrollbar">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-slate-500 uppercase">Row</th>
+                  {config.tasks.map(task => (
+                    <th key={task.id} className="px-3 py-2 text-left text-xs font-semibold text-slate-500 uppercase">
+                      {task.newColumnName}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rowIndices.map(rowIndex => (
+                  <tr key={rowIndex} className="border-t border-slate-100 align-top">
+                    <td className="px-3 py-2 text-xs text-slate-500 whitespace-nowrap">
+                      {rowIndex + 1}. {jobs.find(job => job.payload.rowIndex === rowIndex)?.payload.entityName}
+                    </td>
+                    {config.tasks.map(task => {
+                      const job = jobByCell.get(`${rowIndex}:${task.id}`);
+                      const cell = job ? cells[job.id] : undefined;
+                      const isSelected = !!job && job.id === selectedJobId;
+                      return (
+                        <td key={task.id} className="px-1 py-1">
+                          {job ? (
+                            <button
+                              onClick={() => setSelectedJobId(job.id)}
+                              className={`w-full text-left px-2 py-1.5 rounded-md border ${isSelected ? 'border-brand-300 bg-brand-50' : 'border-transparent hover:bg-slate-50'}`}
+                            >
+                              {(!cell || cell.status === 'pending') && <span className="text-xs text-slate-400">Waiting...</span>}
+                              {cell?.status === 'running' && <Loader2 className="w-4 h-4 animate-spin text-brand-500" />}
+                              {cell?.status === 'failed' && <span className="text-xs text-red-600">{cell.error}</span>}
+                              {cell?.status === 'done' && cell.result && (
+                                <>
+                                  <span className={`line-clamp-3 ${cell.result.validationError ? 'text-red-700' : 'text-slate-700'}`}>
+                                    {cell.result.text}
+                                  </span>
+                                  <span className="flex items-center gap-2 mt-1 text-[10px] text-slate-400">
+                                    {cell.result.confidence !== undefined && (
+                                      <span className={isLowConfidence(cell.result.confidence) ? 'text-amber-700 font-semibold' : ''}>
+                                        {formatConfidence(cell.result.confidence)}
+                                      </span>
+                                    )}
+                                    <span>{cell.result.sources.length} sources</span>
+                                    {cell.result.fromCache && <span>cached</span>}
+                                  </span>
+                                </>
+                              )}
+                            </button>
+                          ) : (
+                            <span className="block px-2 py-1.5 text-xs text-slate-300">Skipped by run mode</span>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {!isRunning && jobs.length === 0 && (
+              <p className="p-6 text-sm text-slate-500 text-center">No cells to preview with the current settings.</p>
+            )}
+          </div>
+
+          {/* Selected cell details */}
+          <div className="w-96 border-l border-slate-200 bg-slate-50 overflow-y-auto custom-scrollbar p-4 space-y-4">
+            {selected && selectedJob ? (
+              <>
+                <div className="text-xs font-semibold text-slate-500 uppercase">
+                  Row {selectedJob.payload.rowIndex + 1} · {selectedJob.payload.task.newColumnName}
+                </div>
+                {selected.result?.validationError && (
+                  <p className="flex items-center gap-1.5 text-xs text-red-600">
+                    <AlertTriangle className="w-3.5 h-3.5" />
+                    {selected.result.validationError}
+                  </p>
+                )}
+                {selected.result?.verification?.note && (
+                  <p className="text-xs text-slate-600">Verifier: {selected.result.verification.note}</p>
+                )}
+                {selected.result && selected.result.sources.length > 0 && (
+                  <div>
+                    <div className="text-xs font-semibold text-slate-500 mb-1">Sources</div>
+                    <ul className="space-y-1">
+                      {selected.result.sources.map((source, index) => (
+                        <li key={index}>
+                          {source.document ? (
+                            <span className="text-xs text-slate-700 flex items-center gap-1 break-all" title={source.document.excerpt}>
+                              <FileText className="w-3 h-3 flex-shrink-0 text-slate-400" />
+                              {source.title}
+                            </span>
+                          ) : (
+                            <a
+                              href={source.uri}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-xs text-brand-600 hover:underline flex items-center gap-1 break-all"
+                            >
+                              {source.title || source.uri}
+                              <ExternalLink className="w-3 h-3 flex-shrink-0" />
+                            </a>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                <div>
+                  <div className="text-xs font-semibold text-slate-500 mb-1">Rendered prompt</div>
+                  <pre className="text-xs text-slate-700 bg-white border border-slate-200 rounded-md p-3 whitespace-pre-wrap">
+                    {selected.prompt.trim()}
+                  </pre>
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-slate-400">Select a cell to see its prompt and sources.</p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3 p-4 border-t border-slate-200">
+          <label className="flex items-center gap-2 text-xs text-slate-500">
+            Rows
+            <input
+              type="number"
+              min={1}
+              max={50}
+              value={rowCount}
+              onChange={(e) => setRowCount(Math.min(50, Math.max(1, Number(e.target.value) || 1)))}
+              disabled={isRunning}
+              className="w-16 px-2 py-1 rounded-md border border-slate-300 focus:ring-2 focus:ring-brand-500 outline-none"
+            />
+          </label>
+          {isStale && (
+            <span className="text-xs text-amber-600">Settings changed since this preview. Re-run it to approve.</span>
+          )}
+          <div className="ml-auto flex gap-3">
+            <button
+              onClick={startPreview}
+              disabled={isRunning}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-600 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 disabled:opacity-50"
+            >
+              {isRunning ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+              Re-run Preview
+            </button>
+            <button
+              onClick={() => onApprove(config, results)}
+              disabled={!canApprove}
+              className="flex items-center gap-2 px-5 py-2 text-sm font-medium text-white bg-brand-600 rounded-lg hover:bg-brand-700 disabled:bg-slate-300 disabled:text-slate-500"
+            >
+              <Play className="w-4 h-4 fill-current" />
+              Approve and Run All
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React, { useRef, useState } from 'react';
+import { getOpenPlaceholder } from '../utils/promptTemplate';
+
+interface PromptInputProps {
+  value: string;
+  columns: string[];
+  onChange: (value: string) => void;
+  disabled?: boolean;
+  placeholder?: string;
+  className?: string;
+}
+
+/**
+ * Text input that suggests column names after typing `{{`.
+ */
+export const PromptInput: React.FC<PromptInputProps> = ({ value, columns, onChange, disabled, placeholder, className }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [caret, setCaret] = useState<number | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const open = caret !== null ? getOpenPlaceholder(value, caret) : null;
+  const suggestions = open
+    ? columns.filter(col => col.toLowerCase().includes(open.query.trim().toLowerCase())).slice(0, 8)
+    : [];
+
+  const updateCaret = () => {
+    setCaret(inputRef.current?.selectionStart ?? null);
+    setHighlighted(0);
+  };
+
+  const insertColumn = (column: string) => {
+    if (!open || caret === null) return;
+    const before = value.slice(0, open.start);
+    // Swallow an already typed closing brace pair after the caret
+    const after = value.slice(caret).replace(/^\s*\}\}/, '');
+    const next = `${before}{{${column}}}${after}`;
+    onChange(next);
+
+    const position = before.length + column.length + 4;
+    setCaret(null);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(position, position);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted(prev => (prev + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      insertColumn(suggestions[highlighted] || suggestions[0]);
+    } else if (e.key === 'Escape') {
+      setCaret(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <input
+        ref={inputRef}
+        type="text"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setCaret(e.target.selectionStart);
+          setHighlighted(0);
+        }}
+        onKeyDown={handleKeyDown}
+        onKeyUp={(e) => {
+          if (e.key === 'ArrowLeft' || e.key === 'ArrowRight' || e.key === 'Home' || e.key === 'End') updateCaret();
+        }}
+        onClick={updateCaret}
+        onBlur={() => setTimeout(() => setCaret(null), 150)}
+        disabled={disabled}
+        placeholder={placeholder}
+        className={className}
+      />
+      {suggestions.length > 0 && (
+        <ul className="absolute z-20 left-0 right-0 mt-1 max-h-48 overflow-y-auto bg-white border border-slate-200 rounded-lg shadow-lg text-sm">
+          {suggestions.map((col, index) => (
+            <li key={col}>
+              <button
+                type="button"
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  insertColumn(col);
+                }}
+                className={`w-full text-left px-3 py-1.5 ${index === highlighted ? 'bg-brand-50 text-brand-700' : 'text-slate-700 hover:bg-slate-50'}`}
+              >
+                {col}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,289 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Check } from 'lucide-react';
+import { CsvRow } from '../types';
+import {
+  DEFAULT_DUPLICATE_MATCH,
+  DuplicateMatchOptions,
+  findDuplicateGroups,
+  getKeptIndex,
+  KEEP_POLICIES,
+  KeepPolicy,
+  removeDuplicateRows,
+  resolveDuplicateGroup,
+} from '../utils/duplicates';
+
+interface RemoveDuplicatesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  columns: string[];
+  data: CsvRow[];
+  // Receives the data with the duplicates removed; the modal is read-only without it
+  onRemove?: (data: CsvRow[]) => void;
+}
+
+// Groups listed in the preview; the rest are still removed
+const MAX_LISTED_GROUPS = 100;
+// Grouping compares every pair of keys in a block, so it waits for option changes to pause this long
+const GROUPING_DEBOUNCE_MS = 300;
+
+const NORMALIZATION_OPTIONS: { key: 'trim' | 'caseFold' | 'stripPunctuation' | 'canonicalizeUrls'; label: string }[] = [
+  { key: 'trim', label: 'Trim whitespace' },
+  { key: 'caseFold', label: 'Ignore case' },
+  { key: 'stripPunctuation', label: 'Ignore punctuation' },
+  { key: 'canonicalizeUrls', label: 'Canonicalize URLs' },
+];
+
+export const RemoveDuplicatesModal: React.FC<RemoveDuplicatesModalProps> = ({
+  isOpen,
+  onClose,
+  columns,
+  data,
+  onRemove,
+}) => {
+  const [selectedColumns, setSelectedColumns] = useState<string[]>([]);
+  const [match, setMatch] = useState(DEFAULT_DUPLICATE_MATCH);
+  const [keep, setKeep] = useState<KeepPolicy>('first');
+  // Groups the user chose to leave alone, by their first row
+  const [skippedGroups, setSkippedGroups] = useState<Set<number>>(new Set());
+
+  const options: DuplicateMatchOptions = useMemo(() => ({ ...match, columns: selectedColumns }), [match, selectedColumns]);
+  // Only the match options regroup the rows; the keep policy just picks a row within each group
+  const [settledOptions, setSettledOptions] = useState(options);
+  useEffect(() => {
+    const timer = setTimeout(() => setSettledOptions(options), GROUPING_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [options]);
+  const groups = useMemo(() => (isOpen ? findDuplicateGroups(data, settledOptions) : []), [isOpen, data, settledOptions]);
+
+  // Groups change with the options, so earlier skips no longer apply
+  useEffect(() => {
+    setSkippedGroups(new Set());
+  }, [settledOptions, data]);
+
+  if (!isOpen) return null;
+
+  const activeGroups = groups.filter(group => !skippedGroups.has(group.rowIndices[0]));
+  const removedCount = activeGroups.reduce((sum, group) => sum + group.rowIndices.length - 1, 0);
+
+  const handleClose = () => {
+    setSelectedColumns([]);
+    onClose();
+  };
+
+  const handleRemove = () => {
+    if (!onRemove || removedCount === 0) return;
+    onRemove(removeDuplicateRows(data, activeGroups, keep));
+    handleClose();
+  };
+
+  const toggleColumn = (col: string) => {
+    setSelectedColumns(prev => prev.includes(col) ? prev.filter(c => c !== col) : [...prev, col]);
+  };
+
+  const toggleGroup = (firstRow: number) => setSkippedGroups(prev => {
+    const next = new Set(prev);
+    if (next.has(firstRow)) next.delete(firstRow); else next.add(firstRow);
+    return next;
+  });
+
+  const describeRow = (row: CsvRow) => settledOptions.columns.map(col => row[col] || '—').join(' · ');
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[9999]">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl mx-4 max-h-[90vh] flex flex-col overflow-hidden">
+        {/* Modal Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+          <h3 className="text-lg font-semibold text-slate-900">Remove Duplicates</h3>
+          <button
+            onClick={handleClose}
+            className="p-1 text-slate-400 hover:text-slate-600 rounded-md hover:bg-slate-100"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Modal Body */}
+        <div className="flex-1 min-h-0 overflow-y-auto px-6 py-4 grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <p className="text-sm text-slate-600 mb-4">
+              Select columns to check for duplicate values. Rows matching in all selected columns form a group, and each group is reduced to one row.
+            </p>
+
+            {/* Quick Actions */}
+            <div className="flex gap-2 mb-3">
+              <button
+                onClick={() => setSelectedColumns(columns)}
+                className="text-xs text-blue-600 hover:text-blue-800 font-medium"
+              >
+                Select All
+              </button>
+              <span className="text-slate-300">|</span>
+              <button
+                onClick={() => setSelectedColumns([])}
+                className="text-xs text-blue-600 hover:text-blue-800 font-medium"
+              >
+                Clear
+              </button>
+            </div>
+
+            {/* Column Checkboxes */}
+            <div className="max-h-48 overflow-y-auto border border-slate-200 rounded-lg">
+              {columns.map((col, idx) => (
+                <label
+                  key={col}
+                  className={`flex items-center gap-3 px-3 py-2 cursor-pointer hover:bg-slate-50 ${
+                    idx !== columns.length - 1 ? 'border-b border-slate-100' : ''
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedColumns.includes(col)}
+                    onChange={() => toggleColumn(col)}
+                    className="w-4 h-4 text-blue-600 rounded border-slate-300 focus:ring-blue-500"
+                  />
+                  <span className="text-sm text-slate-700">{col}</span>
+                  {selectedColumns.includes(col) && (
+                    <Check className="w-4 h-4 text-blue-600 ml-auto" />
+                  )}
+                </label>
+              ))}
+            </div>
+
+            {/* Matching */}
+            <div className="mt-4 space-y-2">
+              <div className="text-xs font-semibold text-slate-600 uppercase tracking-wider">Matching</div>
+              {NORMALIZATION_OPTIONS.map(({ key, label }) => (
+                <label key={key} className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={match[key]}
+                    onChange={(e) => setMatch(prev => ({ ...prev, [key]: e.target.checked }))}
+                    className="w-4 h-4 text-blue-600 rounded border-slate-300 focus:ring-blue-500"
+                  />
+                  {label}
+                </label>
+              ))}
+              <label className="flex items-center gap-2 text-sm text-slate-700">
+                Similarity
+                <input
+                  type="range"
+                  min={0.6}
+                  max={1}
+                  step={0.05}
+                  value={match.threshold}
+                  onChange={(e) => setMatch(prev => ({ ...prev, threshold: Number(e.target.value) }))}
+                  className="flex-1 accent-blue-600"
+                />
+                <span className="w-10 text-xs font-mono text-slate-500">
+                  {match.threshold === 1 ? 'exact' : match.threshold.toFixed(2)}
+                </span>
+              </label>
+            </div>
+
+            {/* Keep Policy */}
+            <label className="block mt-4">
+              <span className="text-xs font-semibold text-slate-600 uppercase tracking-wider">Keep</span>
+              <select
+                value={keep}
+                onChange={(e) => setKeep(e.target.value as KeepPolicy)}
+                className="mt-2 w-full px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              >
+                {KEEP_POLICIES.map(({ value, label }) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {/* Preview */}
+          <div className="min-h-0 flex flex-col">
+            <div className="text-xs font-semibold text-slate-600 uppercase tracking-wider mb-2">Duplicate Groups</div>
+            {selectedColumns.length === 0 ? (
+              <p className="text-sm text-slate-400">Select at least one column.</p>
+            ) : groups.length === 0 ? (
+              <div className="p-3 rounded-lg bg-green-50 border border-green-200">
+                <p className="text-sm text-green-800">No duplicates found based on selected columns.</p>
+              </div>
+            ) : (
+              <div className="space-y-2 overflow-y-auto max-h-[55vh]">
+                {groups.slice(0, MAX_LISTED_GROUPS).map(group => {
+                  const firstRow = group.rowIndices[0];
+                  const isSkipped = skippedGroups.has(firstRow);
+                  const keptIndex = getKeptIndex(data, group, keep);
+                  const merged = keep === 'merge' ? resolveDuplicateGroup(data, group, keep) : undefined;
+                  const filledCount = merged
+                    ? Object.keys(merged).filter(key => merged[key] !== data[keptIndex][key]).length
+                    : 0;
+                  return (
+                    <div
+                      key={firstRow}
+                      className={`rounded-lg border p-2 ${isSkipped ? 'bg-slate-50 border-slate-200 opacity-60' : 'bg-amber-50 border-amber-200'}`}
+                    >
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className="text-xs font-medium text-slate-600">{group.rowIndices.length} rows</span>
+                        {!group.exact && (
+                          <span className="text-[10px] px-1.5 py-0.5 rounded-full bg-amber-100 text-amber-700">similar</span>
+                        )}
+                        <button
+                          onClick={() => toggleGroup(firstRow)}
+                          className="ml-auto text-xs text-blue-600 hover:text-blue-800 font-medium"
+                        >
+                          {isSkipped ? 'Include' : 'Skip'}
+                        </button>
+                      </div>
+                      <ul className="space-y-0.5">
+                        {group.rowIndices.map(index => (
+                          <li key={index} className="flex items-center gap-2 text-xs">
+                            <span className="w-10 text-slate-400">#{index + 1}</span>
+                            <span className={`flex-1 truncate ${index === keptIndex || isSkipped ? 'text-slate-700' : 'text-slate-400 line-through'}`}>
+                              {describeRow(data[index])}
+                            </span>
+                            {index === keptIndex && !isSkipped && (
+                              <span className="text-[10px] font-semibold text-green-700">KEEP</span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                      {filledCount > 0 && !isSkipped && (
+                        <p className="text-[11px] text-slate-500 mt-1">
+                          Fills {filledCount} empty cell{filledCount !== 1 ? 's' : ''} from the removed rows.
+                        </p>
+                      )}
+                    </div>
+                  );
+                })}
+                {groups.length > MAX_LISTED_GROUPS && (
+                  <p className="text-xs text-slate-400 text-center">
+                    Showing {MAX_LISTED_GROUPS} of {groups.length} groups.
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Modal Footer */}
+        <div className="flex items-center justify-end gap-3 px-6 py-4 border-t border-slate-200 bg-slate-50">
+          {groups.length > 0 && (
+            <span className="mr-auto text-sm text-amber-800">
+              <strong>{removedCount}</strong> duplicate row{removedCount !== 1 ? 's' : ''} in {activeGroups.length} group{activeGroups.length !== 1 ? 's' : ''}
+            </span>
+          )}
+          <button
+            onClick={handleClose}
+            className="px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleRemove}
+            disabled={removedCount === 0 || !onRemove}
+            className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Remove {removedCount} Duplicate{removedCount !== 1 ? 's' : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
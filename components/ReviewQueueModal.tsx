@@ -0,0 +1,436 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { X, ClipboardCheck, Check, Ban, Pencil, ChevronLeft, ChevronRight, ExternalLink, FileText, AlertTriangle, RotateCcw, Undo2 } from 'lucide-react';
+import { CellProvenance, CsvRow, ReviewStatus } from '../types';
+import { formatConfidence, isLowConfidence } from '../utils/confidence';
+import { countReviewStatuses, getReviewLabel, getReviewStatus } from '../utils/review';
+import { indexRowIds, parseCellKey } from '../utils/rowId';
+
+type QueueFilter = 'unreviewed' | 'rejected' | 'all';
+type QueueOrder = 'sheet' | 'confidence';
+
+interface ReviewQueueModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  data: CsvRow[];
+  // Columns naming each row's entity, shown above the cell
+  entityColumns: string[];
+  cellProvenance: Record<string, CellProvenance>;
+  cellConfidence: Record<string, number>;
+  invalidCells: Record<string, string>;
+  onReview: (cellKey: string, status: ReviewStatus, note?: string) => void;
+  onEdit: (cellKey: string, value: string) => void;
+  // Accepts unreviewed cells scoring at least this confidence (0-1)
+  onBulkAccept: (minConfidence: number) => void;
+  // Re-runs rejected cells with their reviewer notes; unset when no run can start
+  onRerunRejected?: () => void;
+}
+
+const STATUS_STYLES: Record<ReviewStatus, string> = {
+  unreviewed: 'bg-slate-100 text-slate-600',
+  accepted: 'bg-emerald-100 text-emerald-700',
+  rejected: 'bg-red-100 text-red-700',
+  edited: 'bg-blue-100 text-blue-700',
+};
+
+const SHORTCUTS = [
+  ['A', 'accept'],
+  ['R', 'reject'],
+  ['E', 'edit'],
+  ['U', 'undo review'],
+  ['←/→', 'previous/next'],
+];
+
+// Keys typed into a field are text, not shortcuts
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+
+/**
+ * Steps through AI-filled cells one at a time so a reviewer can accept, reject
+ * (with a note for the re-run) or correct them from the keyboard.
+ */
+export const ReviewQueueModal: React.FC<ReviewQueueModalProps> = ({
+  isOpen,
+  onClose,
+  data,
+  entityColumns,
+  cellProvenance,
+  cellConfidence,
+  invalidCells,
+  onReview,
+  onEdit,
+  onBulkAccept,
+  onRerunRejected,
+}) => {
+  const [filter, setFilter] = useState<QueueFilter>('unreviewed');
+  const [order, setOrder] = useState<QueueOrder>('sheet');
+  const [currentKey, setCurrentKey] = useState<string | null>(null);
+  const [action, setAction] = useState<'rejecting' | 'editing' | null>(null);
+  const [draft, setDraft] = useState('');
+  const [bulkThreshold, setBulkThreshold] = useState(80);
+  const draftRef = useRef<HTMLTextAreaElement>(null);
+
+  const rowPositions = useMemo(() => indexRowIds(data), [data]);
+  const counts = useMemo(() => countReviewStatuses(cellProvenance, rowPositions), [cellProvenance, rowPositions]);
+
+  const queue = useMemo(() => {
+    const cells = Object.keys(cellProvenance)
+      .map(key => ({ key, ...parseCellKey(key) }))
+      .filter(({ rowId }) => rowPositions.has(rowId))
+      .filter(({ key }) => {
+        const status = getReviewStatus(cellProvenance[key]);
+        return filter === 'all' || status === filter;
+      });
+    // Validation failures first, then the weakest answers
+    const weight = (key: string) => key in invalidCells ? -1 : cellConfidence[key] ?? 0.5;
+    cells.sort((a, b) =>
+      (order === 'confidence' ? weight(a.key) - weight(b.key) : 0)
+      || rowPositions.get(a.rowId)! - rowPositions.get(b.rowId)!
+      || a.column.localeCompare(b.column)
+    );
+    return cells.map(({ key }) => key);
+  }, [cellProvenance, cellConfidence, invalidCells, rowPositions, filter, order]);
+
+  const index = currentKey ? queue.indexOf(currentKey) : -1;
+  const activeKey = index !== -1 ? currentKey : queue[0] || null;
+  const position = index !== -1 ? index : 0;
+
+  const bulkEligible = useMemo(() => Object.keys(cellProvenance).filter(key =>
+    rowPositions.has(parseCellKey(key).rowId)
+    && getReviewStatus(cellProvenance[key]) === 'unreviewed'
+    && !(key in invalidCells)
+    && cellConfidence[key] !== undefined
+    && cellConfidence[key] >= bulkThreshold / 100
+  ).length, [cellProvenance, cellConfidence, invalidCells, rowPositions, bulkThreshold]);
+
+  const goTo = (key: string | null) => {
+    setCurrentKey(key);
+    setAction(null);
+  };
+
+  const step = (delta: number) => {
+    if (queue.length === 0) return;
+    goTo(queue[Math.min(queue.length - 1, Math.max(0, position + delta))]);
+  };
+
+  // Reviewing moves on to the next cell; in filtered views the reviewed cell drops out of the queue
+  const review = (status: ReviewStatus, note?: string) => {
+    if (!activeKey) return;
+    const next = queue[position + 1] ?? (filter === 'all' ? activeKey : queue[position - 1] ?? null);
+    onReview(activeKey, status, note);
+    goTo(next);
+  };
+
+  const startAction = (kind: 'rejecting' | 'editing') => {
+    if (!activeKey) return;
+    const record = cellProvenance[activeKey];
+    const { rowId, column } = parseCellKey(activeKey);
+    const value = data[rowPositions.get(rowId)!]?.[column] || '';
+    setDraft(kind === 'editing' ? value : record?.review?.note || '');
+    setAction(kind);
+  };
+
+  const confirmAction = () => {
+    if (!activeKey) return;
+    if (action === 'rejecting') {
+      review('rejected', draft);
+    } else if (action === 'editing') {
+      const next = queue[position + 1] ?? (filter === 'all' ? activeKey : queue[position - 1] ?? null);
+      onEdit(activeKey, draft);
+      goTo(next);
+    }
+  };
+
+  // Focus the note or value field when an action starts
+  useEffect(() => {
+    if (action) requestAnimationFrame(() => draftRef.current?.focus());
+  }, [action]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.metaKey || e.ctrlKey || e.altKey || isTypingTarget(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'escape') {
+        onClose();
+      } else if (key === 'a') {
+        review('accepted');
+      } else if (key === 'r') {
+        e.preventDefault();
+        startAction('rejecting');
+      } else if (key === 'e') {
+        e.preventDefault();
+        startAction('editing');
+      } else if (key === 'u') {
+        if (activeKey && getReviewStatus(cellProvenance[activeKey]) !== 'unreviewed') review('unreviewed');
+      } else if (key === 'arrowright' || key === 'j') {
+        step(1);
+      } else if (key === 'arrowleft' || key === 'k') {
+        step(-1);
+      } else {
+        return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  if (!isOpen) return null;
+
+  const record = activeKey ? cellProvenance[activeKey] : undefined;
+  const cell = activeKey ? parseCellKey(activeKey) : undefined;
+  const rowIndex = cell ? rowPositions.get(cell.rowId) : undefined;
+  const row = rowIndex !== undefined ? data[rowIndex] : undefined;
+  const status = getReviewStatus(record);
+  const confidence = activeKey ? cellConfidence[activeKey] : undefined;
+  const validationError = activeKey ? invalidCells[activeKey] : undefined;
+  const entityName = row ? entityColumns.map(col => row[col]).filter(Boolean).join(' ') : '';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[100] flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="bg-gradient-to-r from-brand-600 to-brand-500 p-4 flex items-center justify-between text-white">
+          <div className="flex items-center gap-2">
+            <ClipboardCheck className="w-6 h-6" />
+            <h3 className="font-bold text-lg">Review Queue</h3>
+          </div>
+          <button onClick={onClose} className="hover:bg-white/20 p-1 rounded-full transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Queue filters */}
+        <div className="flex flex-wrap items-center gap-2 px-4 py-3 border-b border-slate-200">
+          {(['unreviewed', 'rejected', 'all'] as QueueFilter[]).map(value => (
+            <button
+              key={value}
+              onClick={() => {
+                setFilter(value);
+                goTo(null);
+              }}
+              className={`px-3 py-1 text-xs font-medium rounded-full border ${
+                filter === value ? 'bg-brand-100 text-brand-700 border-brand-300' : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'
+              }`}
+            >
+              {value === 'all' ? 'All' : getReviewLabel(value)}
+              <span className="ml-1.5 text-slate-400">
+                {value === 'all' ? Object.values(counts).reduce((sum, count) => sum + count, 0) : counts[value]}
+              </span>
+            </button>
+          ))}
+          <select
+            value={order}
+            onChange={(e) => setOrder(e.target.value as QueueOrder)}
+            className="ml-auto px-2 py-1 text-xs rounded-md border border-slate-300 bg-white focus:ring-2 focus:ring-brand-500 outline-none"
+          >
+            <option value="sheet">Sheet order</option>
+            <option value="confidence">Weakest first</option>
+          </select>
+        </div>
+
+        {/* Current cell */}
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-5 space-y-4">
+          {activeKey && cell && rowIndex !== undefined ? (
+            <>
+              <div className="flex items-center justify-between">
+                <div className="text-xs font-semibold text-slate-500 uppercase">
+                  Row {rowIndex + 1}{entityName ? ` · ${entityName}` : ''} · {cell.column}
+                </div>
+                <div className="flex items-center gap-2 text-xs">
+                  {confidence !== undefined && (
+                    <span className={`px-1.5 py-0.5 rounded font-semibold ${isLowConfidence(confidence) ? 'bg-amber-100 text-amber-800' : 'bg-emerald-50 text-emerald-700'}`}>
+                      {formatConfidence(confidence)}
+                    </span>
+                  )}
+                  <span className={`px-1.5 py-0.5 rounded font-semibold ${STATUS_STYLES[status]}`}>{getReviewLabel(status)}</span>
+                </div>
+              </div>
+
+              <p className="text-base text-slate-800 whitespace-pre-wrap break-words bg-slate-50 border border-slate-200 rounded-lg p-3">
+                {row?.[cell.column] || <span className="italic text-slate-400">Empty</span>}
+              </p>
+              {record?.editedAt && record.value !== row?.[cell.column] && (
+                <p className="text-xs text-slate-500">The agent wrote "{record.value}".</p>
+              )}
+              {validationError && (
+                <p className="flex items-center gap-1.5 text-xs text-red-600">
+                  <AlertTriangle className="w-3.5 h-3.5" />
+                  {validationError}
+                </p>
+              )}
+              {record?.review?.note && action !== 'rejecting' && (
+                <p className="text-xs text-red-700">Reviewer note: {record.review.note}</p>
+              )}
+
+              {action && (
+                <div className="space-y-2">
+                  <label className="block text-xs font-semibold text-slate-500">
+                    {action === 'rejecting' ? 'What is wrong? This note is added to the prompt when the cell is re-run.' : 'Corrected value'}
+                  </label>
+                  <textarea
+                    ref={draftRef}
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && !e.shiftKey) {
+                        e.preventDefault();
+                        confirmAction();
+                      } else if (e.key === 'Escape') {
+                        e.preventDefault();
+                        e.stopPropagation();
+                        setAction(null);
+                      }
+                    }}
+                    rows={2}
+                    className="w-full px-3 py-2 text-sm rounded-lg border border-slate-300 focus:ring-2 focus:ring-brand-500 focus:border-brand-500 outline-none resize-y"
+                  />
+                  <div className="flex justify-end gap-2">
+                    <button
+                      onClick={() => setAction(null)}
+                      className="px-3 py-1.5 text-xs font-medium text-slate-600 bg-white border border-slate-300 rounded-lg hover:bg-slate-50"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={confirmAction}
+                      className={`px-3 py-1.5 text-xs font-medium text-white rounded-lg ${action === 'rejecting' ? 'bg-red-600 hover:bg-red-700' : 'bg-brand-600 hover:bg-brand-700'}`}
+                    >
+                      {action === 'rejecting' ? 'Reject' : 'Save'} (Enter)
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {record && record.sources.length > 0 && (
+                <div>
+                  <div className="text-xs font-semibold text-slate-500 mb-1">Sources</div>
+                  <ul className="space-y-1">
+                    {record.sources.map((source, sourceIndex) => (
+                      <li key={sourceIndex}>
+                        {source.document ? (
+                          <span className="text-xs text-slate-700 flex items-center gap-1 break-all" title={source.document.excerpt}>
+                            <FileText className="w-3 h-3 flex-shrink-0 text-slate-400" />
+                            {source.title}
+                          </span>
+                        ) : (
+                          <a
+                            href={source.uri}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-xs text-brand-600 hover:underline flex items-center gap-1 break-all"
+                          >
+                            {source.title || source.uri}
+                            <ExternalLink className="w-3 h-3 flex-shrink-0" />
+                          </a>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {record?.prompt && (
+                <details>
+                  <summary className="cursor-pointer text-xs font-semibold text-slate-500">Prompt sent</summary>
+                  <pre className="mt-1 text-xs text-slate-700 bg-slate-50 border border-slate-200 rounded-md p-3 whitespace-pre-wrap">{record.prompt}</pre>
+                </details>
+              )}
+            </>
+          ) : (
+            <p className="py-10 text-sm text-slate-500 text-center">
+              {filter === 'unreviewed' ? 'Every cell has been reviewed.' : 'No cells to show.'}
+            </p>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="flex flex-wrap items-center gap-2 px-4 py-3 border-t border-slate-200">
+          <button
+            onClick={() => step(-1)}
+            disabled={position === 0}
+            className="p-1.5 text-slate-500 rounded-md hover:bg-slate-100 disabled:opacity-40"
+            title="Previous (←)"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span className="text-xs text-slate-500 w-16 text-center">
+            {queue.length > 0 ? `${position + 1} / ${queue.length}` : '0 / 0'}
+          </span>
+          <button
+            onClick={() => step(1)}
+            disabled={position >= queue.length - 1}
+            className="p-1.5 text-slate-500 rounded-md hover:bg-slate-100 disabled:opacity-40"
+            title="Next (→)"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+          <div className="ml-auto flex gap-2">
+            <button
+              onClick={() => review('unreviewed')}
+              disabled={!activeKey || status === 'unreviewed'}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-600 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 disabled:opacity-40"
+            >
+              <Undo2 className="w-3.5 h-3.5" /> Undo (U)
+            </button>
+            <button
+              onClick={() => startAction('editing')}
+              disabled={!activeKey}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 disabled:opacity-40"
+            >
+              <Pencil className="w-3.5 h-3.5" /> Edit (E)
+            </button>
+            <button
+              onClick={() => startAction('rejecting')}
+              disabled={!activeKey}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-red-700 bg-red-50 border border-red-200 rounded-lg hover:bg-red-100 disabled:opacity-40"
+            >
+              <Ban className="w-3.5 h-3.5" /> Reject (R)
+            </button>
+            <button
+              onClick={() => review('accepted')}
+              disabled={!activeKey}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-white bg-emerald-600 rounded-lg hover:bg-emerald-700 disabled:opacity-40"
+            >
+              <Check className="w-3.5 h-3.5" /> Accept (A)
+            </button>
+          </div>
+        </div>
+
+        {/* Bulk actions */}
+        <div className="flex flex-wrap items-center gap-3 px-4 py-3 border-t border-slate-200 bg-slate-50">
+          <label className="flex items-center gap-2 text-xs text-slate-500">
+            Accept unreviewed cells at or above
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={bulkThreshold}
+              onChange={(e) => setBulkThreshold(Math.min(100, Math.max(0, Number(e.target.value) || 0)))}
+              className="w-16 px-2 py-1 rounded-md border border-slate-300 focus:ring-2 focus:ring-brand-500 outline-none"
+            />
+            % confidence
+          </label>
+          <button
+            onClick={() => onBulkAccept(bulkThreshold / 100)}
+            disabled={bulkEligible === 0}
+            className="px-3 py-1.5 text-xs font-medium text-emerald-700 bg-white border border-emerald-200 rounded-lg hover:bg-emerald-50 disabled:opacity-40"
+          >
+            Accept {bulkEligible}
+          </button>
+          <button
+            onClick={onRerunRejected}
+            disabled={!onRerunRejected || counts.rejected === 0}
+            className="ml-auto flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-white bg-brand-600 rounded-lg hover:bg-brand-700 disabled:bg-slate-300 disabled:text-slate-500"
+          >
+            <RotateCcw className="w-3.5 h-3.5" />
+            Re-run {counts.rejected} rejected
+          </button>
+        </div>
+        <div className="px-4 py-2 text-[11px] text-slate-400 border-t border-slate-100">
+          {SHORTCUTS.map(([key, label]) => (
+            <span key={key} className="mr-3"><kbd className="font-mono text-slate-500">{key}</kbd> {label}</span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,11 @@
 import { useEffect, useRef, useCallback, useState, forwardRef, useImperativeHandle } from 'react';
-import { CsvRow, Source } from '../types';
-import { X, Check, Link2, ExternalLink, PanelRightClose, PanelRightOpen } from 'lucide-react';
+import { CellProvenance, CsvRow, ReviewStatus } from '../types';
+import { formatConfidence, isLowConfidence } from '../utils/confidence';
+import { formatDuration, summarizeAgentTrace } from '../utils/agentTrace';
+import { getReviewLabel, getReviewStatus } from '../utils/review';
+import { getSourceDomain, summarizeSourcePolicy } from '../utils/sourcePolicy';
+import { ensureRowIds, getCellKey, getRowId, indexRowIds, parseCellKey, ROW_ID_FIELD } from '../utils/rowId';
+import { Link2, ExternalLink, PanelRightClose, PanelRightOpen, AlertTriangle, Pencil, FileText } from 'lucide-react';
 
 import { createUniver, LocaleType, mergeLocales } from '@univerjs/presets';
 import { UniverSheetsCorePreset } from '@univerjs/preset-sheets-core';
@@ -11,6 +16,7 @@ import { UniverSheetsConditionalFormattingPreset } from '@univerjs/preset-sheets
 import { UniverSheetsFindReplacePreset } from '@univerjs/preset-sheets-find-replace';
 import { UniverSheetsHyperLinkPreset } from '@univerjs/preset-sheets-hyper-link';
 import { RemoveDuplicatesPlugin } from '../plugins/RemoveDuplicatesPlugin';
+import { RemoveDuplicatesModal } from './RemoveDuplicatesModal';
 
 // Locales
 import UniverPresetSheetsCoreEnUS from '@univerjs/preset-sheets-core/locales/en-US';
@@ -34,7 +40,9 @@ interface UniverSheetProps {
   data: CsvRow[];
   columns: string[];
   highlightColumns?: string[];
-  cellSources?: Record<string, Source[]>;
+  cellProvenance?: Record<string, CellProvenance>;
+  invalidCells?: Record<string, string>;
+  cellConfidence?: Record<string, number>;
   onCellUpdate?: (rowIndex: number, column: string, value: string) => void;
   onDataChange?: (newData: CsvRow[]) => void;
   onColumnsChange?: (newColumns: string[]) => void;
@@ -43,6 +51,10 @@ interface UniverSheetProps {
 
 export interface UniverSheetRef {
   syncData: () => void;
+  // Data row indices (header excluded) covered by the current selection
+  getSelectedRowIndices: () => number[];
+  // Data row indices not hidden by the active sheet filter
+  getVisibleRowIndices: () => number[];
 }
 
 // Helper to convert column index to Excel-style letter (0 -> A, 1 -> B, etc.)
@@ -55,11 +67,42 @@ const getColumnLetter = (index: number): string => {
   return letter;
 };
 
+// A row's first cell carries its id as hidden metadata, so the id moves with the row when it is sorted.
+// Ids of the first `rowCount` data rows are read with a single range call; any cell of the row is
+// searched, so the id is still found after a column is inserted before it.
+const readRowIds = (sheet: any, rowCount: number, columnCount: number): Array<string | undefined> => {
+  if (rowCount === 0 || columnCount === 0) return [];
+  const metadata: Array<Array<{ rowId?: string } | null>> = sheet.getRange(1, 0, rowCount, columnCount)?.getCustomMetaDatas() || [];
+  return Array.from({ length: rowCount }, (_, index) => metadata[index]?.find(cell => cell?.rowId)?.rowId);
+};
+
+// Whether the sheet's rows differ from the React rows in count or order
+const rowsChanged = (sheetRows: CsvRow[], rows: CsvRow[]) =>
+  sheetRows.length !== rows.length || sheetRows.some((row, index) => getRowId(row) !== getRowId(rows[index]));
+
+// Background and font colours of reviewed cells in the sheet
+const REVIEW_CELL_STYLES: Record<Exclude<ReviewStatus, 'unreviewed'>, [string, string]> = {
+  accepted: ['#DCFCE7', '#166534'],
+  rejected: ['#FFE4E6', '#9F1239'],
+  edited: ['#DBEAFE', '#1E40AF'],
+};
+
+// Sidebar badge colours per review state
+const REVIEW_BADGE_STYLES: Record<ReviewStatus, string> = {
+  unreviewed: 'bg-slate-100 text-slate-500',
+  accepted: 'bg-emerald-100 text-emerald-700',
+  rejected: 'bg-rose-100 text-rose-700',
+  edited: 'bg-blue-100 text-blue-700',
+};
+
 export const UniverSheet = forwardRef<UniverSheetRef, UniverSheetProps>(({
   data,
   columns,
   highlightColumns = [],
-  cellSources = {},
+  cellProvenance = {},
+  invalidCells = {},
+  cellConfidence = {},
+  onCellUpdate,
   onDataChange,
   onColumnsChange,
 }, ref) => {
@@ -69,19 +112,23 @@ export const UniverSheet = forwardRef<UniverSheetRef, UniverSheetProps>(({
 
   // Track previous data for incremental updates
   const prevDataRef = useRef<CsvRow[]>([]);
+  // Set while we write React state into the sheet, so those writes are not taken for user edits
+  const isWritingRef = useRef(false);
   const prevColumnsRef = useRef<string[]>([]);
+  // Cells currently coloured for validation, confidence or review
+  const styledCellsRef = useRef<Set<string>>(new Set());
   const isInitializedRef = useRef(false);
 
   // Remove duplicates modal state
   const [showDuplicateModal, setShowDuplicateModal] = useState(false);
-  const [selectedColumns, setSelectedColumns] = useState<string[]>([]);
-  const [duplicateCount, setDuplicateCount] = useState<number | null>(null);
 
   // Track selected cell for showing sources
   const [selectedCellKey, setSelectedCellKey] = useState<string | null>(null);
 
   // Sidebar visibility state
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
+  // Limit the sidebar to low-confidence cells for review
+  const [showLowConfidenceOnly, setShowLowConfidenceOnly] = useState(false);
 
   // Subscribe to cell selection changes for showing sources
   useEffect(() => {
@@ -99,8 +146,7 @@ export const UniverSheet = forwardRef<UniverSheetRef, UniverSheetProps>(({
           if (dataRowIndex >= 0 && dataRowIndex < data.length) {
             const colName = columns[startColumn];
             if (colName) {
-              const key = `${dataRowIndex}-${colName}`;
-              setSelectedCellKey(key);
+              setSelectedCellKey(getCellKey(getRowId(data[dataRowIndex]), colName));
               return;
             }
           }
@@ -118,7 +164,7 @@ export const UniverSheet = forwardRef<UniverSheetRef, UniverSheetProps>(({
         subscription.unsubscribe();
       }
     };
-  }, [columns, data.length]);
+  }, [columns, data]);
 
   // Helper function to read all data from sheet (columns + rows)
   const readDataFromSheet = useCallback(() => {
@@ -171,13 +217,38 @@ export const UniverSheet = forwardRef<UniverSheetRef, UniverSheetProps>(({
       if (!hasData) break;
       sheetData.push(row);
     }
+    readRowIds(sheet, sheetData.length, sheetColumns.length).forEach((rowId, index) => {
+      if (rowId) sheetData[index][ROW_ID_FIELD] = rowId;
+    });
 
-    return { columns: sheetColumns, data: sheetData };
+    // Rows inserted in the sheet have no id yet, and copied rows share their source's
+    return { columns: sheetColumns, data: ensureRowIds(sheetData) };
   }, [columns.length, data.length]);
 
 
+  const getActiveSheet = useCallback(() => {
+    if (!univerInstanceRef.current) return null;
+    return univerInstanceRef.current.univerAPI.getActiveWorkbook()?.getActiveSheet() || null;
+  }, []);
+
   // Expose syncData method via ref for manual sync button
   useImperativeHandle(ref, () => ({
+    getSelectedRowIndices: () => {
+      const sheet = getActiveSheet();
+      const ranges: any[] = sheet?.getSelection()?.getActiveRangeList() || [];
+      const indices = new Set<number>();
+      ranges.forEach(range => {
+        // Sheet row 0 is the header, so data row i sits on sheet row i + 1
+        for (let row = Math.max(1, range.getRow()); row <= range.getLastRow() && row <= data.length; row++) {
+          indices.add(row - 1);
+        }
+      });
+      return Array.from(indices).sort((a, b) => a - b);
+    },
+    getVisibleRowIndices: () => {
+      const hidden = new Set<number>(getActiveSheet()?.getFilter()?.getFilteredOutRows() || []);
+      return data.map((_, index) => index).filter(index => !hidden.has(index + 1));
+    },
     syncData: () => {
       const result = readDataFromSheet();
       if (!result) return;
@@ -194,12 +265,12 @@ export const UniverSheet = forwardRef<UniverSheetRef, UniverSheetProps>(({
         }
       }
 
-      // Always update data if row count changed
-      if (newData.length !== data.length && onDataChange) {
+      // Always update data if rows were added, removed or reordered
+      if (rowsChanged(newData, data) && onDataChange) {
         onDataChange(newData);
       }
     }
-  }), [readDataFromSheet, columns, data.length, onColumnsChange, onDataChange]);
+  }), [readDataFromSheet, getActiveSheet, columns, data, onColumnsChange, onDataChange]);
 
   // Sync columns and data from sheet when user presses Enter/Tab/Escape/Delete
   // IMPORTANT: Only use keyboard events - no mouse events that interfere with cell selection
@@ -218,8 +289,8 @@ export const UniverSheet = forwardRef<UniverSheetRef, UniverSheetProps>(({
       const columnsChanged = newColumns.length !== columns.length ||
         newColumns.some((col, i) => col !== columns[i]);
 
-      // Check if data changed (row count changed - either added or removed)
-      const rowCountChanged = newData.length !== data.length;
+      // Check if data changed (rows added, removed or reordered)
+      const rowCountChanged = rowsChanged(newData, data);
 
       if (columnsChanged) {
         if (onColumnsChange) {
@@ -269,73 +340,6 @@ export const UniverSheet = forwardRef<UniverSheetRef, UniverSheetProps>(({
     };
   }, []);
 
-  const closeDuplicateModal = () => {
-    setShowDuplicateModal(false);
-    setSelectedColumns([]);
-  };
-
-  // Calculate duplicates based on selected columns
-  const calculateDuplicates = useCallback(() => {
-    if (selectedColumns.length === 0) {
-      setDuplicateCount(null);
-      return;
-    }
-
-    const seen = new Set<string>();
-    let duplicates = 0;
-
-    data.forEach(row => {
-      const key = selectedColumns.map(col => row[col] || '').join('|||');
-      if (seen.has(key)) {
-        duplicates++;
-      } else {
-        seen.add(key);
-      }
-    });
-
-    setDuplicateCount(duplicates);
-  }, [data, selectedColumns]);
-
-  useEffect(() => {
-    calculateDuplicates();
-  }, [selectedColumns, calculateDuplicates]);
-
-  const handleRemoveDuplicates = () => {
-    if (selectedColumns.length === 0 || !onDataChange) return;
-
-    const seen = new Set<string>();
-    const uniqueData: CsvRow[] = [];
-
-    data.forEach(row => {
-      const key = selectedColumns.map(col => row[col] || '').join('|||');
-      if (!seen.has(key)) {
-        seen.add(key);
-        uniqueData.push(row);
-      }
-    });
-
-    const removed = data.length - uniqueData.length;
-    onDataChange(uniqueData);
-    closeDuplicateModal();
-    alert(`Removed ${removed} duplicate row${removed !== 1 ? 's' : ''}.`);
-  };
-
-  const toggleColumn = (col: string) => {
-    setSelectedColumns(prev =>
-      prev.includes(col)
-        ? prev.filter(c => c !== col)
-        : [...prev, col]
-    );
-  };
-
-  const selectAllColumns = () => {
-    setSelectedColumns(columns);
-  };
-
-  const clearSelection = () => {
-    setSelectedColumns([]);
-  };
-
   // Function to update only changed cells incrementally without recreating the sheet
   const updateCellsIncrementally = useCallback(() => {
     if (!univerInstanceRef.current) return;
@@ -361,9 +365,15 @@ export const UniverSheet = forwardRef<UniverSheetRef, UniverSheetProps>(({
       }
     });
 
+    // Rows whose id changed position need their hidden id metadata rewritten
+    const rowIdsToUpdate: Array<{ row: number; rowId?: string }> = [];
+
     // Check data rows - only update cells that changed
     data.forEach((row, rowIndex) => {
       const prevRow = prevData[rowIndex];
+      if (!prevRow || getRowId(prevRow) !== getRowId(row)) {
+        rowIdsToUpdate.push({ row: rowIndex + 1, rowId: getRowId(row) });
+      }
       columns.forEach((col, colIndex) => {
         const newValue = row[col] || '';
         const oldValue = prevRow?.[col] || '';
@@ -376,6 +386,18 @@ export const UniverSheet = forwardRef<UniverSheetRef, UniverSheetProps>(({
       });
     });
 
+    // Clear rows left over after rows were removed, so they are not read back into the data
+    for (let rowIndex = data.length; rowIndex < prevData.length; rowIndex++) {
+      rowIdsToUpdate.push({ row: rowIndex + 1 });
+      columns.forEach((col, colIndex) => {
+        if (prevData[rowIndex][col]) {
+          cellsToUpdate.push({ row: rowIndex + 1, col: colIndex, value: '', isHighlighted: false, isHeader: false });
+        }
+      });
+    }
+
+    isWritingRef.current = true;
+
     // Batch update changed cells only
     if (cellsToUpdate.length > 0) {
       cellsToUpdate.forEach(({ row, col, value, isHighlighted, isHeader }) => {
@@ -405,8 +427,58 @@ export const UniverSheet = forwardRef<UniverSheetRef, UniverSheetProps>(({
         }
       });
     }
+
+    if (rowIdsToUpdate.length > 0 && columns.length > 0) {
+      rowIdsToUpdate.forEach(({ row, rowId }) => {
+        sheet.getRange(`A${row + 1}`)?.setCustomMetaData(rowId ? { rowId } : {});
+      });
+    }
+
+    isWritingRef.current = false;
   }, [data, columns, highlightColumns]);
 
+  // Flag cells that failed output type validation in red and low-confidence cells in amber.
+  // Reviewed cells take their review colour instead; cells no longer flagged get their plain style back.
+  useEffect(() => {
+    if (!univerInstanceRef.current) return;
+
+    const workbook = univerInstanceRef.current.univerAPI.getActiveWorkbook();
+    const sheet = workbook?.getActiveSheet();
+    if (!sheet) return;
+
+    const rowPositions = indexRowIds(data);
+    const styles = new Map<string, [string, string]>();
+    Object.entries(cellConfidence).forEach(([key, confidence]) => {
+      if (isLowConfidence(confidence)) styles.set(key, ['#FEF3C7', '#92400E']);
+    });
+    Object.keys(invalidCells).forEach(key => styles.set(key, ['#FEE2E2', '#B91C1C']));
+    Object.entries(cellProvenance).forEach(([key, record]) => {
+      const status = getReviewStatus(record);
+      if (status !== 'unreviewed') styles.set(key, REVIEW_CELL_STYLES[status]);
+    });
+
+    const styleCell = (key: string, style?: [string, string]) => {
+      const { rowId, column } = parseCellKey(key);
+      const rowIndex = rowPositions.get(rowId);
+      const colIndex = columns.indexOf(column);
+      if (rowIndex === undefined || colIndex === -1) return;
+
+      const range = sheet.getRange(`${getColumnLetter(colIndex)}${rowIndex + 2}`);
+      if (!range) return;
+      const [background, font] = style || (highlightColumns.includes(column)
+        ? ['#F5F3FF', '#5B21B6']
+        : [rowIndex % 2 === 0 ? '#F8FAFC' : '#FFFFFF', '#000000']);
+      range.setBackgroundColor(background);
+      range.setFontColor(font);
+    };
+
+    styledCellsRef.current.forEach(key => {
+      if (!styles.has(key)) styleCell(key);
+    });
+    styles.forEach((style, key) => styleCell(key, style));
+    styledCellsRef.current = new Set(styles.keys());
+  }, [invalidCells, cellConfidence, cellProvenance, columns, data, highlightColumns]);
+
   // Check if we need a full rebuild of the sheet
   // This happens only when columns are removed or reordered (not for adding new columns)
   const columnsRequireRebuild = useCallback(() => {
@@ -426,10 +498,12 @@ export const UniverSheet = forwardRef<UniverSheetRef, UniverSheetProps>(({
   const columnsRef = useRef(columns);
   const onColumnsChangeRef = useRef(onColumnsChange);
   const onDataChangeRef = useRef(onDataChange);
+  const onCellUpdateRef = useRef(onCellUpdate);
   dataRef.current = data;
   columnsRef.current = columns;
   onColumnsChangeRef.current = onColumnsChange;
   onDataChangeRef.current = onDataChange;
+  onCellUpdateRef.current = onCellUpdate;
 
   // Initialize Univer instance - stable function that reads from refs
   const initializeUniver = useCallback(() => {
@@ -491,7 +565,7 @@ export const UniverSheet = forwardRef<UniverSheetRef, UniverSheetProps>(({
       univerInstanceRef.current = { univer, univerAPI };
 
       // Build workbook data inline using current refs
-      const cellData: Record<number, Record<number, { v: string; s?: any }>> = {};
+      const cellData: Record<number, Record<number, { v: string; s?: any; custom?: { rowId: string } }>> = {};
       cellData[0] = {};
       currentColumns.forEach((col, colIndex) => {
         const isHighlighted = highlightColumns.includes(col);
@@ -506,7 +580,8 @@ export const UniverSheet = forwardRef<UniverSheetRef, UniverSheetProps>(({
           const isHighlighted = highlightColumns.includes(col);
           cellData[rowIndex + 1][colIndex] = {
             v: row[col] || '',
-            s: isHighlighted ? 'cellHighlight' : (rowIndex % 2 === 0 ? 'evenRow' : undefined)
+            s: isHighlighted ? 'cellHighlight' : (rowIndex % 2 === 0 ? 'evenRow' : undefined),
+            ...(colIndex === 0 ? { custom: { rowId: getRowId(row) } } : {}),
           };
         });
       });
@@ -597,7 +672,7 @@ export const UniverSheet = forwardRef<UniverSheetRef, UniverSheetProps>(({
 
           // Read data rows
           const sheetData: CsvRow[] = [];
-          const maxRows = 500;
+          const maxRows = Math.max(dataRef.current.length + 50, 500);
           for (let rowIdx = 1; rowIdx < maxRows; rowIdx++) {
             const row: CsvRow = {};
             let hasData = false;
@@ -616,6 +691,9 @@ export const UniverSheet = forwardRef<UniverSheetRef, UniverSheetProps>(({
             if (!hasData) break;
             sheetData.push(row);
           }
+          readRowIds(sheet, sheetData.length, sheetColumns.length).forEach((rowId, index) => {
+            if (rowId) sheetData[index][ROW_ID_FIELD] = rowId;
+          });
 
           // Sync columns if changed
           if (onColumnsChangeRef.current) {
@@ -626,11 +704,11 @@ export const UniverSheet = forwardRef<UniverSheetRef, UniverSheetProps>(({
             }
           }
 
-          // Sync data if changed
+          // Sync data if rows were added, removed or reordered (e.g. sorted)
           if (onDataChangeRef.current) {
-            const dataChanged = sheetData.length !== dataRef.current.length;
-            if (dataChanged) {
-              onDataChangeRef.current(sheetData);
+            const rows = ensureRowIds(sheetData);
+            if (rowsChanged(rows, dataRef.current)) {
+              onDataChangeRef.current(rows);
             }
           }
         }, 300);
@@ -682,12 +760,33 @@ export const UniverSheet = forwardRef<UniverSheetRef, UniverSheetProps>(({
               }
             }
 
+            // Report values the user typed into existing data cells
+            if (cellValue && !isWritingRef.current && onCellUpdateRef.current) {
+              const sheet = univerAPI.getActiveWorkbook()?.getActiveSheet();
+              Object.keys(cellValue).forEach((rowIndexStr) => {
+                const dataRowIndex = parseInt(rowIndexStr, 10) - 1;
+                const row = dataRef.current[dataRowIndex];
+                if (!sheet || !row) return;
+                Object.keys(cellValue[rowIndexStr]).forEach((colIndexStr) => {
+                  const colIndex = parseInt(colIndexStr, 10);
+                  const colName = columnsRef.current[colIndex];
+                  if (!colName) return;
+                  const value = sheet.getRange(`${getColumnLetter(colIndex)}${dataRowIndex + 2}`)?.getValue();
+                  const strValue = value != null ? String(value).trim() : '';
+                  if (strValue !== (row[colName] || '').trim()) {
+                    onCellUpdateRef.current?.(dataRowIndex, colName, strValue);
+                  }
+                });
+              });
+            }
+
             // Sync all changes to React state
             syncDataToReact();
           }
 
-          // Also listen for row/column insert/remove operations
-          if (command.id?.includes('insert-row') ||
+          // Also listen for row/column insert/remove operations and sorting
+          if (command.id === 'sheet.mutation.reorder-range' ||
+              command.id?.includes('insert-row') ||
               command.id?.includes('remove-row') ||
               command.id?.includes('insert-col') ||
               command.id?.includes('remove-col') ||
@@ -791,16 +890,21 @@ export const UniverSheet = forwardRef<UniverSheetRef, UniverSheetProps>(({
     );
   }
 
+  const rowPositions = indexRowIds(data);
+
   // Get cell display info from key
   const getCellInfo = (key: string) => {
-    const [rowIndexStr, colName] = key.split('-');
-    const rowIndex = parseInt(rowIndexStr, 10);
+    const { rowId, column: colName } = parseCellKey(key);
+    const rowIndex = rowPositions.get(rowId) ?? -1;
     const cellValue = data[rowIndex]?.[colName] || '';
     return { rowIndex: rowIndex + 1, colName, cellValue };
   };
 
-  // All cells with sources
-  const sourcedCells = Object.keys(cellSources);
+  // All AI-filled cells (with provenance), validation errors or a confidence score, in rows that still exist
+  const allCells = Array.from(new Set([...Object.keys(cellProvenance), ...Object.keys(invalidCells), ...Object.keys(cellConfidence)]))
+    .filter(key => rowPositions.has(parseCellKey(key).rowId));
+  const lowConfidenceCount = allCells.filter(key => isLowConfidence(cellConfidence[key])).length;
+  const sourcedCells = showLowConfidenceOnly ? allCells.filter(key => isLowConfidence(cellConfidence[key])) : allCells;
 
   return (
     <div className="flex h-[700px] bg-white border border-slate-300 rounded-lg shadow-sm overflow-hidden">
@@ -815,7 +919,7 @@ export const UniverSheet = forwardRef<UniverSheetRef, UniverSheetProps>(({
       </div>
 
       {/* Sources Sidebar Toggle Button - shows when there are cells with sources */}
-      {sourcedCells.length > 0 && !isSidebarOpen && (
+      {allCells.length > 0 && !isSidebarOpen && (
         <button
           onClick={() => setIsSidebarOpen(true)}
           className="w-10 border-l border-slate-200 bg-slate-50 hover:bg-slate-100 flex flex-col items-center justify-center gap-2 transition-colors"
@@ -824,13 +928,13 @@ export const UniverSheet = forwardRef<UniverSheetRef, UniverSheetProps>(({
           <PanelRightOpen className="w-4 h-4 text-slate-500" />
           <div className="flex flex-col items-center">
             <Link2 className="w-4 h-4 text-blue-600" />
-            <span className="text-xs text-slate-500 font-medium mt-1">{sourcedCells.length}</span>
+            <span className="text-xs text-slate-500 font-medium mt-1">{allCells.length}</span>
           </div>
         </button>
       )}
 
       {/* Sources Sidebar - shows when there are cells with sources and sidebar is open */}
-      {sourcedCells.length > 0 && isSidebarOpen && (
+      {allCells.length > 0 && isSidebarOpen && (
         <div className="w-72 border-l border-slate-200 bg-slate-50 flex flex-col">
           {/* Sidebar Header */}
           <div className="p-3 border-b border-slate-200 bg-white">
@@ -850,13 +954,27 @@ export const UniverSheet = forwardRef<UniverSheetRef, UniverSheetProps>(({
                 <PanelRightClose className="w-4 h-4" />
               </button>
             </div>
+            {lowConfidenceCount > 0 && (
+              <label className="flex items-center gap-2 mt-2 text-xs text-slate-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={showLowConfidenceOnly}
+                  onChange={(e) => setShowLowConfidenceOnly(e.target.checked)}
+                  className="rounded border-slate-300 text-amber-600 focus:ring-amber-500"
+                />
+                Only low confidence ({lowConfidenceCount})
+              </label>
+            )}
           </div>
 
           {/* Cells List */}
           <div className="flex-1 overflow-y-auto">
             {sourcedCells.map(key => {
               const { rowIndex, colName, cellValue } = getCellInfo(key);
-              const sources = cellSources[key];
+              const provenance = cellProvenance[key];
+              const sources = provenance?.sources || [];
+              const validationError = invalidCells[key];
+              const confidence = cellConfidence[key];
               const isSelected = selectedCellKey === key;
 
               return (
@@ -873,30 +991,167 @@ export const UniverSheet = forwardRef<UniverSheetRef, UniverSheetProps>(({
                       <span className="text-xs font-medium text-slate-500">
                         Row {rowIndex} · {colName}
                       </span>
-                      <Link2 className="w-3.5 h-3.5 text-blue-500" />
+                      <span className="flex items-center gap-1.5">
+                        {confidence !== undefined && (
+                          <span
+                            className={`text-[10px] font-semibold px-1.5 py-0.5 rounded ${
+                              isLowConfidence(confidence) ? 'bg-amber-100 text-amber-800' : 'bg-emerald-50 text-emerald-700'
+                            }`}
+                            title="Confidence"
+                          >
+                            {formatConfidence(confidence)}
+                          </span>
+                        )}
+                        {provenance && (
+                          <span
+                            className={`text-[10px] font-semibold px-1.5 py-0.5 rounded ${REVIEW_BADGE_STYLES[getReviewStatus(provenance)]}`}
+                            title="Review status"
+                          >
+                            {getReviewLabel(getReviewStatus(provenance))}
+                          </span>
+                        )}
+                        {provenance?.editedAt && (
+                          <span title="Edited by hand"><Pencil className="w-3.5 h-3.5 text-slate-500" /></span>
+                        )}
+                        {validationError
+                          ? <AlertTriangle className="w-3.5 h-3.5 text-red-500" />
+                          : <Link2 className="w-3.5 h-3.5 text-blue-500" />}
+                      </span>
                     </div>
                     <p className="text-sm text-slate-700 line-clamp-2">
                       {cellValue || <span className="italic text-slate-400">Empty</span>}
                     </p>
+                    {validationError && (
+                      <p className="text-xs text-red-600 mt-1">{validationError}</p>
+                    )}
+                    {provenance?.review?.note && (
+                      <p className="text-xs text-rose-700 mt-1">Reviewer: {provenance.review.note}</p>
+                    )}
                   </button>
 
-                  {/* Expanded Sources */}
-                  {isSelected && sources && (
-                    <div className="px-3 pb-3 bg-slate-800 text-white mx-2 mb-2 rounded-lg">
-                      <div className="text-xs font-semibold text-blue-300 py-2">Sources</div>
+                  {/* Expanded Provenance */}
+                  {isSelected && provenance && (
+                    <div className="px-3 pb-3 bg-slate-800 text-white mx-2 mb-2 rounded-lg text-xs">
+                      <div className="font-semibold text-blue-300 py-2">Provenance</div>
+                      <dl className="grid grid-cols-[auto_1fr] gap-x-2 gap-y-1 text-slate-300">
+                        <dt className="text-slate-400">Model</dt>
+                        <dd className="break-all">{provenance.model || 'Unknown'}{provenance.fromCache ? ' (cached)' : ''}</dd>
+                        <dt className="text-slate-400">Generated</dt>
+                        <dd>{new Date(provenance.generatedAt).toLocaleString()}</dd>
+                        {provenance.promptVersion && (
+                          <>
+                            <dt className="text-slate-400">Prompt</dt>
+                            <dd className="font-mono">v{provenance.promptVersion}</dd>
+                          </>
+                        )}
+                        {provenance.retries !== undefined && (
+                          <>
+                            <dt className="text-slate-400">Retries</dt>
+                            <dd>{provenance.retries}</dd>
+                          </>
+                        )}
+                        {provenance.copiedFrom && (
+                          <>
+                            <dt className="text-slate-400">Copied from</dt>
+                            <dd>Row {data.findIndex(row => getRowId(row) === provenance.copiedFrom) + 1 || '(removed)'} of the same entity</dd>
+                          </>
+                        )}
+                        {provenance.editedAt && (
+                          <>
+                            <dt className="text-slate-400">Edited</dt>
+                            <dd>{new Date(provenance.editedAt).toLocaleString()} (agent wrote "{provenance.value}")</dd>
+                          </>
+                        )}
+                        {provenance.review && (
+                          <>
+                            <dt className="text-slate-400">Review</dt>
+                            <dd>{getReviewLabel(provenance.review.status)} {new Date(provenance.review.reviewedAt).toLocaleString()}</dd>
+                          </>
+                        )}
+                        {provenance.sourcePolicy && (
+                          <>
+                            <dt className="text-slate-400">Source policy</dt>
+                            <dd className="break-all">
+                              {summarizeSourcePolicy(provenance.sourcePolicy.policy)}
+                              {provenance.sourcePolicy.violation && (
+                                <span className="text-amber-300"> ({provenance.sourcePolicy.violation}: no source met the policy)</span>
+                              )}
+                            </dd>
+                          </>
+                        )}
+                        {provenance.sourcePolicy && provenance.sourcePolicy.rejectedSources.length > 0 && (
+                          <>
+                            <dt className="text-slate-400">Dropped</dt>
+                            <dd className="break-all text-slate-400 line-through">
+                              {provenance.sourcePolicy.rejectedSources.map(source => getSourceDomain(source) || source.uri).join(', ')}
+                            </dd>
+                          </>
+                        )}
+                      </dl>
+                      {[
+                        { label: 'Prompt sent', text: provenance.prompt },
+                        { label: 'Context sent', text: provenance.context },
+                        { label: 'Raw response', text: provenance.rawResponse },
+                      ].filter(({ text }) => text).map(({ label, text }) => (
+                        <details key={label} className="mt-2">
+                          <summary className="cursor-pointer text-blue-300 hover:text-blue-200">{label}</summary>
+                          <pre className="mt-1 max-h-40 overflow-y-auto whitespace-pre-wrap break-words text-slate-300 font-mono text-[11px]">{text}</pre>
+                        </details>
+                      ))}
+                      {provenance.agentTrace && (
+                        <details className="mt-2">
+                          <summary className="cursor-pointer text-blue-300 hover:text-blue-200">
+                            Agent trace ({summarizeAgentTrace(provenance.agentTrace)})
+                          </summary>
+                          <ol className="mt-1 space-y-2 max-h-72 overflow-y-auto">
+                            {provenance.agentTrace.steps.map((step, stepIndex) => (
+                              <li key={stepIndex} className="border-l-2 border-slate-600 pl-2">
+                                <div className="text-slate-400 text-[10px] uppercase">
+                                  {stepIndex + 1}. {step.kind} · {formatDuration(step.durationMs)}
+                                </div>
+                                {step.thought && <p className="text-slate-300 italic">{step.thought}</p>}
+                                {step.kind === 'plan' && step.queries && step.queries.length > 0 && (
+                                  <p className="text-slate-400">Next: {step.queries.join(' · ')}</p>
+                                )}
+                                {step.query && <p className="text-slate-200 font-medium">{step.query}</p>}
+                                {step.findings && <p className="text-slate-300 whitespace-pre-wrap break-words">{step.findings}</p>}
+                                {step.sources && step.sources.length > 0 && (
+                                  <p className="text-slate-400 break-all">
+                                    {step.sources.map(source => getSourceDomain(source) || source.uri).join(', ')}
+                                  </p>
+                                )}
+                              </li>
+                            ))}
+                          </ol>
+                        </details>
+                      )}
+                      {sources.length > 0 && <div className="font-semibold text-blue-300 pt-3 pb-2">Sources</div>}
                       <ul className="space-y-1.5">
                         {sources.map((source, idx) => (
                           <li key={idx} className="flex items-start gap-2">
                             <span className="text-slate-400 text-xs mt-0.5">{idx + 1}.</span>
-                            <a
-                              href={source.uri}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="text-xs text-blue-300 hover:text-blue-200 hover:underline flex items-center gap-1 break-all"
-                            >
-                              {source.title || (() => { try { return new URL(source.uri).hostname; } catch { return source.uri; } })()}
-                              <ExternalLink className="w-3 h-3 flex-shrink-0" />
-                            </a>
+                            {source.document ? (
+                              // Passage of a local document: no link, show where it is and what it says
+                              <div className="text-xs min-w-0">
+                                <div className="flex items-center gap-1 text-emerald-300 break-all">
+                                  <FileText className="w-3 h-3 flex-shrink-0" />
+                                  {source.title}
+                                </div>
+                                <p className="mt-0.5 text-slate-400 italic line-clamp-3" title={source.document.excerpt}>
+                                  "{source.document.excerpt}"
+                                </p>
+                              </div>
+                            ) : (
+                              <a
+                                href={source.uri}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-xs text-blue-300 hover:text-blue-200 hover:underline flex items-center gap-1 break-all"
+                              >
+                                {source.title || (() => { try { return new URL(source.uri).hostname; } catch { return source.uri; } })()}
+                                <ExternalLink className="w-3 h-3 flex-shrink-0" />
+                              </a>
+                            )}
                           </li>
                         ))}
                       </ul>
@@ -909,106 +1164,13 @@ export const UniverSheet = forwardRef<UniverSheetRef, UniverSheetProps>(({
         </div>
       )}
 
-      {/* Remove Duplicates Modal */}
-      {showDuplicateModal && (
-        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[9999]">
-          <div className="bg-white rounded-xl shadow-2xl w-full max-w-md mx-4 overflow-hidden">
-            {/* Modal Header */}
-            <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
-              <h3 className="text-lg font-semibold text-slate-900">Remove Duplicates</h3>
-              <button
-                onClick={closeDuplicateModal}
-                className="p-1 text-slate-400 hover:text-slate-600 rounded-md hover:bg-slate-100"
-              >
-                <X className="w-5 h-5" />
-              </button>
-            </div>
-
-            {/* Modal Body */}
-            <div className="px-6 py-4">
-              <p className="text-sm text-slate-600 mb-4">
-                Select columns to check for duplicate values. Rows with identical values in all selected columns will be removed.
-              </p>
-
-              {/* Quick Actions */}
-              <div className="flex gap-2 mb-3">
-                <button
-                  onClick={selectAllColumns}
-                  className="text-xs text-blue-600 hover:text-blue-800 font-medium"
-                >
-                  Select All
-                </button>
-                <span className="text-slate-300">|</span>
-                <button
-                  onClick={clearSelection}
-                  className="text-xs text-blue-600 hover:text-blue-800 font-medium"
-                >
-                  Clear
-                </button>
-              </div>
-
-              {/* Column Checkboxes */}
-              <div className="max-h-60 overflow-y-auto border border-slate-200 rounded-lg">
-                {columns.map((col, idx) => (
-                  <label
-                    key={col}
-                    className={`flex items-center gap-3 px-3 py-2 cursor-pointer hover:bg-slate-50 ${
-                      idx !== columns.length - 1 ? 'border-b border-slate-100' : ''
-                    }`}
-                  >
-                    <input
-                      type="checkbox"
-                      checked={selectedColumns.includes(col)}
-                      onChange={() => toggleColumn(col)}
-                      className="w-4 h-4 text-blue-600 rounded border-slate-300 focus:ring-blue-500"
-                    />
-                    <span className="text-sm text-slate-700">{col}</span>
-                    {selectedColumns.includes(col) && (
-                      <Check className="w-4 h-4 text-blue-600 ml-auto" />
-                    )}
-                  </label>
-                ))}
-              </div>
-
-              {/* Duplicate Count */}
-              {duplicateCount !== null && (
-                <div className={`mt-4 p-3 rounded-lg ${
-                  duplicateCount > 0
-                    ? 'bg-amber-50 border border-amber-200'
-                    : 'bg-green-50 border border-green-200'
-                }`}>
-                  {duplicateCount > 0 ? (
-                    <p className="text-sm text-amber-800">
-                      <strong>{duplicateCount}</strong> duplicate row{duplicateCount !== 1 ? 's' : ''} found based on selected columns.
-                    </p>
-                  ) : (
-                    <p className="text-sm text-green-800">
-                      No duplicates found based on selected columns.
-                    </p>
-                  )}
-                </div>
-              )}
-            </div>
-
-            {/* Modal Footer */}
-            <div className="flex justify-end gap-3 px-6 py-4 border-t border-slate-200 bg-slate-50">
-              <button
-                onClick={closeDuplicateModal}
-                className="px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-50"
-              >
-                Cancel
-              </button>
-              <button
-                onClick={handleRemoveDuplicates}
-                disabled={selectedColumns.length === 0 || duplicateCount === 0 || !onDataChange}
-                className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                Remove {duplicateCount || 0} Duplicate{duplicateCount !== 1 ? 's' : ''}
-              </button>
-            </div>
-          </div>
-        </div>
-      )}
+      <RemoveDuplicatesModal
+        isOpen={showDuplicateModal}
+        onClose={() => setShowDuplicateModal(false)}
+        columns={columns}
+        data={data}
+        onRemove={onDataChange}
+      />
     </div>
   );
 });
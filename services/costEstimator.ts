@@ -0,0 +1,118 @@
+import { ResearchConfig, TokenUsage } from "../types";
+import { addUsage, emptyUsage, getLlmProvider, ModelTier, scaleUsage } from "./llmProvider";
+import { estimateCost } from "./modelPricing";
+import { DocumentIndex } from "../utils/documentIndex";
+import { isAgentTask } from "../utils/taskModes";
+import { getAgentBudget, getRequestKey, renderJobPrompt, ResearchJob } from "./researchJobs";
+
+export interface RunEstimate {
+  jobs: number;
+  // Model requests for the answers; fewer than jobs when cells share a request
+  requests: number;
+  // Model calls, including verifier calls
+  calls: number;
+  usage: TokenUsage;
+  cost: number;
+  // Whether output sizes come from answers observed earlier instead of defaults
+  fromHistory: boolean;
+}
+
+// Typical tokens per research answer before any have been observed
+const DEFAULT_ANSWER_USAGE: Record<ModelTier, Omit<TokenUsage, 'promptTokens' | 'totalTokens'>> = {
+  fast: { outputTokens: 150, thinkingTokens: 600, groundingTokens: 400 },
+  thinking: { outputTokens: 250, thinkingTokens: 4000, groundingTokens: 600 },
+};
+// A verifier call reads the answer and its source list and replies with a short verdict
+const VERIFIER_USAGE: TokenUsage = { promptTokens: 400, outputTokens: 60, thinkingTokens: 300, groundingTokens: 300, totalTokens: 1060 };
+
+const PROMPT_SAMPLE_SIZE = 25;
+const MIN_HISTORY_SAMPLES = 3;
+const MAX_HISTORY_SAMPLES = 200;
+
+// Usage of recent research answers per model, used to predict output sizes
+const history = new Map<string, TokenUsage[]>();
+
+/**
+ * Records the usage of a finished research answer so later estimates reflect real output sizes.
+ */
+export const recordUsageSample = (model: string | undefined, usage: TokenUsage | undefined) => {
+  if (!model || !usage || usage.totalTokens === 0) return;
+  const samples = history.get(model) || [];
+  samples.push(usage);
+  if (samples.length > MAX_HISTORY_SAMPLES) samples.shift();
+  history.set(model, samples);
+};
+
+const average = (values: number[]) => values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+const withTotal = (usage: Omit<TokenUsage, 'totalTokens'>): TokenUsage => ({
+  ...usage,
+  totalTokens: usage.promptTokens + usage.outputTokens + usage.thinkingTokens + usage.groundingTokens,
+});
+
+// An agent job can plan and search once per step, then answer
+const countAgentCalls = (job: ResearchJob) => 2 * getAgentBudget(job.payload.task).maxSteps + 1;
+
+// One job per model request: jobs sharing a combined or multi-row request count once
+const collectRequests = (jobs: ResearchJob[]) => {
+  const seen = new Set<string>();
+  return jobs.filter(job => {
+    const key = getRequestKey(job);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/**
+ * Predicts the tokens and cost of running `jobs`: prompt sizes come from a sample of the
+ * rendered prompts (~4 characters per token), answer sizes from earlier answers on the same
+ * model or defaults. Document-grounded prompts include their excerpts from `documents`. Agent
+ * jobs are counted at their full step budget. Escalated re-runs are not included.
+ */
+export const estimateRun = (jobs: ResearchJob[], config: ResearchConfig, documents?: DocumentIndex): RunEstimate => {
+  const tier: ModelTier = config.useThinkingModel ? 'thinking' : 'fast';
+  const provider = getLlmProvider();
+  const model = provider.resolveModel(tier);
+
+  const requests = collectRequests(jobs);
+
+  // Evenly spaced sample across the run, since context sizes vary by row
+  const step = Math.max(1, Math.floor(requests.length / PROMPT_SAMPLE_SIZE));
+  const sample = requests.filter((_, index) => index % step === 0).slice(0, PROMPT_SAMPLE_SIZE);
+  const promptTokens = average(sample.map(job => Math.ceil(renderJobPrompt(job, documents).length / 4)));
+
+  const samples = history.get(model) || [];
+  const fromHistory = samples.length >= MIN_HISTORY_SAMPLES;
+  const answer = fromHistory
+    ? {
+        outputTokens: average(samples.map(s => s.outputTokens)),
+        thinkingTokens: average(samples.map(s => s.thinkingTokens)),
+        groundingTokens: average(samples.map(s => s.groundingTokens)),
+      }
+    : DEFAULT_ANSWER_USAGE[tier];
+
+  // A shared request writes one answer per cell but searches and reasons once
+  const answersPerRequest = requests.length ? jobs.length / requests.length : 1;
+  const perRequest = withTotal({ promptTokens, ...answer, outputTokens: answer.outputTokens * answersPerRequest });
+  const modelCalls = requests.reduce((sum, job) => sum + (isAgentTask(job.payload.task) ? countAgentCalls(job) : 1), 0);
+  let usage = scaleUsage(perRequest, modelCalls);
+  let cost = estimateCost(model, usage);
+
+  // Offline cells are never verified
+  const verified = jobs.filter(job => job.payload.verify).length;
+  if (verified > 0) {
+    const verifierUsage = scaleUsage(VERIFIER_USAGE, verified);
+    usage = addUsage(usage, verifierUsage);
+    cost += estimateCost(provider.resolveModel('fast'), verifierUsage);
+  }
+
+  return {
+    jobs: jobs.length,
+    requests: requests.length,
+    calls: modelCalls + verified,
+    usage: jobs.length ? usage : emptyUsage(),
+    cost,
+    fromHistory,
+  };
+};
@@ -1,89 +1,891 @@
+import { AgentBudget, AgentStep, AgentTrace, OutputSpec, ResearchResult, ResearchTask, SourcePolicy, Verification } from "../types";
+import { extractConfidenceLine, isSelfConfidence, withConfidence } from "../utils/confidence";
+import { DocumentChunk, formatDocumentLocation, toDocumentSource } from "../utils/documentIndex";
+import { describeSourcePolicy } from "../utils/sourcePolicy";
+import { isTaskMode, OfflineTaskMode } from "../utils/taskModes";
+import { buildCombinedResponseSchema, buildResponseSchema, describeOutputFormat, isOutputType, isStructuredOutput, parseModelJson, validateOutput } from "../utils/outputSchema";
+import { addUsage, emptyUsage, getLlmProvider, LlmProvider, ModelTier, reportUsage, scaleUsage, setDefaultProviderFactory } from "./llmProvider";
+import { classifyError } from "./llmErrors";
+import { acquireBudget, RetryOptions, withRetry } from "./rateLimiter";
+import { createGeminiProvider } from "./providers/geminiProvider";
+import { createOpenAiCompatibleProvider } from "./providers/openAiCompatibleProvider";
+import { createMockProvider } from "./providers/mockProvider";
 
-import { GoogleGenAI } from "@google/genai";
-import { ResearchResult, Source, ResearchTask } from "../types";
+/**
+ * Builds the provider selected by the LLM_PROVIDER env var (gemini by default).
+ */
+const createProviderFromEnv = (): LlmProvider => {
+  switch (process.env.LLM_PROVIDER) {
+    case 'openai':
+      return createOpenAiCompatibleProvider({
+        baseUrl: process.env.LLM_BASE_URL || 'http://localhost:11434/v1',
+        apiKey: process.env.LLM_API_KEY || undefined,
+        fastModel: process.env.LLM_MODEL || 'llama3.1',
+        thinkingModel: process.env.LLM_THINKING_MODEL || undefined,
+      });
+    case 'mock':
+      return createMockProvider();
+    default:
+      return createGeminiProvider({ apiKey: process.env.API_KEY || '' });
+  }
+};
+
+setDefaultProviderFactory(createProviderFromEnv);
+
+export const isProviderConfigured = () => getLlmProvider().isConfigured();
+
+/**
+ * The active backend's models and whether it searches the web, for labels in the UI.
+ */
+export const describeProvider = () => {
+  const provider = getLlmProvider();
+  return {
+    name: provider.name,
+    webSearch: provider.supportsSearchGrounding,
+    fastModel: provider.resolveModel('fast'),
+    thinkingModel: provider.resolveModel('thinking'),
+  };
+};
+
+export interface ResearchOptions {
+  useThinkingModel?: boolean;
+  output?: OutputSpec;
+  signal?: AbortSignal;
+  // Called before each retry of a failed call
+  onRetry?: RetryOptions['onRetry'];
+  // Sites the answer may be based on; only steers the prompt, see utils/sourcePolicy.ts for enforcement
+  sourcePolicy?: SourcePolicy;
+}
 
-const apiKey = process.env.API_KEY || '';
-const ai = new GoogleGenAI({ apiKey });
+// Thinking models can reason for minutes; fast models should answer quickly
+const REQUEST_TIMEOUT_MS: Record<ModelTier, number> = { fast: 120_000, thinking: 600_000 };
+const ESTIMATED_OUTPUT_TOKENS: Record<ModelTier, number> = { fast: 500, thinking: 8000 };
+// Offline answers are short and need no search, so each row of a batch adds little
+const ESTIMATED_OFFLINE_OUTPUT_TOKENS = 100;
+
+// First rule of the research prompts, for backends with and without web search
+const SEARCH_RULE = 'Use the Google Search tool to find the most current information.';
+const NO_SEARCH_RULE = 'You cannot search the web. Answer from what you already know, and rate the confidence lower when it may be out of date.';
+
+/**
+ * Builds the research prompt sent for one cell. Exported so the UI can preview it.
+ */
+export const buildResearchPrompt = (
+  entityName: string,
+  userQuery: string,
+  context?: string,
+  output: OutputSpec = {},
+  sourcePolicy?: SourcePolicy
+) => {
+  const structured = isStructuredOutput(output);
+  const sourceRule = describeSourcePolicy(sourcePolicy);
+  // Backends without search grounding answer from what the model already knows
+  const webSearch = getLlmProvider().supportsSearchGrounding;
+
+  // Construct a prompt that encourages concise answers suitable for a CSV cell
+  return `
+    I have a list of items (companies, people, or URLs) in a CSV file. 
+    I need you to perform a specific research task for one row.
+    
+    Subject / Entity: "${entityName}"
+    ${context ? `Additional Context from other columns: ${context}` : ''}
+    
+    Task: ${userQuery}
+    
+    Rules:
+    1. ${webSearch ? SEARCH_RULE : NO_SEARCH_RULE}
+    2. URL HANDLING: If the "Subject" is a URL, or if a specific URL (like a LinkedIn profile or website) is provided in the "Additional Context", ${webSearch ? 'use Google Search to find content specifically associated with that page' : 'answer about the person, company or page it points to'}.
+    3. If the task asks for a specific fact (e.g. "CEO Name", "Revenue", "Website"), return ONLY the value. No sentences.
+    4. If the task asks for a description, summary, or bio, provide a concise paragraph (max 2-3 sentences).
+    5. If the requested value is a URL, return the full valid URL (starting with http/https).
+    6. If the information is not found${webSearch ? ' after searching' : ''}, return "N/A".
+    7. ${webSearch
+      ? 'LOGIN WALLS / RATE LIMITS: If a specific URL (especially LinkedIn, Facebook, Instagram) is blocked, requires a login, or returns a rate limit error, DO NOT give up. You MUST use the information available in the Google Search Snippets, Titles, and Metadata to answer the question. The search result summaries often contain the bio, current role, or company info needed.'
+      : 'Do not invent facts, URLs or numbers; return "N/A" rather than guess.'}
+    8. CONFIDENCE: Rate how sure you are of the answer as high (confirmed by several reliable sources), medium (one source or slightly dated) or low (inferred or guessed). ${structured
+      ? 'Put the rating in the "confidence" field.'
+      : 'Write it on a final separate line as "Confidence: high", "Confidence: medium" or "Confidence: low".'}
+    ${sourceRule ? `9. ${sourceRule}` : ''}
+    ${structured ? describeOutputFormat(output) : ''}
+  `;
+};
+
+// Grounded search call with rate limiting, retries and usage reporting
+const runSearchCompletion = async (
+  prompt: string,
+  tier: ModelTier,
+  { responseSchema, outputTokens = ESTIMATED_OUTPUT_TOKENS[tier], signal, onRetry }: { responseSchema?: unknown; outputTokens?: number } & Pick<ResearchOptions, 'signal' | 'onRetry'>
+) => {
+  const provider = getLlmProvider();
+  const model = provider.resolveModel(tier);
+
+  return withRetry(async (attemptSignal) => {
+    // Respect the model's requests/tokens-per-minute budget (~4 characters per token)
+    const reservation = await acquireBudget(model, Math.ceil(prompt.length / 4) + outputTokens, attemptSignal);
+    try {
+      const result = await provider.searchCompletion({
+        prompt,
+        tier,
+        // Standard configuration for Flash
+        temperature: 0.1,
+        responseSchema,
+        signal: attemptSignal,
+      });
+      reportUsage(result);
+      reservation.settle(result.usage.totalTokens);
+      return result;
+    } catch (error) {
+      throw classifyError(error);
+    }
+  }, { timeoutMs: REQUEST_TIMEOUT_MS[tier], signal, onRetry });
+};
+
+// Splits a structured answer of the form {"value": ..., "confidence": ...}
+const readStructuredAnswer = (parsed: unknown): { answer: unknown; selfConfidence?: unknown } => {
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return { answer: parsed };
+  const fields = parsed as { value?: unknown; confidence?: unknown };
+  return { answer: 'value' in fields ? fields.value : parsed, selfConfidence: fields.confidence };
+};
 
 /**
  * Researches a specific query for a given entity using Google Search Grounding.
+ * Transient failures are retried; anything else is thrown as an LlmError.
  */
 export const researchEntity = async (
   entityName: string, 
   userQuery: string, 
   context?: string,
-  useThinkingModel: boolean = false
+  { useThinkingModel = false, output = {}, signal, onRetry, sourcePolicy }: ResearchOptions = {}
 ): Promise<ResearchResult> => {
-  if (!apiKey) {
+  if (!getLlmProvider().isConfigured()) {
     throw new Error("API Key is missing. Please configure process.env.API_KEY.");
   }
 
-  // Select model based on thinking mode preference
-  // gemini-3-pro-preview supports thinkingConfig
-  const model = useThinkingModel ? 'gemini-3-pro-preview' : 'gemini-2.5-flash';
-  
-  // Construct a prompt that encourages concise answers suitable for a CSV cell
-  const prompt = `
+  const structured = isStructuredOutput(output);
+  const prompt = buildResearchPrompt(entityName, userQuery, context, output, sourcePolicy);
+
+  const tier: ModelTier = useThinkingModel ? 'thinking' : 'fast';
+  const response = await runSearchCompletion(prompt, tier, {
+    responseSchema: structured ? buildResponseSchema(output) : undefined,
+    signal,
+    onRetry,
+  });
+
+  // Structured answers come back as {"value": ..., "confidence": ...}; plain text
+  // answers end with a "Confidence: ..." line
+  let answer: unknown = response.text;
+  let selfConfidence: unknown;
+  if (structured) {
+    try {
+      ({ answer, selfConfidence } = readStructuredAnswer(parseModelJson(response.text)));
+    } catch {
+      answer = response.text;
+    }
+  } else {
+    ({ text: answer, selfConfidence } = extractConfidenceLine(response.text));
+  }
+  const validation = validateOutput(output, answer);
+
+  return withConfidence({
+    text: validation.value,
+    sources: response.sources,
+    model: response.model,
+    usage: response.usage,
+    validationError: validation.error,
+    selfConfidence: isSelfConfidence(selfConfidence) ? selfConfidence : undefined,
+    rawResponse: response.text,
+  });
+};
+
+// Document answers also say which excerpts they used
+const buildDocumentResponseSchema = (output: OutputSpec) => {
+  const schema = buildResponseSchema(output);
+  return {
+    ...schema,
+    properties: {
+      ...schema.properties,
+      citations: { type: 'array', items: { type: 'integer' }, description: 'Numbers of the excerpts the answer is based on' },
+    },
+  };
+};
+
+const formatExcerpts = (excerpts: DocumentChunk[]) => excerpts.length > 0
+  ? excerpts.map((chunk, index) => `[${index + 1}] ${formatDocumentLocation(chunk)}: ${chunk.text.replace(/\s+/g, ' ')}`).join('\n    ')
+  : 'No passage of the documents matched this task.';
+
+/**
+ * Builds the prompt answering one cell from excerpts of the run's local documents,
+ * optionally alongside Google Search. Exported so the UI can preview it.
+ */
+export const buildDocumentResearchPrompt = (
+  entityName: string,
+  userQuery: string,
+  context: string | undefined,
+  excerpts: DocumentChunk[],
+  output: OutputSpec = {},
+  { useWebSearch = false, sourcePolicy }: { useWebSearch?: boolean; sourcePolicy?: SourcePolicy } = {}
+) => {
+  // Backends without search grounding answer from the excerpts alone
+  const webSearch = useWebSearch && getLlmProvider().supportsSearchGrounding;
+  const sourceRule = webSearch ? describeSourcePolicy(sourcePolicy) : '';
+  return `
     I have a list of items (companies, people, or URLs) in a CSV file. 
-    I need you to perform a specific research task for one row.
+    I need you to perform a specific research task for one row using excerpts from my own documents${webSearch ? ' and Google Search' : ''}.
     
     Subject / Entity: "${entityName}"
     ${context ? `Additional Context from other columns: ${context}` : ''}
     
     Task: ${userQuery}
     
+    Document excerpts:
+    ${formatExcerpts(excerpts)}
+    
     Rules:
-    1. Use the Google Search tool to find the most current information.
-    2. URL HANDLING: If the "Subject" is a URL, or if a specific URL (like a LinkedIn profile or website) is provided in the "Additional Context", use Google Search to find content specifically associated with that page.
-    3. If the task asks for a specific fact (e.g. "CEO Name", "Revenue", "Website"), return ONLY the value. No sentences.
-    4. If the task asks for a description, summary, or bio, provide a concise paragraph (max 2-3 sentences).
-    5. If the requested value is a URL, return the full valid URL (starting with http/https).
-    6. If the information is not found after searching, return "N/A".
-    7. LOGIN WALLS / RATE LIMITS: If a specific URL (especially LinkedIn, Facebook, Instagram) is blocked, requires a login, or returns a rate limit error, DO NOT give up. You MUST use the information available in the Google Search Snippets, Titles, and Metadata to answer the question. The search result summaries often contain the bio, current role, or company info needed.
+    1. ${webSearch
+      ? 'Prefer the document excerpts. Use the Google Search tool for what they do not cover, or to check that they are still current.'
+      : 'Answer ONLY from the document excerpts. Do not search the web or rely on outside knowledge.'}
+    2. Excerpts can be about other subjects; only use what they say about "${entityName}".
+    3. If the task asks for a specific fact (e.g. "CEO Name", "Revenue", "Website"), give ONLY the value. No sentences.
+    4. If the task asks for a description, summary, or bio, give a concise paragraph (max 2-3 sentences).
+    5. List the numbers of the excerpts the answer is based on in "citations" (an empty list when it uses none).
+    6. If the information is not found, use {"value": null}.
+    7. CONFIDENCE: Rate how sure you are of the answer as high (stated plainly by the sources), medium (one source or slightly dated) or low (inferred or guessed) in the "confidence" field.
+    ${sourceRule ? `8. ${sourceRule}` : ''}
+    
+    Output format:
+    Respond ONLY with a JSON object (no markdown) matching this JSON schema:
+    ${JSON.stringify(buildDocumentResponseSchema(output))}
+  `;
+};
+
+// Excerpt numbers a document answer cites, limited to ones that were sent
+const readCitations = (parsed: unknown, excerptCount: number): number[] => {
+  const citations = (parsed as { citations?: unknown } | null)?.citations;
+  if (!Array.isArray(citations)) return [];
+  return Array.from(new Set(citations.map(Number)))
+    .filter(number => Number.isInteger(number) && number >= 1 && number <= excerptCount);
+};
+
+export interface DocumentResearchOptions extends ResearchOptions {
+  // Also search the web, not just the excerpts
+  useWebSearch?: boolean;
+}
+
+/**
+ * Answers a cell from excerpts of the run's local documents, also searching the web when
+ * `useWebSearch` is set. Cited excerpts become sources pointing at their document and page,
+ * listed before any web sources.
+ */
+export const researchEntityInDocuments = async (
+  entityName: string,
+  userQuery: string,
+  context: string | undefined,
+  excerpts: DocumentChunk[],
+  { useThinkingModel = false, output = {}, signal, onRetry, sourcePolicy, useWebSearch = false }: DocumentResearchOptions = {}
+): Promise<ResearchResult> => {
+  if (!getLlmProvider().isConfigured()) {
+    throw new Error("API Key is missing. Please configure process.env.API_KEY.");
+  }
+
+  const tier: ModelTier = useThinkingModel ? 'thinking' : 'fast';
+  const prompt = buildDocumentResearchPrompt(entityName, userQuery, context, excerpts, output, { useWebSearch, sourcePolicy });
+  const responseSchema = buildDocumentResponseSchema(output);
+  const response = useWebSearch && getLlmProvider().supportsSearchGrounding
+    ? await runSearchCompletion(prompt, tier, { responseSchema, signal, onRetry })
+    : await runJsonCompletion(prompt, tier, { responseSchema, temperature: 0, signal, onRetry });
+
+  let parsed: unknown;
+  try {
+    parsed = parseModelJson(response.text);
+  } catch {
+    parsed = response.text;
+  }
+  const { answer, selfConfidence } = readStructuredAnswer(parsed);
+  const validation = validateOutput(output, answer);
+  const cited = readCitations(parsed, excerpts.length).map(number => toDocumentSource(excerpts[number - 1]));
+
+  return withConfidence({
+    text: validation.value,
+    sources: [...cited, ...response.sources],
+    model: response.model,
+    usage: response.usage,
+    validationError: validation.error,
+    selfConfidence: isSelfConfidence(selfConfidence) ? selfConfidence : undefined,
+    rawResponse: response.text,
+  });
+};
+
+export const DEFAULT_AGENT_BUDGET: Required<AgentBudget> = { maxSteps: 4, maxSeconds: 90 };
+
+const AGENT_PLAN_SCHEMA = {
+  type: 'object',
+  properties: {
+    thought: { type: 'string' },
+    queries: { type: 'array', items: { type: 'string' } },
+    done: { type: 'boolean' },
+  },
+  required: ['thought', 'queries', 'done'],
+};
+
+// The agent's scratchpad: every search so far and what it found
+const formatScratchpad = (steps: AgentStep[]) => {
+  const searches = steps.filter(step => step.kind === 'search');
+  if (searches.length === 0) return 'Nothing searched yet.';
+  return searches.map((step, index) => `Search ${index + 1}: ${step.query}\n    Findings: ${step.findings}`).join('\n    ');
+};
+
+/**
+ * Builds the prompt asking the agent's planner what to search next. Exported so the UI can preview it.
+ */
+export const buildAgentPlanPrompt = (
+  entityName: string,
+  userQuery: string,
+  context: string | undefined,
+  scratchpad: string,
+  searchesLeft: number
+) => `
+    You are a research agent answering one question about one row of a CSV file.
+    You work in steps: each step runs one ${getLlmProvider().supportsSearchGrounding ? 'Google search' : 'search of what you already know'} and adds what it found to your scratchpad.
+    
+    Subject / Entity: "${entityName}"
+    ${context ? `Additional Context from other columns: ${context}` : ''}
+    
+    Question: ${userQuery}
+    
+    Scratchpad:
+    ${scratchpad}
+    
+    You have ${searchesLeft} search${searchesLeft !== 1 ? 'es' : ''} left.
+    
+    Rules:
+    1. Break the question into the facts you still need (e.g. first find when an acquisition happened, then who held the role before it).
+    2. List the searches still needed in "queries", most important first. Make each one specific and self-contained, naming the subject.
+    3. Never repeat a search that is already in the scratchpad.
+    4. Set "done" to true when the scratchpad already answers the question, or when more searching will not help.
+    5. Explain your reasoning in one or two sentences in "thought".
+    
+    Respond ONLY with a JSON object (no markdown) matching this JSON schema:
+    ${JSON.stringify(AGENT_PLAN_SCHEMA)}
+  `;
+
+const buildAgentSearchPrompt = (entityName: string, query: string, sourcePolicy?: SourcePolicy) => {
+  const sourceRule = describeSourcePolicy(sourcePolicy);
+  const webSearch = getLlmProvider().supportsSearchGrounding;
+  return `
+    You are helping research "${entityName}".
+    ${webSearch ? 'Use the Google Search tool to search for' : 'You cannot search the web. Recall what you know about'}: ${query}
+    
+    Report only what ${webSearch ? 'the results say' : 'you know'} that helps with this search, as a few short factual sentences with the names, dates and numbers involved.
+    If ${webSearch ? 'the results do' : 'you do'} not answer it, say so plainly. Do not guess.
+    ${sourceRule}
+  `;
+};
+
+const buildAgentAnswerPrompt = (entityName: string, userQuery: string, context: string | undefined, scratchpad: string, output: OutputSpec) => `
+    You are a research agent giving the final answer to one question about one row of a CSV file.
+    
+    Subject / Entity: "${entityName}"
+    ${context ? `Additional Context from other columns: ${context}` : ''}
+    
+    Question: ${userQuery}
+    
+    Your research notes:
+    ${scratchpad}
+    
+    Rules:
+    1. Answer using only your research notes.
+    2. If the question asks for a specific fact (e.g. "CEO Name", "Revenue", "Website"), give ONLY the value. No sentences.
+    3. If the question asks for a description, summary, or bio, give a concise paragraph (max 2-3 sentences).
+    4. If the notes do not answer the question, use {"value": null}.
+    5. CONFIDENCE: Rate how sure you are of the answer as high (confirmed by several searches), medium (one search or slightly dated) or low (inferred) in the "confidence" field.
+    
+    Output format:
+    Respond ONLY with a JSON object (no markdown) matching this JSON schema:
+    ${JSON.stringify(buildResponseSchema(output))}
   `;
 
+// Planner output, tolerating missing or malformed fields
+const readAgentPlan = (text: string): { thought: string; queries: string[]; done: boolean } => {
   try {
-    // Configure based on model capabilities
-    const config: any = {
-      tools: [{ googleSearch: {} }], // Enable live internet access
+    const parsed = parseModelJson(text) as { thought?: unknown; queries?: unknown; done?: unknown } | null;
+    return {
+      thought: typeof parsed?.thought === 'string' ? parsed.thought : '',
+      queries: Array.isArray(parsed?.queries) ? parsed!.queries.filter((q): q is string => typeof q === 'string' && q.trim() !== '') : [],
+      done: parsed?.done === true,
     };
+  } catch {
+    return { thought: '', queries: [], done: false };
+  }
+};
 
-    if (useThinkingModel) {
-      // High thinking budget for complex reasoning
-      config.thinkingConfig = { thinkingBudget: 32768 };
-    } else {
-      // Standard configuration for Flash
-      config.temperature = 0.1; 
-    }
+export interface AgentOptions extends ResearchOptions {
+  budget?: AgentBudget;
+}
 
-    const response = await ai.models.generateContent({
-      model,
-      contents: prompt,
-      config,
-    });
-
-    const text = response.text ? response.text.trim() : "N/A";
-    
-    // Extract sources from grounding metadata
-    const sources: Source[] = [];
-    const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-    
-    if (chunks) {
-      chunks.forEach(chunk => {
-        if (chunk.web) {
-          sources.push({
-            title: chunk.web.title ?? 'Source',
-            uri: chunk.web.uri ?? ''
-          });
-        }
+/**
+ * Researches a question that needs several searches. A planner breaks it into searches
+ * and, after each grounded search, decides what to look up next from its scratchpad of
+ * findings. Once it has enough, or the step or time budget runs out, a final call answers
+ * from the scratchpad. The result carries every step as its agent trace.
+ */
+export const researchEntityWithAgent = async (
+  entityName: string,
+  userQuery: string,
+  context?: string,
+  { useThinkingModel = false, output = {}, signal, onRetry, sourcePolicy, budget }: AgentOptions = {}
+): Promise<ResearchResult> => {
+  if (!getLlmProvider().isConfigured()) {
+    throw new Error("API Key is missing. Please configure process.env.API_KEY.");
+  }
+
+  const { maxSteps, maxSeconds } = { ...DEFAULT_AGENT_BUDGET, ...budget };
+  const tier: ModelTier = useThinkingModel ? 'thinking' : 'fast';
+  const startedAt = Date.now();
+  const steps: AgentStep[] = [];
+  let usage = emptyUsage();
+  let stopReason: AgentTrace['stopReason'] = 'step_budget';
+
+  const searched = () => steps.filter(step => step.kind === 'search');
+  const outOfTime = () => Date.now() - startedAt >= maxSeconds * 1000;
+
+  // Cuts off a plan or search still in flight when the time budget runs out; the answer is still made
+  const deadline = new AbortController();
+  const deadlineTimer = setTimeout(() => deadline.abort(), maxSeconds * 1000);
+  const stepSignal = signal ? AbortSignal.any([signal, deadline.signal]) : deadline.signal;
+
+  try {
+    while (searched().length < maxSteps) {
+      if (outOfTime()) {
+        stopReason = 'time_budget';
+        break;
+      }
+
+      const planStartedAt = Date.now();
+      const planResponse = await runJsonCompletion(
+        buildAgentPlanPrompt(entityName, userQuery, context, formatScratchpad(steps), maxSteps - searched().length),
+        tier,
+        { responseSchema: AGENT_PLAN_SCHEMA, temperature: 0, signal: stepSignal, onRetry }
+      );
+      usage = addUsage(usage, planResponse.usage);
+      const plan = readAgentPlan(planResponse.text);
+      steps.push({ kind: 'plan', thought: plan.thought, queries: plan.queries, durationMs: Date.now() - planStartedAt });
+
+      // A planner that gives nothing to go on at the start searches the question itself
+      const previous = searched().map(step => step.query?.toLowerCase());
+      const query = plan.queries.find(q => !previous.includes(q.toLowerCase()))
+        ?? (previous.length === 0 && !plan.done ? userQuery : undefined);
+      if (plan.done || !query) {
+        stopReason = 'answered';
+        break;
+      }
+      if (outOfTime()) {
+        stopReason = 'time_budget';
+        break;
+      }
+
+      const searchStartedAt = Date.now();
+      const searchResponse = await runSearchCompletion(buildAgentSearchPrompt(entityName, query, sourcePolicy), tier, { signal: stepSignal, onRetry });
+      usage = addUsage(usage, searchResponse.usage);
+      steps.push({
+        kind: 'search',
+        query,
+        findings: searchResponse.text.trim(),
+        sources: searchResponse.sources,
+        durationMs: Date.now() - searchStartedAt,
       });
     }
+  } catch (error) {
+    if (signal?.aborted || !deadline.signal.aborted) throw error;
+    stopReason = 'time_budget';
+  } finally {
+    clearTimeout(deadlineTimer);
+  }
+
+  const answerStartedAt = Date.now();
+  const response = await runJsonCompletion(
+    buildAgentAnswerPrompt(entityName, userQuery, context, formatScratchpad(steps), output),
+    tier,
+    { responseSchema: buildResponseSchema(output), temperature: 0, signal, onRetry }
+  );
+  usage = addUsage(usage, response.usage);
+  steps.push({ kind: 'answer', durationMs: Date.now() - answerStartedAt });
+
+  let answer: unknown;
+  let selfConfidence: unknown;
+  try {
+    ({ answer, selfConfidence } = readStructuredAnswer(parseModelJson(response.text)));
+  } catch {
+    answer = response.text;
+  }
+  const validation = validateOutput(output, answer);
 
-    return { text, sources };
+  // Every source the searches were grounded on, once each
+  const sources = Array.from(
+    new Map(searched().flatMap(step => step.sources || []).map(source => [source.uri, source])).values()
+  );
+
+  return withConfidence({
+    text: validation.value,
+    sources,
+    model: response.model,
+    usage,
+    validationError: validation.error,
+    selfConfidence: isSelfConfidence(selfConfidence) ? selfConfidence : undefined,
+    rawResponse: response.text,
+    agentTrace: { steps, stopReason, elapsedMs: Date.now() - startedAt },
+  });
+};
 
+// One task of a combined request, keyed by its output column
+export interface CombinedField {
+  key: string;
+  // Task prompt with placeholders already filled in
+  prompt: string;
+  output: OutputSpec;
+}
+
+/**
+ * Builds the prompt asking for every field of a row in a single JSON answer.
+ */
+export const buildCombinedResearchPrompt = (entityName: string, fields: CombinedField[], context?: string) => {
+  const webSearch = getLlmProvider().supportsSearchGrounding;
+  return `
+    I have a list of items (companies, people, or URLs) in a CSV file. 
+    I need you to perform several research tasks for one row and answer them all at once.
+    
+    Subject / Entity: "${entityName}"
+    ${context ? `Additional Context from other columns: ${context}` : ''}
+    
+    Tasks (answer each one under its key):
+    ${fields.map(({ key, prompt }) => `- "${key}": ${prompt}`).join('\n    ')}
+    
+    Rules:
+    1. ${webSearch ? SEARCH_RULE : NO_SEARCH_RULE}
+    2. URL HANDLING: If the "Subject" is a URL, or if a specific URL (like a LinkedIn profile or website) is provided in the "Additional Context", ${webSearch ? 'use Google Search to find content specifically associated with that page' : 'answer about the person, company or page it points to'}.
+    3. If a task asks for a specific fact (e.g. "CEO Name", "Revenue", "Website"), give ONLY the value. No sentences.
+    4. If a task asks for a description, summary, or bio, give a concise paragraph (max 2-3 sentences).
+    5. If a task's information is not found${webSearch ? ' after searching' : ''}, use {"value": null} for it.
+    6. ${webSearch
+      ? 'LOGIN WALLS / RATE LIMITS: If a specific URL is blocked, requires a login, or returns a rate limit error, use the information available in the Google Search Snippets, Titles, and Metadata instead.'
+      : 'Do not invent facts, URLs or numbers; use {"value": null} rather than guess.'}
+    7. CONFIDENCE: For each task, rate how sure you are of the answer as high (confirmed by several reliable sources), medium (one source or slightly dated) or low (inferred or guessed) in its "confidence" field.
+    
+    Output format:
+    Respond ONLY with a JSON object (no markdown) matching this JSON schema:
+    ${JSON.stringify(buildCombinedResponseSchema(fields))}
+  `;
+};
+
+/**
+ * Researches several tasks for one entity with a single grounded request.
+ * Returns a result per field the answer contained (each carrying an even share of
+ * the call's usage); fields missing from the answer are left out so callers can
+ * research them separately.
+ */
+export const researchEntityFields = async (
+  entityName: string,
+  fields: CombinedField[],
+  context?: string,
+  { useThinkingModel = false, signal, onRetry }: Omit<ResearchOptions, 'output'> = {}
+): Promise<Record<string, ResearchResult>> => {
+  if (!getLlmProvider().isConfigured()) {
+    throw new Error("API Key is missing. Please configure process.env.API_KEY.");
+  }
+
+  const tier: ModelTier = useThinkingModel ? 'thinking' : 'fast';
+  const response = await runSearchCompletion(buildCombinedResearchPrompt(entityName, fields, context), tier, {
+    responseSchema: buildCombinedResponseSchema(fields),
+    outputTokens: ESTIMATED_OUTPUT_TOKENS[tier] * fields.length,
+    signal,
+    onRetry,
+  });
+
+  let answers: Record<string, unknown>;
+  try {
+    const parsed = parseModelJson(response.text);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {};
+    answers = parsed as Record<string, unknown>;
+  } catch {
+    return {};
+  }
+
+  const answered = fields.filter(({ key }) => answers[key] !== undefined);
+  const usage = scaleUsage(response.usage, 1 / Math.max(1, answered.length));
+
+  return Object.fromEntries(answered.map(({ key, output }) => {
+    const { answer, selfConfidence } = readStructuredAnswer(answers[key]);
+    const validation = validateOutput(output, answer);
+    return [key, withConfidence({
+      text: validation.value,
+      sources: response.sources,
+      model: response.model,
+      usage,
+      validationError: validation.error,
+      selfConfidence: isSelfConfidence(selfConfidence) ? selfConfidence : undefined,
+      rawResponse: JSON.stringify(answers[key]),
+    })];
+  }));
+};
+
+// JSON call without search grounding, with rate limiting, retries and usage reporting
+const runJsonCompletion = async (
+  prompt: string,
+  tier: ModelTier,
+  { responseSchema, temperature, outputTokens = ESTIMATED_OUTPUT_TOKENS[tier], signal, onRetry }: { responseSchema: unknown; temperature: number; outputTokens?: number } & Pick<ResearchOptions, 'signal' | 'onRetry'>
+) => {
+  const provider = getLlmProvider();
+  const model = provider.resolveModel(tier);
+
+  return withRetry(async (attemptSignal) => {
+    const reservation = await acquireBudget(model, Math.ceil(prompt.length / 4) + outputTokens, attemptSignal);
+    try {
+      const result = await provider.jsonCompletion({ prompt, tier, temperature, responseSchema, signal: attemptSignal });
+      reportUsage(result);
+      reservation.settle(result.usage.totalTokens);
+      return result;
+    } catch (error) {
+      throw classifyError(error);
+    }
+  }, { timeoutMs: REQUEST_TIMEOUT_MS[tier], signal, onRetry });
+};
+
+// What each offline mode asks of the model
+const OFFLINE_MODE_GUIDANCE: Record<OfflineTaskMode, string> = {
+  classify: 'Classify the row into the requested category using only its data.',
+  extract: "Extract the requested value from the row's existing text. Do not guess values that are not there.",
+  transform: "Rewrite, translate, normalize or reformat the row's data as requested. Keep the meaning unchanged.",
+  generate: "Write the requested text based on the row's data. Do not invent facts beyond what the data says.",
+};
+
+// Generated text benefits from some variety; the other modes should be deterministic
+const OFFLINE_TEMPERATURE: Record<OfflineTaskMode, number> = { classify: 0, extract: 0, transform: 0.1, generate: 0.7 };
+
+export interface OfflineOptions extends ResearchOptions {
+  mode: OfflineTaskMode;
+}
+
+/**
+ * Builds the prompt for an offline task on one row. No web search is involved.
+ */
+export const buildOfflinePrompt = (mode: OfflineTaskMode, entityName: string, userQuery: string, rowData?: string, output: OutputSpec = {}) => `
+    You are processing one row of a CSV file. Work ONLY with the data given below; do not search the web or rely on outside knowledge about the subject.
+    
+    Subject / Entity: "${entityName}"
+    ${rowData ? `Row data: ${rowData}` : ''}
+    
+    Task: ${userQuery}
+    
+    Rules:
+    1. ${OFFLINE_MODE_GUIDANCE[mode]}
+    2. If the row does not contain what the task needs, use {"value": null}.
+    3. CONFIDENCE: Rate how sure you are of the answer as high, medium or low in the "confidence" field.
+    
+    Output format:
+    Respond ONLY with a JSON object (no markdown) matching this JSON schema:
+    ${JSON.stringify(buildResponseSchema(output))}
+  `;
+
+// Turns one {"value", "confidence"} answer into a cell result
+const toOfflineResult = (
+  raw: unknown,
+  output: OutputSpec,
+  response: { model: string },
+  usage: ResearchResult['usage'],
+  rawResponse: string
+): ResearchResult => {
+  const { answer, selfConfidence } = readStructuredAnswer(raw);
+  const validation = validateOutput(output, answer);
+  return withConfidence({
+    text: validation.value,
+    sources: [],
+    model: response.model,
+    usage,
+    offline: true,
+    validationError: validation.error,
+    selfConfidence: isSelfConfidence(selfConfidence) ? selfConfidence : undefined,
+    rawResponse,
+  });
+};
+
+/**
+ * Runs an offline task (classify, extract, transform, generate) on one row's data.
+ */
+export const processRow = async (
+  entityName: string,
+  userQuery: string,
+  rowData: string | undefined,
+  { mode, useThinkingModel = false, output = {}, signal, onRetry }: OfflineOptions
+): Promise<ResearchResult> => {
+  if (!getLlmProvider().isConfigured()) {
+    throw new Error("API Key is missing. Please configure process.env.API_KEY.");
+  }
+
+  const tier: ModelTier = useThinkingModel ? 'thinking' : 'fast';
+  const response = await runJsonCompletion(buildOfflinePrompt(mode, entityName, userQuery, rowData, output), tier, {
+    responseSchema: buildResponseSchema(output),
+    temperature: OFFLINE_TEMPERATURE[mode],
+    signal,
+    onRetry,
+  });
+
+  let parsed: unknown;
+  try {
+    parsed = parseModelJson(response.text);
+  } catch {
+    parsed = response.text;
+  }
+  return toOfflineResult(parsed, output, response, response.usage, response.text);
+};
+
+// One row of a multi-row offline request
+export interface OfflineBatchItem {
+  key: string;
+  subject: string;
+  // The row's values, including any columns the instruction references
+  data: string;
+}
+
+/**
+ * Builds the prompt applying one offline instruction to many rows at once.
+ */
+export const buildOfflineBatchPrompt = (mode: OfflineTaskMode, instruction: string, items: OfflineBatchItem[], output: OutputSpec = {}) => `
+    You are processing several rows of a CSV file. Work ONLY with the data given for each row; do not search the web or rely on outside knowledge about the subjects.
+    
+    Task for every row: ${instruction}
+    ({{Column Name}} in the task refers to that column's value in the row's data.)
+    
+    Rows:
+    ${items.map(({ key, subject, data }) => `- [${key}] Subject: "${subject}"${data ? `; ${data}` : ''}`).join('\n    ')}
+    
+    Rules:
+    1. ${OFFLINE_MODE_GUIDANCE[mode]}
+    2. Treat each row on its own; never carry information over from another row.
+    3. If a row does not contain what the task needs, use {"value": null} for it.
+    4. CONFIDENCE: Rate how sure you are of each answer as high, medium or low in its "confidence" field.
+    
+    Output format:
+    Respond ONLY with a JSON object (no markdown) with one entry per row key, matching this JSON schema:
+    ${JSON.stringify(buildCombinedResponseSchema(items.map(({ key }) => ({ key, output }))))}
+  `;
+
+/**
+ * Runs an offline task on many rows with one request. Returns a result per row key
+ * the answer contained (each with an even share of the usage); missing rows are left
+ * out so callers can process them one by one.
+ */
+export const processRows = async (
+  instruction: string,
+  items: OfflineBatchItem[],
+  { mode, useThinkingModel = false, output = {}, signal, onRetry }: OfflineOptions
+): Promise<Record<string, ResearchResult>> => {
+  if (!getLlmProvider().isConfigured()) {
+    throw new Error("API Key is missing. Please configure process.env.API_KEY.");
+  }
+
+  const tier: ModelTier = useThinkingModel ? 'thinking' : 'fast';
+  const response = await runJsonCompletion(buildOfflineBatchPrompt(mode, instruction, items, output), tier, {
+    responseSchema: buildCombinedResponseSchema(items.map(({ key }) => ({ key, output }))),
+    temperature: OFFLINE_TEMPERATURE[mode],
+    outputTokens: ESTIMATED_OFFLINE_OUTPUT_TOKENS * items.length,
+    signal,
+    onRetry,
+  });
+
+  let answers: Record<string, unknown>;
+  try {
+    const parsed = parseModelJson(response.text);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {};
+    answers = parsed as Record<string, unknown>;
+  } catch {
+    return {};
+  }
+
+  const answered = items.filter(({ key }) => answers[key] !== undefined);
+  const usage = scaleUsage(response.usage, 1 / Math.max(1, answered.length));
+  return Object.fromEntries(answered.map(({ key }) => [key, toOfflineResult(answers[key], output, response, usage, JSON.stringify(answers[key]))]));
+};
+
+const VERIFICATION_SCHEMA = {
+  type: 'object',
+  properties: {
+    verdict: { type: 'string', enum: ['supported', 'unsupported', 'uncertain'] },
+    note: { type: 'string' },
+  },
+  required: ['verdict'],
+};
+
+const isVerdict = (value: unknown): value is Verification['verdict'] =>
+  value === 'supported' || value === 'unsupported' || value === 'uncertain';
+
+/**
+ * Second-opinion call that checks an answer against the sources it was grounded on.
+ * Always uses the fast model. Returns the result with its verification and updated confidence.
+ */
+export const verifyResearchResult = async (
+  entityName: string,
+  userQuery: string,
+  result: ResearchResult,
+  { signal, onRetry }: Pick<ResearchOptions, 'signal' | 'onRetry'> = {}
+): Promise<ResearchResult> => {
+  // Nothing to verify when the answer is missing or already failed validation
+  if (result.confidence === undefined || result.validationError) return result;
+
+  const provider = getLlmProvider();
+  const sourceList = result.sources.length > 0
+    ? result.sources.map((source, index) => source.document
+      ? `${index + 1}. ${source.title} (local document): "${source.document.excerpt.replace(/\s+/g, ' ')}"`
+      : `${index + 1}. ${source.title} - ${source.uri}`).join('\n')
+    : 'No sources were recorded.';
+
+  const prompt = `
+    You are fact-checking one cell of a research spreadsheet.
+
+    Subject / Entity: "${entityName}"
+    Question: ${userQuery}
+    Proposed answer: ${result.text}
+
+    Sources the answer was based on:
+    ${sourceList}
+
+    Check whether the sources${provider.supportsSearchGrounding ? ' (search for them if needed)' : ''} support the proposed answer.
+    Reply "supported" if they clearly confirm it, "unsupported" if they contradict it or say nothing about it,
+    and "uncertain" if you cannot tell. Add a one-sentence note explaining the verdict.
+
+    Respond ONLY with a JSON object (no markdown) matching this JSON schema:
+    ${JSON.stringify(VERIFICATION_SCHEMA)}
+  `;
+
+  const model = provider.resolveModel('fast');
+  try {
+    const response = await withRetry(async (attemptSignal) => {
+      const reservation = await acquireBudget(model, Math.ceil(prompt.length / 4) + ESTIMATED_OUTPUT_TOKENS.fast, attemptSignal);
+      try {
+        const completion = provider.supportsSearchGrounding
+          ? await provider.searchCompletion({ prompt, tier: 'fast', temperature: 0, signal: attemptSignal })
+          : await provider.jsonCompletion({ prompt, tier: 'fast', temperature: 0, responseSchema: VERIFICATION_SCHEMA, signal: attemptSignal });
+        reportUsage(completion);
+        reservation.settle(completion.usage.totalTokens);
+        return completion;
+      } catch (error) {
+        throw classifyError(error);
+      }
+    }, { timeoutMs: REQUEST_TIMEOUT_MS.fast, signal, onRetry });
+
+    const parsed = parseModelJson(response.text) as { verdict?: unknown; note?: unknown } | null;
+    const verification: Verification = {
+      verdict: isVerdict(parsed?.verdict) ? parsed!.verdict : 'uncertain',
+      note: typeof parsed?.note === 'string' ? parsed.note : undefined,
+      model: response.model,
+      usage: response.usage,
+    };
+    return withConfidence({ ...result, verification });
   } catch (error) {
-    console.error("Gemini API Error:", error);
-    return { text: "Error", sources: [] };
+    const llmError = classifyError(error);
+    // Quota, auth, cancellation and exhausted retries fail the job like the research call would
+    if (llmError.stopsRun || llmError.retryable || llmError.kind === 'cancelled') throw llmError;
+    // Otherwise a verifier that can't give a verdict leaves the result as it was
+    console.warn('Verification skipped:', llmError);
+    return result;
   }
 };
 
@@ -95,13 +897,11 @@ export const generateResearchConfig = async (
   availableColumns: string[],
   useProModel: boolean = false
 ): Promise<{ tasks: Omit<ResearchTask, 'id'>[], targetColumns: string[] }> => {
-  if (!apiKey) {
+  const provider = getLlmProvider();
+  if (!provider.isConfigured()) {
     throw new Error("API Key is missing.");
   }
 
-  // Use Gemini 3 Pro (mapped from "Pro" request) for complex reasoning or Gemini 2.5 Flash for speed
-  const model = useProModel ? 'gemini-3-pro-preview' : 'gemini-2.5-flash';
-
   const prompt = `
     You are a data enrichment assistant.
     The user has a CSV with these columns: ${JSON.stringify(availableColumns)}.
@@ -111,7 +911,9 @@ export const generateResearchConfig = async (
     Goal: Configure a research agent to fulfill the user request.
 
     1. Select input columns: Identify which specific columns from the provided list are best used to identify the subject (e.g. "Company", "URL", "Name", "Email"). Return these as 'targetColumns'.
-    2. Create tasks: Generate a list of new columns to add, with specific prompts for the AI to find that information using Google Search.
+    2. Create tasks: Generate a list of new columns to add, with specific prompts for the AI to find that information${provider.supportsSearchGrounding ? ' using Google Search' : ''}.
+    3. Pick an output type for each task so answers can be validated (e.g. "number" for employee count, "url" for websites, "enum" with enumValues for categories).
+    4. Pick a mode for each task: "research" when the answer must be searched on the web, "agent" when finding it takes several searches and reasoning steps (e.g. "who was the CFO before the 2023 acquisition"), or "classify", "extract", "transform" or "generate" when it can be worked out from the row's existing columns alone (e.g. categorizing a description, pulling the domain out of an email, translating a column).
     
     Return ONLY raw JSON (no markdown formatting) in this structure:
     {
@@ -119,27 +921,40 @@ export const generateResearchConfig = async (
       "tasks": [
         {
           "newColumnName": "Short Column Name",
-          "prompt": "Specific instruction to find the value..."
+          "prompt": "Specific instruction to find the value...",
+          "mode": "research | agent | classify | extract | transform | generate",
+          "outputType": "text | number | currency | url | email | date | boolean | enum | list",
+          "enumValues": ["Only when outputType is enum"]
         }
       ]
     }
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model,
-      contents: prompt,
-      config: {
-        responseMimeType: 'application/json'
-      }
-    });
+    // Use the thinking model (mapped from "Pro" request) for complex reasoning or the fast model for speed
+    const response = await withRetry((attemptSignal) => provider.jsonCompletion({
+      prompt,
+      tier: useProModel ? 'thinking' : 'fast',
+      signal: attemptSignal,
+    }));
+    reportUsage(response);
+
+    // Local and OpenAI-compatible models often wrap the JSON in fences or prose
+    const result = (parseModelJson(response.text || '{}') || {}) as { tasks?: unknown; targetColumns?: unknown };
+
+    // Drop output types the model invented
+    const suggested: Partial<Record<keyof ResearchTask, unknown>>[] = Array.isArray(result.tasks) ? result.tasks : [];
+    const tasks: Omit<ResearchTask, 'id'>[] = suggested.map(task => ({
+      newColumnName: String(task.newColumnName ?? ''),
+      prompt: String(task.prompt ?? ''),
+      mode: isTaskMode(task.mode) ? task.mode : 'research',
+      outputType: isOutputType(task.outputType) ? task.outputType : 'text',
+      enumValues: task.outputType === 'enum' && Array.isArray(task.enumValues) ? task.enumValues.map(String) : undefined,
+    }));
 
-    const text = response.text || '{}';
-    const result = JSON.parse(text);
-    
     return {
-      tasks: result.tasks || [],
-      targetColumns: result.targetColumns || []
+      tasks,
+      targetColumns: Array.isArray(result.targetColumns) ? result.targetColumns.map(String) : []
     };
   } catch (error) {
     console.error("Plan generation failed:", error);
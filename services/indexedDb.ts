@@ -0,0 +1,70 @@
+const DB_NAME = 'syntellix-ai';
+const DB_VERSION = 5;
+
+// Object stores, keyed by their `key` property
+export const STORES = {
+  researchCache: 'researchCache',
+  runs: 'runs',
+  runLogs: 'runLogs',
+  runLogChunks: 'runLogChunks',
+  documents: 'documents',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const isIndexedDbAvailable = () => typeof indexedDB !== 'undefined';
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        Object.values(STORES).forEach(name => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: 'key' });
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const idbGet = <T>(storeName: StoreName, key: string) =>
+  withStore<T | undefined>(storeName, 'readonly', store => store.get(key));
+
+export const idbGetAll = <T>(storeName: StoreName, range?: IDBKeyRange) =>
+  withStore<T[]>(storeName, 'readonly', store => store.getAll(range));
+
+export const idbGetAllKeys = (storeName: StoreName) =>
+  withStore<string[]>(storeName, 'readonly', store => store.getAllKeys());
+
+export const idbPut = <T extends { key: string }>(storeName: StoreName, value: T) =>
+  withStore<IDBValidKey>(storeName, 'readwrite', store => store.put(value)).then(() => undefined);
+
+export const idbDelete = (storeName: StoreName, key: string | IDBKeyRange) =>
+  withStore<undefined>(storeName, 'readwrite', store => store.delete(key));
+
+export const idbClear = (storeName: StoreName) =>
+  withStore<undefined>(storeName, 'readwrite', store => store.clear());
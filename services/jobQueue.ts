@@ -0,0 +1,246 @@
+export type JobQueueStatus = 'idle' | 'running' | 'paused' | 'cancelled' | 'completed';
+
+export interface QueueJob<TPayload> {
+  id: string;
+  payload: TPayload;
+  // Ids of jobs that must complete first. Ids never added to the queue count as done.
+  dependsOn?: string[];
+  // Jobs in a lane listed in laneConcurrency get their own slots instead of the shared ones
+  lane?: string;
+}
+
+export interface JobQueueSnapshot {
+  status: JobQueueStatus;
+  total: number;
+  completed: number;
+  failed: number;
+  running: number;
+  pending: number;
+  pauseReason?: string;
+}
+
+export type JobQueueEvent<TPayload, TResult> =
+  | { type: 'started'; job: QueueJob<TPayload> }
+  | { type: 'completed'; job: QueueJob<TPayload>; result: TResult }
+  | { type: 'failed'; job: QueueJob<TPayload>; error: unknown }
+  // A dependency failed, so the job was dropped without running (counted as failed)
+  | { type: 'skipped'; job: QueueJob<TPayload>; dependencyId?: string }
+  | { type: 'status'; snapshot: JobQueueSnapshot };
+
+export type JobQueueListener<TPayload, TResult> = (event: JobQueueEvent<TPayload, TResult>) => void;
+
+export interface JobQueueOptions<TPayload, TResult> {
+  // Maximum number of jobs in flight at once (outside of dedicated lanes)
+  concurrency: number;
+  // Slots per lane, for cheap jobs that can run far more in parallel
+  laneConcurrency?: Record<string, number>;
+  // Jobs already finished in an earlier session (counted towards progress)
+  initialCompleted?: number;
+  run: (job: QueueJob<TPayload>, signal: AbortSignal) => Promise<TResult>;
+}
+
+export interface JobQueue<TPayload, TResult> {
+  add: (jobs: QueueJob<TPayload>[]) => void;
+  // Puts a failed job back at the front of the queue (e.g. before pausing on a quota error)
+  requeue: (job: QueueJob<TPayload>) => void;
+  // Starts processing; resolves once every job has settled or the queue is cancelled
+  start: (options?: { paused?: boolean }) => Promise<JobQueueSnapshot>;
+  // Stops starting new jobs. Jobs already in flight still finish and report.
+  pause: (reason?: string) => void;
+  resume: () => void;
+  // Aborts in-flight jobs and drops their results
+  cancel: () => void;
+  setConcurrency: (concurrency: number) => void;
+  getSnapshot: () => JobQueueSnapshot;
+  subscribe: (listener: JobQueueListener<TPayload, TResult>) => () => void;
+}
+
+/**
+ * Creates a work queue with a sliding concurrency window: each job starts as
+ * soon as a slot frees up, instead of waiting for a whole batch to finish.
+ */
+export const createJobQueue = <TPayload, TResult>({
+  concurrency: initialConcurrency,
+  laneConcurrency = {},
+  initialCompleted = 0,
+  run,
+}: JobQueueOptions<TPayload, TResult>): JobQueue<TPayload, TResult> => {
+  let concurrency = Math.max(1, initialConcurrency);
+  let status: JobQueueStatus = 'idle';
+  let pauseReason: string | undefined;
+  let total = initialCompleted;
+  let completed = initialCompleted;
+  let failed = 0;
+
+  const pending: QueueJob<TPayload>[] = [];
+  const inFlight = new Map<string, { controller: AbortController; lane?: string }>();
+  // Job ids seen by this queue and how they ended, for dependency checks
+  const knownIds = new Set<string>();
+  const completedIds = new Set<string>();
+  const failedIds = new Set<string>();
+  const listeners = new Set<JobQueueListener<TPayload, TResult>>();
+  let resolveDone: ((snapshot: JobQueueSnapshot) => void) | null = null;
+
+  const getSnapshot = (): JobQueueSnapshot => ({
+    status,
+    total,
+    completed,
+    failed,
+    running: inFlight.size,
+    pending: pending.length,
+    pauseReason,
+  });
+
+  const emit = (event: JobQueueEvent<TPayload, TResult>) => {
+    listeners.forEach(listener => listener(event));
+  };
+
+  const setStatus = (next: JobQueueStatus) => {
+    status = next;
+    emit({ type: 'status', snapshot: getSnapshot() });
+  };
+
+  const finish = (next: JobQueueStatus) => {
+    setStatus(next);
+    if (resolveDone) {
+      resolveDone(getSnapshot());
+      resolveDone = null;
+    }
+  };
+
+  const runJob = async (job: QueueJob<TPayload>) => {
+    const controller = new AbortController();
+    inFlight.set(job.id, { controller, lane: getLane(job) });
+    emit({ type: 'started', job });
+
+    try {
+      const result = await run(job, controller.signal);
+      if (controller.signal.aborted) return;
+      completed++;
+      completedIds.add(job.id);
+      emit({ type: 'completed', job, result });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      failed++;
+      failedIds.add(job.id);
+      emit({ type: 'failed', job, error });
+    } finally {
+      inFlight.delete(job.id);
+    }
+
+    emit({ type: 'status', snapshot: getSnapshot() });
+    pump();
+  };
+
+  const skipJob = (job: QueueJob<TPayload>, dependencyId?: string) => {
+    failed++;
+    failedIds.add(job.id);
+    emit({ type: 'skipped', job, dependencyId });
+    emit({ type: 'status', snapshot: getSnapshot() });
+  };
+
+  const getFailedDependency = (job: QueueJob<TPayload>) => job.dependsOn?.find(id => failedIds.has(id));
+
+  const isReady = (job: QueueJob<TPayload>) =>
+    !job.dependsOn || job.dependsOn.every(id => !knownIds.has(id) || completedIds.has(id) || failedIds.has(id));
+
+  // Lane whose slots a job uses; undefined for the shared slots
+  const getLane = (job: QueueJob<TPayload>) => job.lane && laneConcurrency[job.lane] ? job.lane : undefined;
+
+  const countRunning = () => {
+    const counts = new Map<string | undefined, number>();
+    inFlight.forEach(({ lane }) => counts.set(lane, (counts.get(lane) || 0) + 1));
+    return counts;
+  };
+
+  const pump = () => {
+    while (status === 'running') {
+      const running = countRunning();
+      const hasSlot = (lane: string | undefined) => (running.get(lane) || 0) < (lane ? laneConcurrency[lane] : concurrency);
+      if (!hasSlot(undefined) && Object.keys(laneConcurrency).every(lane => !hasSlot(lane))) break;
+
+      // Take the first job whose dependencies have all settled and whose lane has a free slot
+      const index = pending.findIndex(job => isReady(job) && hasSlot(getLane(job)));
+      if (index === -1) break;
+      const [job] = pending.splice(index, 1);
+
+      const failedDependency = getFailedDependency(job);
+      if (failedDependency) {
+        skipJob(job, failedDependency);
+      } else {
+        runJob(job);
+      }
+    }
+
+    // Jobs still waiting with nothing running can never become ready
+    if (status === 'running' && inFlight.size === 0 && pending.length > 0 && !pending.some(isReady)) {
+      pending.splice(0).forEach(job => skipJob(job));
+    }
+
+    if (status === 'running' && pending.length === 0 && inFlight.size === 0) {
+      finish('completed');
+    }
+  };
+
+  return {
+    add: (jobs) => {
+      jobs.forEach(job => knownIds.add(job.id));
+      pending.push(...jobs);
+      total += jobs.length;
+      pump();
+    },
+
+    requeue: (job) => {
+      failed = Math.max(0, failed - 1);
+      failedIds.delete(job.id);
+      pending.unshift(job);
+      pump();
+    },
+
+    start: ({ paused = false } = {}) => {
+      const done = new Promise<JobQueueSnapshot>(resolve => {
+        resolveDone = resolve;
+      });
+      pauseReason = undefined;
+      // A paused start (e.g. a restored run) waits for resume() before running anything
+      setStatus(paused ? 'paused' : 'running');
+      pump();
+      return done;
+    },
+
+    pause: (reason) => {
+      if (status !== 'running') return;
+      pauseReason = reason;
+      setStatus('paused');
+    },
+
+    resume: () => {
+      if (status !== 'paused') return;
+      pauseReason = undefined;
+      setStatus('running');
+      pump();
+    },
+
+    cancel: () => {
+      if (status === 'cancelled' || status === 'completed') return;
+      pending.length = 0;
+      inFlight.forEach(({ controller }) => controller.abort());
+      inFlight.clear();
+      finish('cancelled');
+    },
+
+    setConcurrency: (next) => {
+      concurrency = Math.max(1, next);
+      pump();
+    },
+
+    getSnapshot,
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
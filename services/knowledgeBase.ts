@@ -0,0 +1,81 @@
+import { KnowledgeDocument } from "../types";
+import { hashString } from "../utils/hash";
+import { idbDelete, idbGetAll, idbPut, isIndexedDbAvailable, STORES } from "./indexedDb";
+
+// Text formats read as-is; PDFs have their text extracted page by page
+export const TEXT_DOCUMENT_EXTENSIONS = ['.txt', '.md', '.csv', '.json', '.html'];
+export const DOCUMENT_FILE_ACCEPT = ['.pdf', ...TEXT_DOCUMENT_EXTENSIONS].join(',');
+
+const isPdf = (file: File) => file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+
+// pdf.js is large, so it is only loaded once a PDF is added
+const loadPdfjs = async () => {
+  const [pdfjs, worker] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+  return pdfjs;
+};
+
+// Text of every page of a PDF, in page order
+const extractPdfPages = async (file: File): Promise<string[]> => {
+  const pdfjs = await loadPdfjs();
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  try {
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const content = await (await pdf.getPage(pageNumber)).getTextContent();
+      pages.push(content.items.map(item => 'str' in item ? `${item.str}${item.hasEOL ? '\n' : ''}` : '').join(''));
+    }
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+/**
+ * Reads a PDF or text file into a knowledge base document. Throws when the file has no
+ * readable text (e.g. a scanned PDF without a text layer).
+ */
+export const readDocument = async (file: File): Promise<KnowledgeDocument> => {
+  const pdf = isPdf(file);
+  const pages = pdf ? await extractPdfPages(file) : [await file.text()];
+  if (!pages.some(page => page.trim())) {
+    throw new Error(`${file.name} has no readable text${pdf ? ' (scanned PDFs are not supported)' : ''}`);
+  }
+  return {
+    key: `${hashString(`${file.name}|${file.size}|${file.lastModified}`)}-${hashString(pages.join('\n'))}`,
+    name: file.name,
+    kind: pdf ? 'pdf' : 'text',
+    pages,
+    size: file.size,
+    addedAt: Date.now(),
+  };
+};
+
+/**
+ * Every document in the knowledge base, oldest first. Empty when IndexedDB is unavailable.
+ */
+export const loadDocuments = async (): Promise<KnowledgeDocument[]> => {
+  if (!isIndexedDbAvailable()) return [];
+  try {
+    const documents = await idbGetAll<KnowledgeDocument>(STORES.documents);
+    return documents.sort((a, b) => a.addedAt - b.addedAt);
+  } catch (error) {
+    console.warn('Could not load knowledge base documents:', error);
+    return [];
+  }
+};
+
+/**
+ * Reads a file and stores it in the knowledge base.
+ */
+export const addDocument = async (file: File): Promise<KnowledgeDocument> => {
+  const doc = await readDocument(file);
+  if (isIndexedDbAvailable()) await idbPut(STORES.documents, doc);
+  return doc;
+};
+
+export const deleteDocument = (key: string) =>
+  isIndexedDbAvailable() ? idbDelete(STORES.documents, key) : Promise.resolve(undefined);
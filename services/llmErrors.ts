@@ -0,0 +1,116 @@
+export type LlmErrorKind =
+  | 'rate_limit'
+  | 'quota'
+  | 'auth'
+  | 'safety'
+  | 'timeout'
+  | 'malformed'
+  | 'server'
+  | 'cancelled'
+  | 'unknown';
+
+const RETRYABLE_KINDS: LlmErrorKind[] = ['rate_limit', 'timeout', 'server'];
+
+// Failures that will hit every remaining row too, so the run should stop
+const RUN_STOPPING_KINDS: LlmErrorKind[] = ['quota', 'auth'];
+
+const KIND_DESCRIPTIONS: Record<LlmErrorKind, string> = {
+  rate_limit: 'Rate limit reached',
+  quota: 'API quota exhausted',
+  auth: 'API key rejected',
+  safety: 'Response blocked by safety filters',
+  timeout: 'Request timed out',
+  malformed: 'Malformed model response',
+  server: 'Model service unavailable',
+  cancelled: 'Request cancelled',
+  unknown: 'Unexpected error',
+};
+
+/**
+ * Error raised by the LLM layer with a classified failure kind.
+ */
+export class LlmError extends Error {
+  readonly kind: LlmErrorKind;
+  readonly retryAfterMs?: number;
+  readonly cause?: unknown;
+
+  constructor(kind: LlmErrorKind, message: string, options: { retryAfterMs?: number; cause?: unknown } = {}) {
+    super(message);
+    this.name = 'LlmError';
+    this.kind = kind;
+    this.retryAfterMs = options.retryAfterMs;
+    this.cause = options.cause;
+  }
+
+  get retryable() {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+
+  get stopsRun() {
+    return RUN_STOPPING_KINDS.includes(this.kind);
+  }
+
+  get description() {
+    return KIND_DESCRIPTIONS[this.kind];
+  }
+}
+
+// Extracts retry hints such as `"retryDelay": "17s"`, `retry in 17.5s` or a Retry-After header value
+const parseRetryAfter = (message: string): number | undefined => {
+  const match = message.match(/retry(?:Delay"?:\s*"|[- ]after:?\s*|\s+in\s+)(\d+(?:\.\d+)?)\s*(ms|s)?/i);
+  if (!match) return undefined;
+  const value = parseFloat(match[1]);
+  return match[2]?.toLowerCase() === 'ms' ? value : value * 1000;
+};
+
+const getStatus = (error: any): number | undefined => {
+  const status = error?.status ?? error?.code ?? error?.response?.status;
+  if (typeof status === 'number') return status;
+  // Only a number labelled as a status or leading the message, e.g. "got status: 503" or "[429 Too Many Requests]";
+  // other numbers in the text ("row 503", "retry in 450ms") say nothing about the response
+  const match = String(error?.message ?? '').match(/\bstatus(?: code)?:?\s*([45]\d\d)\b|^\s*\[?([45]\d\d)\b/i);
+  return match ? parseInt(match[1] ?? match[2], 10) : undefined;
+};
+
+/**
+ * Normalizes any error thrown by a provider into an LlmError.
+ */
+export const classifyError = (error: unknown): LlmError => {
+  if (error instanceof LlmError) return error;
+
+  const err = error as any;
+  const message = String(err?.message ?? error);
+  const status = getStatus(err);
+  const retryAfterMs = parseRetryAfter(message);
+  const options = { retryAfterMs, cause: error };
+
+  if (err?.name === 'AbortError') {
+    return new LlmError('cancelled', message, options);
+  }
+  if (status === 401 || status === 403 || /api key not valid|permission denied|unauthenticated/i.test(message)) {
+    return new LlmError('auth', message, options);
+  }
+  if (status === 429 || /resource_exhausted|rate limit|too many requests/i.test(message)) {
+    // Daily / billing quotas will not recover by waiting a few seconds
+    if (/per ?day|daily|billing|exceeded your current quota|insufficient_quota/i.test(message)) {
+      return new LlmError('quota', message, options);
+    }
+    return new LlmError('rate_limit', message, options);
+  }
+  if (status === 408 || status === 504 || /deadline|timed? ?out/i.test(message)) {
+    return new LlmError('timeout', message, options);
+  }
+  if (/safety|blocked|prohibited_content/i.test(message)) {
+    return new LlmError('safety', message, options);
+  }
+  if (error instanceof SyntaxError || /json/i.test(message) && /parse|unexpected|invalid/i.test(message)) {
+    return new LlmError('malformed', message, options);
+  }
+  if (status !== undefined && status >= 500) {
+    return new LlmError('server', message, options);
+  }
+  if (error instanceof TypeError && /fetch|network/i.test(message)) {
+    return new LlmError('server', message, options);
+  }
+  return new LlmError('unknown', message, options);
+};
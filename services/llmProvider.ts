@@ -0,0 +1,108 @@
+import { Source, TokenUsage } from "../types";
+
+// Fast models answer most cells; thinking models are used for deep reasoning
+export type ModelTier = 'fast' | 'thinking';
+
+export interface CompletionRequest {
+  prompt: string;
+  tier: ModelTier;
+  temperature?: number;
+  // JSON schema describing the expected response (used by jsonCompletion)
+  responseSchema?: unknown;
+  // Cancels the underlying HTTP request when the caller stops or times out
+  signal?: AbortSignal;
+}
+
+export interface CompletionResponse {
+  text: string;
+  sources: Source[];
+  model: string;
+  usage: TokenUsage;
+}
+
+/**
+ * Common interface every LLM backend implements so the research pipeline
+ * does not depend on a specific vendor SDK.
+ */
+export interface LlmProvider {
+  readonly name: string;
+  // Whether searchCompletion actually browses the web (and returns sources)
+  readonly supportsSearchGrounding: boolean;
+  isConfigured: () => boolean;
+  resolveModel: (tier: ModelTier) => string;
+  // Free-text answer, grounded on live web search when the backend supports it
+  searchCompletion: (request: CompletionRequest) => Promise<CompletionResponse>;
+  // Answer constrained to raw JSON text
+  jsonCompletion: (request: CompletionRequest) => Promise<CompletionResponse>;
+}
+
+export const emptyUsage = (): TokenUsage => ({
+  promptTokens: 0,
+  outputTokens: 0,
+  thinkingTokens: 0,
+  groundingTokens: 0,
+  totalTokens: 0,
+});
+
+export const addUsage = (a: TokenUsage, b: TokenUsage): TokenUsage => ({
+  promptTokens: a.promptTokens + b.promptTokens,
+  outputTokens: a.outputTokens + b.outputTokens,
+  thinkingTokens: a.thinkingTokens + b.thinkingTokens,
+  groundingTokens: a.groundingTokens + b.groundingTokens,
+  totalTokens: a.totalTokens + b.totalTokens,
+});
+
+export const scaleUsage = (usage: TokenUsage, factor: number): TokenUsage => ({
+  promptTokens: Math.round(usage.promptTokens * factor),
+  outputTokens: Math.round(usage.outputTokens * factor),
+  thinkingTokens: Math.round(usage.thinkingTokens * factor),
+  groundingTokens: Math.round(usage.groundingTokens * factor),
+  totalTokens: Math.round(usage.totalTokens * factor),
+});
+
+type UsageListener = (usage: TokenUsage, model: string) => void;
+
+let activeProvider: LlmProvider | null = null;
+let providerFactory: (() => LlmProvider) | null = null;
+const usageListeners = new Set<UsageListener>();
+
+/**
+ * Registers the factory used to lazily create the default provider.
+ */
+export const setDefaultProviderFactory = (factory: () => LlmProvider) => {
+  providerFactory = factory;
+};
+
+/**
+ * Returns the provider the research pipeline should use.
+ */
+export const getLlmProvider = (): LlmProvider => {
+  if (!activeProvider) {
+    if (!providerFactory) {
+      throw new Error("No LLM provider configured.");
+    }
+    activeProvider = providerFactory();
+  }
+  return activeProvider;
+};
+
+/**
+ * Swaps the active provider, e.g. for a self-hosted model or a mock in tests.
+ */
+export const setLlmProvider = (provider: LlmProvider | null) => {
+  activeProvider = provider;
+};
+
+/**
+ * Subscribes to token usage reported by every completion. Returns an unsubscribe function.
+ */
+export const onUsage = (listener: UsageListener) => {
+  usageListeners.add(listener);
+  return () => {
+    usageListeners.delete(listener);
+  };
+};
+
+export const reportUsage = (response: CompletionResponse) => {
+  usageListeners.forEach(listener => listener(response.usage, response.model));
+};
@@ -0,0 +1,32 @@
+import { TokenUsage } from "../types";
+
+// USD per million tokens. Thinking tokens are billed as output.
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+// Published list prices; models not listed (e.g. local ones) are treated as free
+const modelPrices: Record<string, ModelPrice> = {
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  'gemini-3-pro-preview': { inputPerMillion: 2, outputPerMillion: 12 },
+};
+
+export const getModelPrice = (model: string): ModelPrice | undefined => modelPrices[model];
+
+export const setModelPrice = (model: string, price: ModelPrice) => {
+  modelPrices[model] = price;
+};
+
+/**
+ * Cost in USD of the tokens a call used on `model`.
+ */
+export const estimateCost = (model: string | undefined, usage: TokenUsage | undefined) => {
+  const price = model ? getModelPrice(model) : undefined;
+  if (!price || !usage) return 0;
+  const input = usage.promptTokens + usage.groundingTokens;
+  const output = usage.outputTokens + usage.thinkingTokens;
+  return (input * price.inputPerMillion + output * price.outputPerMillion) / 1_000_000;
+};
+
+export const formatCost = (usd: number) => usd < 0.01 && usd > 0 ? '<$0.01' : `$${usd.toFixed(2)}`;
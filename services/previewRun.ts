@@ -0,0 +1,116 @@
+import { CsvRow, ResearchConfig, ResearchResult } from "../types";
+import { DocumentIndex } from "../utils/documentIndex";
+import { createProvenance } from "../utils/provenance";
+import { recordUsageSample } from "./costEstimator";
+import { createJobQueue } from "./jobQueue";
+import { classifyError } from "./llmErrors";
+import { createSharedRequests, expandCellResult, getQueueConcurrency, refreshJobInput, renderJobPrompt, ResearchJob, ResearchJobPayload, runResearchJob } from "./researchJobs";
+import { CellResult } from "./runStore";
+
+export const DEFAULT_PREVIEW_ROWS = 5;
+
+export type PreviewCellStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface PreviewCell {
+  status: PreviewCellStatus;
+  // Full prompt sent to the model (rendered when the job starts, so dependent tasks see their inputs)
+  prompt: string;
+  result?: ResearchResult;
+  error?: string;
+}
+
+/**
+ * Jobs for the first `rowCount` rows the full run would touch. Ids match the full run's,
+ * so approved preview results can be reused as already-finished jobs.
+ */
+export const selectPreviewJobs = (jobs: ResearchJob[], rowCount: number) => {
+  const rows = new Set<number>();
+  return jobs.filter(({ payload: { rowIndex } }) => {
+    if (!rows.has(rowIndex)) {
+      if (rows.size >= rowCount) return false;
+      rows.add(rowIndex);
+    }
+    return true;
+  });
+};
+
+export interface PreviewRunOptions {
+  signal?: AbortSignal;
+  // Knowledge base index for tasks with document grounding
+  documents?: DocumentIndex;
+  onUpdate: (jobId: string, cell: PreviewCell) => void;
+}
+
+/**
+ * Runs preview jobs on their own queue. Answers are kept in a private copy of the
+ * affected rows and never written to the dataset. Resolves with the finished cells.
+ */
+export const runPreview = async (
+  jobs: ResearchJob[],
+  data: CsvRow[],
+  config: ResearchConfig,
+  { signal, onUpdate, documents }: PreviewRunOptions
+): Promise<Record<string, CellResult>> => {
+  const results: Record<string, CellResult> = {};
+  const rows = new Map<number, CsvRow>();
+  const getRow = (rowIndex: number) => rows.get(rowIndex) || data[rowIndex];
+
+  const prompts = new Map(jobs.map(job => [job.id, renderJobPrompt(job, documents)]));
+  // Jobs as they were sent, with dependent prompts filled in from upstream answers
+  const sentJobs = new Map<string, ResearchJob>();
+  const retries = new Map<string, number>();
+  const sharedRequests = createSharedRequests();
+
+  const queue = createJobQueue<ResearchJobPayload, ResearchResult>({
+    ...getQueueConcurrency(config),
+    run: (job, jobSignal) => {
+      const refreshed = refreshJobInput(job, getRow(job.payload.rowIndex), config);
+      sentJobs.set(job.id, refreshed);
+      prompts.set(job.id, renderJobPrompt(refreshed, documents));
+      onUpdate(job.id, { status: 'running', prompt: prompts.get(job.id)! });
+      return runResearchJob(refreshed, jobSignal, {
+        shared: sharedRequests,
+        documents,
+        onRetry: () => retries.set(job.id, (retries.get(job.id) || 0) + 1),
+      });
+    },
+  });
+
+  queue.subscribe(event => {
+    if (event.type === 'status') return;
+    const prompt = prompts.get(event.job.id) || '';
+
+    if (event.type === 'completed') {
+      const { rowIndex, rowId, task } = event.job.payload;
+      const sent = (sentJobs.get(event.job.id) || event.job).payload;
+      // Copies for the job's entity cluster are kept too, so approving fills those rows as well
+      const cells = expandCellResult(event.job, {
+        rowIndex,
+        rowId,
+        column: task.newColumnName,
+        result: event.result,
+        provenance: createProvenance(event.result, {
+          task,
+          prompt: sent.prompt,
+          context: sent.context,
+          retries: retries.get(event.job.id) || 0,
+        }),
+      });
+      Object.values(cells).forEach(cell => rows.set(cell.rowIndex, { ...getRow(cell.rowIndex), [cell.column]: cell.result.text }));
+      Object.assign(results, cells);
+      if (!event.result.fromCache) recordUsageSample(event.result.model, event.result.usage);
+      onUpdate(event.job.id, { status: 'done', prompt, result: event.result });
+    } else if (event.type === 'failed') {
+      onUpdate(event.job.id, { status: 'failed', prompt, error: classifyError(event.error).description });
+    } else if (event.type === 'skipped') {
+      onUpdate(event.job.id, { status: 'failed', prompt, error: 'Skipped because an input task failed' });
+    }
+  });
+
+  jobs.forEach(job => onUpdate(job.id, { status: 'pending', prompt: prompts.get(job.id)! }));
+  signal?.addEventListener('abort', () => queue.cancel(), { once: true });
+
+  queue.add(jobs);
+  await queue.start();
+  return results;
+};
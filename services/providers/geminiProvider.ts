@@ -0,0 +1,112 @@
+import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { Source, TokenUsage } from "../../types";
+import { CompletionRequest, CompletionResponse, LlmProvider, ModelTier } from "../llmProvider";
+import { LlmError } from "../llmErrors";
+
+export interface GeminiProviderOptions {
+  apiKey: string;
+  fastModel?: string;
+  thinkingModel?: string;
+  thinkingBudget?: number;
+}
+
+const toUsage = (response: GenerateContentResponse): TokenUsage => {
+  const meta = response.usageMetadata;
+  const promptTokens = meta?.promptTokenCount ?? 0;
+  const outputTokens = meta?.candidatesTokenCount ?? 0;
+  const thinkingTokens = meta?.thoughtsTokenCount ?? 0;
+  const groundingTokens = meta?.toolUsePromptTokenCount ?? 0;
+  return {
+    promptTokens,
+    outputTokens,
+    thinkingTokens,
+    groundingTokens,
+    totalTokens: meta?.totalTokenCount ?? promptTokens + outputTokens + thinkingTokens + groundingTokens,
+  };
+};
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+// Gemini reports blocked prompts/answers in the response instead of throwing
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new LlmError('safety', `Prompt blocked: ${blockReason}`);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) {
+    throw new LlmError('safety', `Response blocked: ${finishReason}`);
+  }
+};
+
+const toSources = (response: GenerateContentResponse): Source[] => {
+  const sources: Source[] = [];
+  const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
+
+  if (chunks) {
+    chunks.forEach(chunk => {
+      if (chunk.web) {
+        sources.push({
+          title: chunk.web.title ?? 'Source',
+          uri: chunk.web.uri ?? ''
+        });
+      }
+    });
+  }
+
+  return sources;
+};
+
+/**
+ * Gemini adapter. Search completions use Google Search Grounding.
+ */
+export const createGeminiProvider = ({
+  apiKey,
+  fastModel = 'gemini-2.5-flash',
+  thinkingModel = 'gemini-3-pro-preview',
+  thinkingBudget = 32768,
+}: GeminiProviderOptions): LlmProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const resolveModel = (tier: ModelTier) => tier === 'thinking' ? thinkingModel : fastModel;
+
+  const generate = async (request: CompletionRequest, config: any): Promise<CompletionResponse> => {
+    const model = resolveModel(request.tier);
+
+    if (request.tier === 'thinking') {
+      // High thinking budget for complex reasoning
+      config.thinkingConfig = { thinkingBudget };
+    } else if (request.temperature !== undefined) {
+      config.temperature = request.temperature;
+    }
+    if (request.signal) config.abortSignal = request.signal;
+
+    const response = await ai.models.generateContent({
+      model,
+      contents: request.prompt,
+      config,
+    });
+    assertNotBlocked(response);
+
+    return {
+      text: response.text ? response.text.trim() : '',
+      sources: toSources(response),
+      model,
+      usage: toUsage(response),
+    };
+  };
+
+  return {
+    name: 'gemini',
+    supportsSearchGrounding: true,
+    isConfigured: () => !!apiKey,
+    resolveModel,
+    searchCompletion: (request) => generate(request, {
+      tools: [{ googleSearch: {} }], // Enable live internet access
+    }),
+    jsonCompletion: (request) => generate(request, {
+      responseMimeType: 'application/json',
+      ...(request.responseSchema ? { responseJsonSchema: request.responseSchema } : {}),
+    }),
+  };
+};
@@ -0,0 +1,86 @@
+import { Source } from "../../types";
+import { hashString } from "../../utils/hash";
+import { CompletionRequest, CompletionResponse, LlmProvider, ModelTier } from "../llmProvider";
+
+export type MockCallKind = 'search' | 'json';
+
+export interface MockReply {
+  text: string;
+  sources?: Source[];
+}
+
+export interface MockProviderOptions {
+  // Custom responder; return a string or a reply with sources
+  respond?: (request: CompletionRequest, kind: MockCallKind) => string | MockReply;
+  // Artificial latency per call, useful for exercising concurrency
+  latencyMs?: number;
+}
+
+export interface MockProvider extends LlmProvider {
+  calls: { kind: MockCallKind; request: CompletionRequest }[];
+}
+
+// Rough token estimate (~4 characters per token)
+const countTokens = (text: string) => Math.ceil(text.length / 4);
+
+const defaultRespond = (request: CompletionRequest, kind: MockCallKind): MockReply => {
+  if (kind === 'json') {
+    return { text: '{}' };
+  }
+  const id = hashString(request.prompt);
+  return {
+    text: `mock-${id}`,
+    sources: [{ title: `Mock source ${id}`, uri: `https://example.com/${id}` }],
+  };
+};
+
+/**
+ * Deterministic in-memory provider. The same prompt always yields the same
+ * answer, and no network calls are made.
+ */
+export const createMockProvider = ({ respond, latencyMs = 0 }: MockProviderOptions = {}): MockProvider => {
+  const calls: MockProvider['calls'] = [];
+  const resolveModel = (tier: ModelTier) => tier === 'thinking' ? 'mock-thinking' : 'mock-fast';
+
+  const complete = async (request: CompletionRequest, kind: MockCallKind): Promise<CompletionResponse> => {
+    calls.push({ kind, request });
+    if (latencyMs > 0) {
+      // Like a real request, the wait ends early when the caller aborts
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(resolve, latencyMs);
+        request.signal?.addEventListener('abort', () => {
+          clearTimeout(timer);
+          reject(new DOMException('The request was aborted', 'AbortError'));
+        }, { once: true });
+      });
+    }
+
+    const reply = respond ? respond(request, kind) : defaultRespond(request, kind);
+    const { text, sources = [] } = typeof reply === 'string' ? { text: reply } : reply;
+    const promptTokens = countTokens(request.prompt);
+    const outputTokens = countTokens(text);
+
+    return {
+      text,
+      sources,
+      model: resolveModel(request.tier),
+      usage: {
+        promptTokens,
+        outputTokens,
+        thinkingTokens: 0,
+        groundingTokens: 0,
+        totalTokens: promptTokens + outputTokens,
+      },
+    };
+  };
+
+  return {
+    name: 'mock',
+    supportsSearchGrounding: false,
+    calls,
+    isConfigured: () => true,
+    resolveModel,
+    searchCompletion: (request) => complete(request, 'search'),
+    jsonCompletion: (request) => complete(request, 'json'),
+  };
+};
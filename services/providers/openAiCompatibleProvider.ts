@@ -0,0 +1,110 @@
+import { TokenUsage } from "../../types";
+import { CompletionRequest, CompletionResponse, LlmProvider, ModelTier } from "../llmProvider";
+import { classifyError, LlmError } from "../llmErrors";
+
+export interface OpenAiCompatibleProviderOptions {
+  // e.g. http://localhost:8080/v1 (llama.cpp) or http://localhost:11434/v1 (Ollama)
+  baseUrl: string;
+  apiKey?: string;
+  fastModel: string;
+  thinkingModel?: string;
+}
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: { message?: { content?: string | null } }[];
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+    completion_tokens_details?: { reasoning_tokens?: number };
+  };
+}
+
+const toUsage = (usage: ChatCompletionResponse['usage']): TokenUsage => {
+  const promptTokens = usage?.prompt_tokens ?? 0;
+  const outputTokens = usage?.completion_tokens ?? 0;
+  return {
+    promptTokens,
+    outputTokens,
+    thinkingTokens: usage?.completion_tokens_details?.reasoning_tokens ?? 0,
+    groundingTokens: 0,
+    totalTokens: usage?.total_tokens ?? promptTokens + outputTokens,
+  };
+};
+
+/**
+ * Adapter for any server exposing the OpenAI `/chat/completions` API,
+ * including self-hosted llama.cpp and Ollama. These servers have no web
+ * search, so answers come from the model's own knowledge and carry no sources.
+ */
+export const createOpenAiCompatibleProvider = ({
+  baseUrl,
+  apiKey,
+  fastModel,
+  thinkingModel = fastModel,
+}: OpenAiCompatibleProviderOptions): LlmProvider => {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const resolveModel = (tier: ModelTier) => tier === 'thinking' ? thinkingModel : fastModel;
+
+  const complete = async (request: CompletionRequest, extraBody: Record<string, unknown>): Promise<CompletionResponse> => {
+    const model = resolveModel(request.tier);
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content: request.prompt }],
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        ...extraBody,
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      const error = classifyError(Object.assign(
+        new Error(`${response.status} ${response.statusText}: ${body}`),
+        { status: response.status }
+      ));
+      // Honor the Retry-After header (seconds) when the server sends one
+      const retryAfter = parseFloat(response.headers.get('retry-after') || '');
+      throw Number.isFinite(retryAfter)
+        ? new LlmError(error.kind, error.message, { retryAfterMs: retryAfter * 1000, cause: error })
+        : error;
+    }
+
+    let json: ChatCompletionResponse;
+    try {
+      json = await response.json() as ChatCompletionResponse;
+    } catch (error) {
+      throw new LlmError('malformed', 'Server returned invalid JSON', { cause: error });
+    }
+    const text = json.choices?.[0]?.message?.content ?? '';
+
+    return {
+      text: text.trim(),
+      sources: [],
+      model: json.model || model,
+      usage: toUsage(json.usage),
+    };
+  };
+
+  return {
+    name: 'openai-compatible',
+    supportsSearchGrounding: false,
+    isConfigured: () => !!baseUrl,
+    resolveModel,
+    searchCompletion: (request) => complete(request, {}),
+    jsonCompletion: (request) => complete(request, {
+      response_format: request.responseSchema
+        ? { type: 'json_schema', json_schema: { name: 'response', schema: request.responseSchema } }
+        : { type: 'json_object' },
+    }),
+  };
+};
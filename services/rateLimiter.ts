@@ -0,0 +1,145 @@
+import { classifyError, LlmError } from "./llmErrors";
+
+export interface ModelBudget {
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+}
+
+export interface RetryOptions {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Per-attempt timeout
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  onRetry?: (error: LlmError, attempt: number, delayMs: number) => void;
+}
+
+const WINDOW_MS = 60_000;
+
+// Conservative defaults; a run can override them per model with setBudgetOverrides
+const DEFAULT_BUDGET: ModelBudget = { requestsPerMinute: 300, tokensPerMinute: 1_000_000 };
+const modelBudgets: Record<string, ModelBudget> = {
+  'gemini-2.5-flash': { requestsPerMinute: 1000, tokensPerMinute: 1_000_000 },
+  'gemini-3-pro-preview': { requestsPerMinute: 50, tokensPerMinute: 1_000_000 },
+};
+let budgetOverrides: Record<string, Partial<ModelBudget>> = {};
+
+interface Reservation {
+  time: number;
+  tokens: number;
+}
+
+// Requests (and their token counts) made per model in the last minute
+const windows = new Map<string, Reservation[]>();
+
+export const getModelBudget = (model: string): ModelBudget => ({
+  ...(modelBudgets[model] || DEFAULT_BUDGET),
+  ...budgetOverrides[model],
+});
+
+/**
+ * Replaces the per-model overrides of the default budgets; models left out go back to their defaults.
+ */
+export const setBudgetOverrides = (overrides: Record<string, Partial<ModelBudget>>) => {
+  budgetOverrides = overrides;
+};
+
+/**
+ * Resolves after `ms`, or rejects early if the signal aborts.
+ */
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new LlmError('cancelled', 'Request cancelled'));
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new LlmError('cancelled', 'Request cancelled'));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Waits until the model's request and token budget has room, then reserves it.
+ * Call `settle` with the actual token count once the response arrives.
+ */
+export const acquireBudget = async (model: string, estimatedTokens: number, signal?: AbortSignal) => {
+  const window = windows.get(model) || [];
+  windows.set(model, window);
+
+  while (true) {
+    const now = Date.now();
+    while (window.length > 0 && now - window[0].time >= WINDOW_MS) {
+      window.shift();
+    }
+
+    const { requestsPerMinute, tokensPerMinute } = getModelBudget(model);
+    const usedTokens = window.reduce((sum, r) => sum + r.tokens, 0);
+    // Always let a single request through, even if its estimate exceeds the token budget
+    const fitsTokens = window.length === 0 || usedTokens + estimatedTokens <= tokensPerMinute;
+
+    if (window.length < requestsPerMinute && fitsTokens) {
+      const reservation: Reservation = { time: now, tokens: estimatedTokens };
+      window.push(reservation);
+      return {
+        settle: (actualTokens: number) => {
+          reservation.tokens = actualTokens;
+        },
+      };
+    }
+
+    // Wait for the oldest request to leave the window
+    await sleep(Math.max(50, WINDOW_MS - (now - window[0].time)), signal);
+  }
+};
+
+/**
+ * Runs one attempt with its own signal, chained to the caller's. A timeout aborts the
+ * attempt's request, so a retry never runs alongside the call it replaces.
+ */
+const withTimeout = <T>(fn: (signal: AbortSignal) => Promise<T>, timeoutMs?: number, signal?: AbortSignal): Promise<T> => {
+  const controller = new AbortController();
+  const attemptSignal = signal ? AbortSignal.any([signal, controller.signal]) : controller.signal;
+  if (!timeoutMs) return fn(attemptSignal);
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new LlmError('timeout', `No response after ${Math.round(timeoutMs / 1000)}s`);
+      reject(error);
+      controller.abort(error);
+    }, timeoutMs);
+  });
+  return Promise.race([fn(attemptSignal), timeout]).finally(() => clearTimeout(timer));
+};
+
+/**
+ * Runs `fn`, retrying transient failures (rate limits, timeouts, server errors)
+ * with exponential backoff and jitter. Retry-after hints from the API take precedence.
+ * `fn` gets the attempt's signal and should pass it on to its request.
+ */
+export const withRetry = async <T>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  { maxRetries = 4, baseDelayMs = 1000, maxDelayMs = 60_000, timeoutMs, signal, onRetry }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await withTimeout(fn, timeoutMs, signal);
+    } catch (error) {
+      const llmError = classifyError(error);
+      if (!llmError.retryable || attempt >= maxRetries || signal?.aborted) {
+        throw llmError;
+      }
+
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      // Jitter between 50% and 100% of the backoff spreads out retries from parallel jobs
+      const delayMs = llmError.retryAfterMs ?? backoff * (0.5 + Math.random() * 0.5);
+      onRetry?.(llmError, attempt + 1, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+};
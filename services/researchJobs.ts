@@ -0,0 +1,651 @@
+import { CsvRow, EscalationReason, ResearchConfig, ResearchResult, ResearchTask, RowScope, RunMode } from "../types";
+import { isLowConfidence } from "../utils/confidence";
+import { DocumentChunk, DocumentIndex, searchDocuments } from "../utils/documentIndex";
+import { indexClusters, pruneClusters } from "../utils/entityResolution";
+import { NOT_FOUND } from "../utils/outputSchema";
+import { hashString } from "../utils/hash";
+import { extractPlaceholders, renderPrompt } from "../utils/promptTemplate";
+import { getCellKey, getRowId, ROW_ID_FIELD } from "../utils/rowId";
+import { formatReviewFeedback, withReviewFeedback } from "../utils/review";
+import { resolveRowScope } from "../utils/rowScope";
+import { applySourcePolicy, hasSourcePolicy } from "../utils/sourcePolicy";
+import { buildTaskGraph, describeCycle } from "../utils/taskGraph";
+import { isAgentTask, isOfflineTask, usesDocuments } from "../utils/taskModes";
+import {
+  buildAgentPlanPrompt,
+  buildCombinedResearchPrompt,
+  buildDocumentResearchPrompt,
+  buildOfflineBatchPrompt,
+  buildOfflinePrompt,
+  buildResearchPrompt,
+  CombinedField,
+  OfflineBatchItem,
+  processRow,
+  processRows,
+  DEFAULT_AGENT_BUDGET,
+  researchEntity,
+  researchEntityFields,
+  researchEntityInDocuments,
+  researchEntityWithAgent,
+  verifyResearchResult,
+} from "./geminiService";
+import { QueueJob } from "./jobQueue";
+import { classifyError } from "./llmErrors";
+import { cachedResearch, normalizeEntityName } from "./resultCache";
+import { getLlmProvider, ModelTier } from "./llmProvider";
+import { RetryOptions, setBudgetOverrides } from "./rateLimiter";
+import { CellResult } from "./runStore";
+
+export interface ResearchJobPayload {
+  // Position of the row in the run's data, and the row's stable id for binding the result
+  rowIndex: number;
+  rowId: string;
+  task: ResearchTask;
+  entityName: string;
+  // Task prompt with {{Column}} placeholders filled in from the row (and reviewer feedback appended)
+  prompt: string;
+  context: string;
+  useThinkingModel: boolean;
+  escalateToThinking?: boolean;
+  bypassCache?: boolean;
+  cacheTtlHours?: number;
+  verify?: boolean;
+  // Set when a reviewer rejected the cell's previous answer; appended to the prompt
+  reviewFeedback?: string;
+  // Knowledge base documents the cell is grounded on (tasks with document grounding only)
+  documentIds?: string[];
+  // In combined mode, the row's independent tasks (this one included) answered by one shared request
+  batch?: CombinedBatch;
+  // For offline tasks, the rows (this one included) answered by one shared request
+  rowBatch?: OfflineRowBatch;
+  // Other rows of the row's entity cluster, which get a copy of this cell's answer
+  fanOut?: FanOutTarget[];
+}
+
+export interface FanOutTarget {
+  rowIndex: number;
+  rowId: string;
+}
+
+export interface CombinedBatch {
+  fields: CombinedField[];
+  context: string;
+}
+
+export interface OfflineRowBatch {
+  key: string;
+  items: OfflineBatchItem[];
+}
+
+export type ResearchJob = QueueJob<ResearchJobPayload>;
+
+// State from earlier runs used to decide which cells need (re)research
+export interface JobSelectionContext {
+  invalidCells?: Record<string, string>;
+  // Input fingerprints keyed by row identity (see getRowIdentity), recorded when the last run started.
+  // Keyed by identity rather than position so re-uploaded or re-sorted lists still match up.
+  rowFingerprints?: Record<string, string>;
+  // Reviewer notes of rejected cells, keyed by getCellKey (see getRejectedCells)
+  rejectedCells?: Record<string, string>;
+}
+
+export const RUN_MODES: { value: RunMode; label: string }[] = [
+  { value: 'overwrite', label: 'Overwrite all' },
+  { value: 'empty', label: 'Only empty cells' },
+  { value: 'failed', label: 'Retry failed cells' },
+  { value: 'changed', label: 'Only changed rows' },
+  { value: 'rejected', label: 'Re-run rejected cells' },
+];
+
+const FAILED_VALUES = ['N/A', 'Error'];
+
+// Default number of in-flight requests when the config does not set one
+export const defaultConcurrency = (config: ResearchConfig) => config.useThinkingModel ? 2 : 10;
+
+export const DEFAULT_OFFLINE_BATCH_SIZE = 25;
+// Offline requests need no search, so many more can run side by side
+const OFFLINE_PARALLEL_REQUESTS = 20;
+export const OFFLINE_LANE = 'offline';
+
+export const getOfflineBatchSize = (config: ResearchConfig) =>
+  Math.max(1, config.offlineBatchSize || DEFAULT_OFFLINE_BATCH_SIZE);
+
+/**
+ * Queue slots for a run: research jobs share the configured concurrency, offline jobs
+ * get their own lane sized so that many batched requests can be in flight at once.
+ */
+export const getQueueConcurrency = (config: ResearchConfig) => ({
+  concurrency: config.concurrency && config.concurrency > 0 ? config.concurrency : defaultConcurrency(config),
+  laneConcurrency: { [OFFLINE_LANE]: OFFLINE_PARALLEL_REQUESTS * getOfflineBatchSize(config) },
+});
+
+/**
+ * Applies the config's requests/tokens-per-minute overrides to every model the run may call
+ * (escalation and verification can use a different tier than the answers). Overrides from
+ * earlier runs are dropped, so empty fields mean the default budgets.
+ */
+export const applyRateLimits = (config: ResearchConfig) => {
+  const provider = getLlmProvider();
+  const budget = {
+    ...(config.requestsPerMinute ? { requestsPerMinute: config.requestsPerMinute } : {}),
+    ...(config.tokensPerMinute ? { tokensPerMinute: config.tokensPerMinute } : {}),
+  };
+  const models = new Set([provider.resolveModel('fast'), provider.resolveModel('thinking')]);
+  setBudgetOverrides(Object.fromEntries(Array.from(models, model => [model, budget])));
+};
+
+/**
+ * Hash of a row's input values (every column except the task outputs), used to detect edited rows.
+ */
+export const fingerprintRow = (row: CsvRow, config: ResearchConfig) => {
+  const outputColumns = config.tasks.map(t => t.newColumnName);
+  const inputs = Object.keys(row)
+    .filter(key => key !== ROW_ID_FIELD && !outputColumns.includes(key))
+    .sort()
+    .map(key => `${key}=${row[key]}`);
+  return hashString(inputs.join('\u0000'));
+};
+
+// Combine all selected columns to form the entity name
+const getEntityName = (row: CsvRow, config: ResearchConfig) => config.targetColumns
+  .map(col => row[col])
+  .filter(val => val && val.trim() !== '')
+  .join(' ');
+
+// Context candidates minus the columns the given prompts already reference
+const selectContextColumns = (row: CsvRow, config: ResearchConfig, prompts: string[]) => {
+  const referenced = prompts.flatMap(extractPlaceholders);
+  const candidates = config.contextColumns ?? Object.keys(row).filter(key =>
+    key !== ROW_ID_FIELD && !config.targetColumns.includes(key) && !config.tasks.find(t => t.newColumnName === key)
+  );
+  return candidates.filter(key => key in row && !referenced.includes(key));
+};
+
+const formatContext = (row: CsvRow, columns: string[]) => columns.map(key => `${key}: ${row[key]}`).join(', ');
+
+/**
+ * Columns sent as free-form context for a task: the config's explicit list, or every column
+ * that is not part of the entity identity or a task output. Columns the prompt already
+ * references through placeholders are left out.
+ */
+export const getContextColumns = (row: CsvRow, config: ResearchConfig, task: ResearchTask) =>
+  selectContextColumns(row, config, [task.prompt]);
+
+/**
+ * Entity name, rendered prompt and context string sent to the model for one cell.
+ */
+export const buildTaskInput = (row: CsvRow, config: ResearchConfig, task: ResearchTask) => ({
+  entityName: getEntityName(row, config),
+  prompt: renderPrompt(task.prompt, row),
+  context: formatContext(row, getContextColumns(row, config, task)),
+});
+
+// Row values an offline batch sends for a task, including the columns its prompt references
+const buildOfflineItem = (row: CsvRow, rowIndex: number, config: ResearchConfig, task: ResearchTask): OfflineBatchItem => {
+  const referenced = extractPlaceholders(task.prompt).filter(key => key in row);
+  const columns = Array.from(new Set([...selectContextColumns(row, config, []), ...referenced]));
+  return { key: getRowKey(rowIndex), subject: getEntityName(row, config), data: formatContext(row, columns) };
+};
+
+// Key identifying a row inside a multi-row offline answer
+const getRowKey = (rowIndex: number) => `row${rowIndex + 1}`;
+
+/**
+ * Fields and shared context for one combined request covering `tasks` of a row.
+ */
+export const buildCombinedBatch = (row: CsvRow, config: ResearchConfig, tasks: ResearchTask[]): CombinedBatch => ({
+  fields: tasks.map(task => ({
+    key: task.newColumnName,
+    prompt: renderPrompt(task.prompt, row),
+    output: { outputType: task.outputType, enumValues: task.enumValues },
+  })),
+  context: formatContext(row, selectContextColumns(row, config, tasks.map(task => task.prompt))),
+});
+
+export const getRowIdentity = (row: CsvRow, config: ResearchConfig) => normalizeEntityName(getEntityName(row, config));
+
+export const fingerprintRows = (data: CsvRow[], config: ResearchConfig): Record<string, string> =>
+  Object.fromEntries(data.map(row => [getRowIdentity(row, config), fingerprintRow(row, config)]));
+
+// Whether the run mode wants this cell researched
+const shouldResearchCell = (
+  mode: RunMode,
+  row: CsvRow,
+  task: ResearchTask,
+  config: ResearchConfig,
+  { invalidCells = {}, rowFingerprints = {}, rejectedCells = {} }: JobSelectionContext
+) => {
+  const value = (row[task.newColumnName] || '').trim();
+  switch (mode) {
+    case 'empty':
+      return value === '';
+    case 'failed':
+      return FAILED_VALUES.includes(value) || getCellKey(getRowId(row), task.newColumnName) in invalidCells;
+    case 'changed':
+      return rowFingerprints[getRowIdentity(row, config)] !== fingerprintRow(row, config);
+    case 'rejected':
+      return getCellKey(getRowId(row), task.newColumnName) in rejectedCells;
+    default:
+      return true;
+  }
+};
+
+/**
+ * The config's row scope, falling back to the legacy rowLimit ("first N rows").
+ */
+export const getRowScope = (config: ResearchConfig): RowScope => {
+  if (config.rowScope) return config.rowScope;
+  return config.rowLimit && config.rowLimit > 0 ? { type: 'first', count: config.rowLimit } : { type: 'all' };
+};
+
+export const getJobId = (rowIndex: number, taskId: string) => `${rowIndex}:${taskId}`;
+
+// Feedback for a cell a reviewer rejected, quoting the answer it had
+const getReviewFeedback = (row: CsvRow, task: ResearchTask, { rejectedCells = {} }: JobSelectionContext) => {
+  const note = rejectedCells[getCellKey(getRowId(row), task.newColumnName)];
+  return note === undefined ? undefined : formatReviewFeedback(row[task.newColumnName] || '', note);
+};
+
+/**
+ * Builds one job per (row, task) pair for the rows covered by the config,
+ * skipping cells the run mode leaves untouched. Tasks that reference another
+ * task's output depend on that task's job for the same row. In combined mode
+ * the row's independent tasks share one batch request. Rejected cells carry
+ * the reviewer's feedback in their prompt. Rows of a confirmed entity cluster
+ * that render the same prompt (and the same explicitly chosen context columns) for
+ * a research task share one job: the first such row in scope gets the job, sending
+ * its own context, and the others are listed in its fan-out.
+ */
+export const buildResearchJobs = (
+  data: CsvRow[],
+  config: ResearchConfig,
+  selection: JobSelectionContext = {}
+): ResearchJob[] => {
+  const mode = config.runMode || 'overwrite';
+  const graph = buildTaskGraph(config.tasks);
+  if (graph.cycle) {
+    throw new Error(`Tasks depend on each other in a cycle: ${describeCycle(graph.cycle, config.tasks)}`);
+  }
+  // Queue upstream tasks first so their results are ready sooner
+  const orderedTasks = graph.steps.flat().map(id => config.tasks.find(t => t.id === id)!);
+
+  const jobs: ResearchJob[] = [];
+  // Members edited or removed since the clusters were confirmed are researched on their own
+  const clusterOf = indexClusters(pruneClusters(config.entityClusters, data, config.targetColumns));
+  // Job answering each cluster's cell of a task, keyed by `${cluster}:${taskId}:${inputHash}`
+  const clusterJobs = new Map<string, string>();
+  // Rows copying each job's answer, and the job answering each copied cell (both by job id)
+  const fanOut = new Map<string, FanOutTarget[]>();
+  const cellJobs = new Map<string, string>();
+
+  for (const rowIndex of resolveRowScope(data, getRowScope(config))) {
+    const row = data[rowIndex];
+
+    if (!getEntityName(row, config)) continue;
+
+    const cluster = clusterOf.get(getRowId(row));
+    const feedback = new Map(config.tasks.map(task => [task.id, getReviewFeedback(row, task, selection)]));
+    // Job answering each of the row's researched cells so far, by task id
+    const answering = new Map<string, string>();
+    // Prompt the cell would send, plus its context when the config picks the context columns.
+    // The default context (every other column) is left out: duplicates rarely agree on notes
+    // or dates, and the shared job sends the first row's. Outputs of upstream tasks researched
+    // in this run stand in as the job answering them, since their values are about to be replaced.
+    const getInputHash = (task: ResearchTask) => {
+      const inputRow = { ...row };
+      graph.dependencies[task.id].forEach(id => {
+        const upstream = config.tasks.find(t => t.id === id)!;
+        if (answering.has(id)) inputRow[upstream.newColumnName] = `\u0000${answering.get(id)}`;
+      });
+      const prompt = renderPrompt(task.prompt, inputRow);
+      const context = config.contextColumns ? formatContext(inputRow, getContextColumns(inputRow, config, task)) : '';
+      return hashString(`${prompt}\u0000${context}`);
+    };
+    // Offline answers depend on the row's own data and rejected cells need their own feedback,
+    // so only other research cells are shared within a cluster, and only between rows with
+    // the same input hash
+    const rowTasks = orderedTasks.filter(task => {
+      if (!shouldResearchCell(mode, row, task, config, selection)) return false;
+      const ownJobId = getJobId(rowIndex, task.id);
+      if (cluster === undefined || isOfflineTask(task) || feedback.get(task.id)) {
+        answering.set(task.id, ownJobId);
+        return true;
+      }
+      const clusterKey = `${cluster}:${task.id}:${getInputHash(task)}`;
+      const sharedJobId = clusterJobs.get(clusterKey);
+      if (!sharedJobId) {
+        clusterJobs.set(clusterKey, ownJobId);
+        answering.set(task.id, ownJobId);
+        return true;
+      }
+      fanOut.set(sharedJobId, [...(fanOut.get(sharedJobId) || []), { rowIndex, rowId: getRowId(row) }]);
+      cellJobs.set(ownJobId, sharedJobId);
+      answering.set(task.id, sharedJobId);
+      return false;
+    });
+    // Dependent tasks wait for their inputs, so only independent single-call research tasks can be
+    // combined. Tasks with a source policy, document grounding or reviewer feedback need their own
+    // prompt and stay separate.
+    const independent = rowTasks.filter(task =>
+      graph.dependencies[task.id].length === 0
+      && !isOfflineTask(task)
+      && !isAgentTask(task)
+      && !usesDocuments(task)
+      && !hasSourcePolicy(task.sourcePolicy)
+      && !feedback.get(task.id)
+    );
+    const batch = config.executionMode === 'combined' && independent.length > 1
+      ? buildCombinedBatch(row, config, independent)
+      : undefined;
+
+    rowTasks.forEach(task => {
+      const dependencies = graph.dependencies[task.id];
+      const offline = isOfflineTask(task);
+      const input = buildTaskInput(row, config, task);
+      const reviewFeedback = feedback.get(task.id);
+      jobs.push({
+        id: getJobId(rowIndex, task.id),
+        // An input copied from another cluster row waits for the job answering it
+        dependsOn: dependencies.length > 0
+          ? Array.from(new Set(dependencies.map(id => cellJobs.get(getJobId(rowIndex, id)) ?? getJobId(rowIndex, id))))
+          : undefined,
+        lane: offline ? OFFLINE_LANE : undefined,
+        payload: {
+          rowIndex,
+          rowId: getRowId(row),
+          task,
+          ...input,
+          prompt: withReviewFeedback(input.prompt, reviewFeedback),
+          useThinkingModel: config.useThinkingModel,
+          escalateToThinking: config.escalateToThinking,
+          bypassCache: config.bypassCache,
+          cacheTtlHours: config.cacheTtlHours,
+          // Offline answers have no sources to check them against
+          verify: config.verifyResults && !offline,
+          reviewFeedback,
+          documentIds: usesDocuments(task) ? config.documentIds || [] : undefined,
+          batch: batch && independent.includes(task) ? batch : undefined,
+        },
+      });
+    });
+  }
+
+  const clustered = fanOut.size > 0
+    ? jobs.map(job => fanOut.has(job.id) ? { ...job, payload: { ...job.payload, fanOut: fanOut.get(job.id) } } : job)
+    : jobs;
+  return assignOfflineRowBatches(clustered, data, config);
+};
+
+/**
+ * A finished job's cell plus a copy for every row in its fan-out, keyed by the job id
+ * each cell would have had. Copies record the row the answer was researched for.
+ */
+export const expandCellResult = (job: ResearchJob, cell: CellResult): Record<string, CellResult> => {
+  const cells: Record<string, CellResult> = { [job.id]: cell };
+  job.payload.fanOut?.forEach(({ rowIndex, rowId }) => {
+    cells[getJobId(rowIndex, job.payload.task.id)] = {
+      ...cell,
+      rowIndex,
+      rowId,
+      provenance: cell.provenance && { ...cell.provenance, copiedFrom: job.payload.rowId },
+    };
+  });
+  return cells;
+};
+
+// Groups the jobs of each independent offline task into multi-row requests of the configured size
+const assignOfflineRowBatches = (jobs: ResearchJob[], data: CsvRow[], config: ResearchConfig): ResearchJob[] => {
+  const batchSize = getOfflineBatchSize(config);
+  if (batchSize < 2) return jobs;
+
+  const groups = new Map<string, ResearchJob[]>();
+  jobs.forEach(job => {
+    if (!isOfflineTask(job.payload.task) || job.dependsOn || job.payload.reviewFeedback) return;
+    groups.set(job.payload.task.id, [...(groups.get(job.payload.task.id) || []), job]);
+  });
+
+  const rowBatches = new Map<string, OfflineRowBatch>();
+  groups.forEach((taskJobs, taskId) => {
+    for (let start = 0; start < taskJobs.length; start += batchSize) {
+      const chunk = taskJobs.slice(start, start + batchSize);
+      if (chunk.length < 2) continue;
+      const rowBatch = {
+        key: `${taskId}:${start / batchSize}`,
+        items: chunk.map(({ payload }) => buildOfflineItem(data[payload.rowIndex], payload.rowIndex, config, payload.task)),
+      };
+      chunk.forEach(job => rowBatches.set(job.id, rowBatch));
+    }
+  });
+
+  return jobs.map(job => {
+    const rowBatch = rowBatches.get(job.id);
+    return rowBatch ? { ...job, payload: { ...job.payload, rowBatch } } : job;
+  });
+};
+
+/**
+ * Key of the model request a job's answer comes from; jobs sharing a combined
+ * or multi-row request share a key.
+ */
+export const getRequestKey = ({ id, payload }: ResearchJob) => {
+  if (payload.rowBatch) return `rows|${payload.rowBatch.key}`;
+  if (payload.batch) return `row|${payload.rowIndex}`;
+  return `cell|${id}`;
+};
+
+/**
+ * Re-renders a dependent job's prompt and context from the row as it is now,
+ * so it sees the outputs its upstream tasks produced during the run.
+ */
+export const refreshJobInput = (job: ResearchJob, row: CsvRow, config: ResearchConfig): ResearchJob => {
+  if (!job.dependsOn) return job;
+  const input = buildTaskInput(row, config, job.payload.task);
+  return { ...job, payload: { ...job.payload, ...input, prompt: withReviewFeedback(input.prompt, job.payload.reviewFeedback) } };
+};
+
+// Passages sent to the model for a document-grounded cell
+const DOCUMENT_EXCERPT_LIMIT = 6;
+
+/**
+ * The passages of the cell's documents that best match its subject and prompt.
+ * Empty for tasks without document grounding or when no index is loaded.
+ */
+export const retrieveExcerpts = (
+  { entityName, prompt, documentIds }: Pick<ResearchJobPayload, 'entityName' | 'prompt' | 'documentIds'>,
+  documents?: DocumentIndex
+): DocumentChunk[] => {
+  if (!documents || !documentIds?.length) return [];
+  return searchDocuments(documents, `${entityName} ${prompt}`, DOCUMENT_EXCERPT_LIMIT, documentIds);
+};
+
+/**
+ * The full prompt a job sends to the model (the shared prompt for combined and multi-row jobs,
+ * the first planning prompt for agent jobs). Document-grounded prompts include the excerpts
+ * retrieved from `documents`.
+ */
+export const renderJobPrompt = ({ payload }: ResearchJob, documents?: DocumentIndex) => {
+  const { task, entityName, prompt, context, batch, rowBatch } = payload;
+  const output = { outputType: task.outputType, enumValues: task.enumValues };
+  if (isOfflineTask(task)) {
+    return rowBatch
+      ? buildOfflineBatchPrompt(task.mode, task.prompt, rowBatch.items, output)
+      : buildOfflinePrompt(task.mode, entityName, prompt, context, output);
+  }
+  if (isAgentTask(task)) {
+    return buildAgentPlanPrompt(entityName, prompt, context, 'Nothing searched yet.', getAgentBudget(task).maxSteps);
+  }
+  if (usesDocuments(task)) {
+    return buildDocumentResearchPrompt(entityName, prompt, context, retrieveExcerpts(payload, documents), output, {
+      useWebSearch: task.grounding === 'both',
+      sourcePolicy: task.sourcePolicy,
+    });
+  }
+  return batch
+    ? buildCombinedResearchPrompt(entityName, batch.fields, batch.context)
+    : buildResearchPrompt(entityName, prompt, context, output, task.sourcePolicy);
+};
+
+/**
+ * An agent task's step and time budget, with defaults filled in.
+ */
+export const getAgentBudget = (task: ResearchTask) => ({ ...DEFAULT_AGENT_BUDGET, ...task.agentBudget });
+
+/**
+ * Number of jobs each run mode would schedule for the config.
+ */
+export const countJobsByMode = (
+  data: CsvRow[],
+  config: ResearchConfig,
+  selection: JobSelectionContext = {}
+): Record<RunMode, number> =>
+  Object.fromEntries(
+    RUN_MODES.map(({ value }) => [value, buildResearchJobs(data, { ...config, runMode: value }, selection).length])
+  ) as Record<RunMode, number>;
+
+/**
+ * Why a fast-model answer should be re-run on the thinking model, if it should.
+ */
+export const getEscalationReason = (result: ResearchResult): EscalationReason | undefined => {
+  if (result.validationError) return 'invalid';
+  if (result.text === NOT_FOUND) return 'not_found';
+  if (isLowConfidence(result.confidence)) return 'low_confidence';
+  return undefined;
+};
+
+export type SharedRequests = ReturnType<typeof createSharedRequests>;
+
+/**
+ * Per-run registry of combined and multi-row requests, so every job they answer shares
+ * one call. Failed requests are forgotten so a resumed job can try again.
+ */
+export const createSharedRequests = () => {
+  const requests = new Map<string, Promise<Record<string, ResearchResult>>>();
+  return (key: string, research: () => Promise<Record<string, ResearchResult>>) => {
+    let request = requests.get(key);
+    if (!request) {
+      request = research();
+      requests.set(key, request);
+      request.catch(() => {
+        if (requests.get(key) === request) requests.delete(key);
+      });
+    }
+    return request;
+  };
+};
+
+export interface RunJobOptions {
+  // Registry of the run's shared combined and multi-row requests
+  shared?: SharedRequests;
+  // Called before each retry of a model call the job makes
+  onRetry?: RetryOptions['onRetry'];
+  // Index over the knowledge base, searched by tasks with document grounding
+  documents?: DocumentIndex;
+}
+
+// This job's answer from the shared request it belongs to, or undefined when the
+// request failed or left the cell out
+const researchFromSharedRequest = async (
+  job: ResearchJob,
+  tier: ModelTier,
+  signal: AbortSignal | undefined,
+  { shared, onRetry }: RunJobOptions
+): Promise<ResearchResult | undefined> => {
+  const { rowIndex, entityName, task, batch, rowBatch } = job.payload;
+  if (!shared || (!batch && !rowBatch)) return undefined;
+  const useThinkingModel = tier === 'thinking';
+  const output = { outputType: task.outputType, enumValues: task.enumValues };
+
+  try {
+    if (rowBatch && isOfflineTask(task)) {
+      const results = await shared(`${getRequestKey(job)}|${tier}`, () =>
+        processRows(task.prompt, rowBatch.items, { mode: task.mode, useThinkingModel, output, signal, onRetry })
+      );
+      return results[getRowKey(rowIndex)];
+    }
+    if (batch) {
+      const results = await shared(`${getRequestKey(job)}|${tier}`, () =>
+        researchEntityFields(entityName, batch.fields, batch.context, { useThinkingModel, signal, onRetry })
+      );
+      return results[task.newColumnName];
+    }
+    return undefined;
+  } catch (error) {
+    const llmError = classifyError(error);
+    // Quota and auth problems fail the job, as does this job's own cancellation.
+    // Anything else (including another job's cancelled request) falls back to a single-cell call.
+    if (llmError.stopsRun || signal?.aborted) throw llmError;
+    console.warn('Shared request failed, answering the cell on its own:', llmError);
+    return undefined;
+  }
+};
+
+/**
+ * Executes a single research job, reusing cached answers for identical requests
+ * and running the verifier when the config asks for it. Combined and multi-row jobs
+ * take their answer from the request they share in `shared`. Offline tasks only read
+ * the row's data; agent tasks search in several planned steps; document-grounded tasks answer
+ * from the best matching passages of the run's documents. With escalation on, weak fast-model
+ * answers are re-run on the thinking model.
+ */
+export const runResearchJob = async (
+  job: ResearchJob,
+  signal?: AbortSignal,
+  options: RunJobOptions = {}
+): Promise<ResearchResult> => {
+  const { onRetry, documents } = options;
+  const { entityName, task, prompt, context, useThinkingModel, escalateToThinking, bypassCache, cacheTtlHours, verify } = job.payload;
+  const output = { outputType: task.outputType, enumValues: task.enumValues };
+  const excerpts = usesDocuments(task) ? retrieveExcerpts(job.payload, documents) : [];
+
+  const answerCell = async (tier: ModelTier): Promise<ResearchResult> => {
+    const useThinkingModel = tier === 'thinking';
+    if (isOfflineTask(task)) return processRow(entityName, prompt, context, { mode: task.mode, useThinkingModel, output, signal, onRetry });
+    const options = { useThinkingModel, output, signal, onRetry, sourcePolicy: task.sourcePolicy };
+    if (usesDocuments(task)) {
+      // Nothing in the documents is about this cell, so there is nothing to ask the model
+      if (task.grounding === 'documents' && excerpts.length === 0) return { text: NOT_FOUND, sources: [] };
+      return researchEntityInDocuments(entityName, prompt, context, excerpts, { ...options, useWebSearch: task.grounding === 'both' });
+    }
+    return isAgentTask(task)
+      ? researchEntityWithAgent(entityName, prompt, context, { ...options, budget: task.agentBudget })
+      : researchEntity(entityName, prompt, context, options);
+  };
+
+  const researchOn = (tier: ModelTier, useShared: boolean) => cachedResearch(
+    {
+      entityName,
+      prompt,
+      context,
+      model: getLlmProvider().resolveModel(tier),
+      output,
+      mode: task.mode,
+      verify,
+      sourcePolicy: task.sourcePolicy,
+      grounding: usesDocuments(task) ? task.grounding : undefined,
+      excerpts: excerpts.map(chunk => chunk.text),
+    },
+    async () => {
+      const answer = (useShared ? await researchFromSharedRequest(job, tier, signal, options) : undefined)
+        ?? await answerCell(tier);
+      // Sources breaking the task's policy are dropped before the verifier sees them
+      const result = applySourcePolicy(answer, task.sourcePolicy);
+      return verify ? verifyResearchResult(entityName, prompt, result, { signal, onRetry }) : result;
+    },
+    { bypass: bypassCache, ttlHours: cacheTtlHours }
+  );
+
+  const result = await researchOn(useThinkingModel ? 'thinking' : 'fast', true);
+  const reason = !useThinkingModel && escalateToThinking ? getEscalationReason(result) : undefined;
+  if (!reason) return result;
+
+  // Escalations are per cell, so they always go out as single-cell requests
+  const escalated = await researchOn('thinking', false);
+  return {
+    ...escalated,
+    escalation: {
+      reason,
+      fromModel: result.model || getLlmProvider().resolveModel('fast'),
+      initialUsage: result.fromCache ? undefined : result.usage,
+    },
+  };
+};
@@ -0,0 +1,218 @@
+import { Grounding, OutputSpec, ResearchResult, SourcePolicy, TaskMode } from "../types";
+import { hashString } from "../utils/hash";
+import { hasSourcePolicy } from "../utils/sourcePolicy";
+import { idbClear, idbDelete, idbGet, idbPut, isIndexedDbAvailable, STORES } from "./indexedDb";
+import { emptyUsage } from "./llmProvider";
+
+export interface CacheEntry {
+  key: string;
+  entityName: string;
+  model: string;
+  result: ResearchResult;
+  cachedAt: number;
+}
+
+export interface CacheStore {
+  get: (key: string) => Promise<CacheEntry | undefined>;
+  set: (entry: CacheEntry) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+export interface CacheKeyParts {
+  entityName: string;
+  prompt: string;
+  context: string;
+  model: string;
+  output?: OutputSpec;
+  mode?: TaskMode;
+  // Verified answers are cached separately from unverified ones
+  verify?: boolean;
+  sourcePolicy?: SourcePolicy;
+  grounding?: Grounding;
+  // Document passages sent with the prompt, so answers refresh when the documents change
+  excerpts?: string[];
+}
+
+export const DEFAULT_CACHE_TTL_HOURS = 24 * 7;
+
+/**
+ * Normalizes an entity name so trivial formatting differences hit the same cache entry.
+ */
+export const normalizeEntityName = (name: string) =>
+  name.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Cache key built from the normalized entity, task prompt (output type, offline mode, source
+ * policy and document grounding), context hash and model.
+ */
+export const buildCacheKey = ({ entityName, prompt, context, model, output, mode, verify, sourcePolicy, grounding, excerpts }: CacheKeyParts) => {
+  const task: unknown[] = [prompt.trim(), output?.outputType || 'text', output?.enumValues || []];
+  // Research keys stay as they were before offline modes, source policies and documents existed
+  if (mode && mode !== 'research') task.push(mode);
+  if (hasSourcePolicy(sourcePolicy)) task.push(sourcePolicy);
+  if (grounding && grounding !== 'web') task.push(grounding, hashString(JSON.stringify(excerpts || [])));
+  const taskHash = hashString(JSON.stringify(task));
+  const key = [model, normalizeEntityName(entityName), taskHash, hashString(context)].join('|');
+  return verify ? `${key}|verified` : key;
+};
+
+/**
+ * Browser store backed by IndexedDB.
+ */
+export const createIndexedDbStore = (): CacheStore => ({
+  get: (key) => idbGet<CacheEntry>(STORES.researchCache, key),
+  set: (entry) => idbPut(STORES.researchCache, entry),
+  delete: (key) => idbDelete(STORES.researchCache, key),
+  clear: () => idbClear(STORES.researchCache),
+});
+
+// Kept out of the browser bundle; only resolved when running under Node
+const NODE_FS_MODULE = 'node:fs/promises';
+const loadFs = (): Promise<typeof import('node:fs/promises')> => import(/* @vite-ignore */ NODE_FS_MODULE);
+
+/**
+ * Node store persisted as a JSON file, for scripts and tests.
+ */
+export const createFileStore = (filePath: string): CacheStore => {
+  let entries: Record<string, CacheEntry> | null = null;
+  // Serialize writes so concurrent sets don't clobber each other
+  let writeChain: Promise<void> = Promise.resolve();
+
+  const load = async () => {
+    if (!entries) {
+      const fs = await loadFs();
+      try {
+        entries = JSON.parse(await fs.readFile(filePath, 'utf8'));
+      } catch {
+        entries = {};
+      }
+    }
+    return entries!;
+  };
+
+  const persist = () => {
+    writeChain = writeChain.then(async () => {
+      const fs = await loadFs();
+      await fs.writeFile(filePath, JSON.stringify(entries));
+    });
+    return writeChain;
+  };
+
+  return {
+    get: async (key) => (await load())[key],
+    set: async (entry) => {
+      (await load())[entry.key] = entry;
+      await persist();
+    },
+    delete: async (key) => {
+      delete (await load())[key];
+      await persist();
+    },
+    clear: async () => {
+      entries = {};
+      await persist();
+    },
+  };
+};
+
+/**
+ * Non-persistent store, used when neither IndexedDB nor the file system is available.
+ */
+export const createMemoryStore = (): CacheStore => {
+  const entries = new Map<string, CacheEntry>();
+  return {
+    get: async (key) => entries.get(key),
+    set: async (entry) => {
+      entries.set(entry.key, entry);
+    },
+    delete: async (key) => {
+      entries.delete(key);
+    },
+    clear: async () => {
+      entries.clear();
+    },
+  };
+};
+
+const createDefaultStore = (): CacheStore => {
+  if (isIndexedDbAvailable()) return createIndexedDbStore();
+  if (typeof process !== 'undefined' && process.versions?.node) return createFileStore('.syntellix-cache.json');
+  return createMemoryStore();
+};
+
+let store: CacheStore | null = null;
+// Requests currently running, so duplicate entities in a run share one call
+const inFlight = new Map<string, Promise<ResearchResult>>();
+
+export const getResultCache = (): CacheStore => {
+  if (!store) store = createDefaultStore();
+  return store;
+};
+
+export const setResultCache = (next: CacheStore | null) => {
+  store = next;
+};
+
+export const clearResultCache = () => getResultCache().clear();
+
+// Failed or invalid answers are never cached so they can be retried
+const isCacheable = (result: ResearchResult) => !result.validationError && result.text !== 'Error';
+
+export interface CachedResearchOptions {
+  ttlHours?: number;
+  // Skip reading the cache (fresh results are still written back)
+  bypass?: boolean;
+}
+
+/**
+ * Returns a cached result for `parts` if one is fresh, otherwise runs `research`
+ * and stores the answer. Concurrent calls with the same key share one request; the
+ * later callers get a copy marked as cached and without usage, so its tokens count once.
+ */
+export const cachedResearch = async (
+  parts: CacheKeyParts,
+  research: () => Promise<ResearchResult>,
+  { ttlHours = DEFAULT_CACHE_TTL_HOURS, bypass = false }: CachedResearchOptions = {}
+): Promise<ResearchResult> => {
+  const key = buildCacheKey(parts);
+
+  const running = inFlight.get(key);
+  if (running) return running.then(result => ({ ...result, fromCache: true, usage: emptyUsage() }));
+
+  const promise = (async () => {
+    const cache = getResultCache();
+
+    if (!bypass) {
+      try {
+        const entry = await cache.get(key);
+        if (entry && Date.now() - entry.cachedAt < ttlHours * 3_600_000) {
+          return { ...entry.result, fromCache: true };
+        }
+      } catch (error) {
+        console.warn('Result cache read failed:', error);
+      }
+    }
+
+    const result = await research();
+
+    if (isCacheable(result)) {
+      cache.set({
+        key,
+        entityName: normalizeEntityName(parts.entityName),
+        model: parts.model,
+        result: { ...result, fromCache: undefined },
+        cachedAt: Date.now(),
+      }).catch(error => console.warn('Result cache write failed:', error));
+    }
+
+    return result;
+  })();
+
+  inFlight.set(key, promise);
+  try {
+    return await promise;
+  } finally {
+    inFlight.delete(key);
+  }
+};
@@ -0,0 +1,194 @@
+import { AgentLog, AgentLogType, CsvRow } from "../types";
+import { idbDelete, idbGet, idbGetAll, idbGetAllKeys, idbPut, isIndexedDbAvailable, STORES } from "./indexedDb";
+
+export interface RunLogRecord {
+  key: string;
+  runId: string;
+  // Output columns of the run, to tell runs apart when browsing old logs
+  columns: string[];
+  startedAt: number;
+  updatedAt: number;
+  // Entries ever added, including the oldest ones dropped past MAX_ENTRIES
+  entryCount: number;
+  entries: AgentLog[];
+}
+
+// A stored log holds no entries itself; they are kept in chunks so a flush only writes what changed
+type StoredRunLog = Omit<RunLogRecord, 'entries'>;
+
+interface RunLogChunk {
+  key: string;
+  runId: string;
+  // Position of the chunk's first entry among every entry of the run
+  start: number;
+  entries: AgentLog[];
+}
+
+// Oldest entries are dropped past this, so one huge run can't fill the store
+const MAX_ENTRIES = 20_000;
+// Logs of older runs are deleted once this many are stored
+const MAX_STORED_RUNS = 20;
+const FLUSH_INTERVAL_MS = 500;
+const CHUNK_SIZE = 500;
+
+// Zero-padded so a run's chunks sort in order
+const getChunkKey = (runId: string, chunk: number) => `${runId}:${String(chunk).padStart(6, '0')}`;
+
+const getChunkRange = (runId: string, fromChunk = 0) =>
+  IDBKeyRange.bound(getChunkKey(runId, fromChunk), `${runId}:\uffff`);
+
+const createLogId = () => Math.random().toString(36).substr(2, 9);
+
+export const createLogEntry = (type: AgentLogType, message: string, details: Partial<AgentLog> = {}): AgentLog => ({
+  ...details,
+  id: createLogId(),
+  timestamp: new Date(),
+  message,
+  type,
+});
+
+const readRunLog = async (stored: StoredRunLog): Promise<RunLogRecord> => {
+  const firstKept = Math.max(0, stored.entryCount - MAX_ENTRIES);
+  const chunks = await idbGetAll<RunLogChunk>(STORES.runLogChunks, getChunkRange(stored.runId, Math.floor(firstKept / CHUNK_SIZE)));
+  const start = chunks.length > 0 ? chunks[0].start : firstKept;
+  const entries = chunks
+    .flatMap(chunk => chunk.entries)
+    .slice(Math.max(0, firstKept - start), stored.entryCount - start);
+  return { ...stored, entries };
+};
+
+export const loadRunLog = async (runId: string): Promise<RunLogRecord | undefined> => {
+  if (!isIndexedDbAvailable()) return undefined;
+  const stored = await idbGet<StoredRunLog>(STORES.runLogs, runId);
+  return stored && readRunLog(stored);
+};
+
+/**
+ * Stored run logs, newest first.
+ */
+export const loadRunLogs = async (): Promise<RunLogRecord[]> => {
+  if (!isIndexedDbAvailable()) return [];
+  const records = await Promise.all((await idbGetAll<StoredRunLog>(STORES.runLogs)).map(readRunLog));
+  return records.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+/**
+ * Deletes the logs of all but the newest runs, keeping room for the current one.
+ * Run ids start with their creation time, so sorted keys list runs oldest first.
+ */
+const pruneRunLogs = async (currentRunId: string) => {
+  const keys = (await idbGetAllKeys(STORES.runLogs)).filter(key => key !== currentRunId).sort();
+  const stale = keys.slice(0, Math.max(0, keys.length - (MAX_STORED_RUNS - 1)));
+  await Promise.all(stale.flatMap(key => [
+    idbDelete(STORES.runLogs, key),
+    idbDelete(STORES.runLogChunks, getChunkRange(key)),
+  ]));
+};
+
+export interface RunLogger {
+  readonly runId: string;
+  add: (type: AgentLogType, message: string, details?: Partial<AgentLog>) => void;
+  getEntries: () => AgentLog[];
+  // Called with the current entries at most every FLUSH_INTERVAL_MS while entries arrive
+  subscribe: (listener: (entries: AgentLog[]) => void) => () => void;
+  // Persists pending entries right away
+  flush: () => Promise<void>;
+}
+
+/**
+ * Activity log of one run. Entries are persisted with the run id (appending to
+ * `previous` when a run is resumed) so past runs can be audited later. Creating
+ * a logger deletes the logs of runs past MAX_STORED_RUNS.
+ */
+export const createRunLogger = (
+  { runId, columns, startedAt }: Pick<RunLogRecord, 'runId' | 'columns' | 'startedAt'>,
+  previous?: Pick<RunLogRecord, 'entryCount' | 'entries'>
+): RunLogger => {
+  let entries = previous ? [...previous.entries] : [];
+  let entryCount = previous?.entryCount || 0;
+  // Entries already stored; a flush writes only the chunks holding later ones
+  let savedCount = entryCount;
+  const listeners = new Set<(entries: AgentLog[]) => void>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  if (isIndexedDbAvailable()) {
+    pruneRunLogs(runId).catch(error => console.error("Failed to prune run logs", error));
+  }
+
+  const save = async (snapshot: AgentLog[], count: number) => {
+    if (!isIndexedDbAvailable() || count === savedCount) return;
+    const firstKept = count - snapshot.length;
+    const firstChunk = Math.floor(firstKept / CHUNK_SIZE);
+    const chunks: RunLogChunk[] = [];
+    for (let chunk = Math.max(firstChunk, Math.floor(savedCount / CHUNK_SIZE)); chunk * CHUNK_SIZE < count; chunk++) {
+      const start = Math.max(chunk * CHUNK_SIZE, firstKept);
+      const end = Math.min((chunk + 1) * CHUNK_SIZE, count);
+      chunks.push({ key: getChunkKey(runId, chunk), runId, start, entries: snapshot.slice(start - firstKept, end - firstKept) });
+    }
+    await Promise.all(chunks.map(chunk => idbPut(STORES.runLogChunks, chunk)));
+    if (firstChunk > 0) {
+      await idbDelete(STORES.runLogChunks, IDBKeyRange.bound(getChunkKey(runId, 0), getChunkKey(runId, firstChunk), false, true));
+    }
+    await idbPut<StoredRunLog>(STORES.runLogs, { key: runId, runId, columns, startedAt, updatedAt: Date.now(), entryCount: count });
+    savedCount = Math.max(savedCount, count);
+  };
+
+  const flush = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    const snapshot = [...entries];
+    listeners.forEach(listener => listener(snapshot));
+    return save(snapshot, entryCount).catch(error => console.error("Failed to save run log", error));
+  };
+
+  return {
+    runId,
+    add: (type, message, details) => {
+      entries.push(createLogEntry(type, message, details));
+      entryCount++;
+      if (entries.length > MAX_ENTRIES) entries = entries.slice(-MAX_ENTRIES);
+      if (!timer) timer = setTimeout(flush, FLUSH_INTERVAL_MS);
+    },
+    getEntries: () => entries,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    flush,
+  };
+};
+
+export interface LogFilter {
+  type?: AgentLogType;
+  taskId?: string;
+  // 0-based row index
+  rowIndex?: number;
+}
+
+export const filterLogs = (entries: AgentLog[], { type, taskId, rowIndex }: LogFilter) =>
+  entries.filter(entry =>
+    (!type || entry.type === type) &&
+    (!taskId || entry.taskId === taskId) &&
+    (rowIndex === undefined || entry.rowIndex === rowIndex)
+  );
+
+/**
+ * Flattens log entries into spreadsheet rows for CSV export (rows numbered from 1).
+ */
+export const logsToRows = (entries: AgentLog[]): CsvRow[] =>
+  entries.map(entry => ({
+    timestamp: new Date(entry.timestamp).toISOString(),
+    type: entry.type,
+    event: entry.event || '',
+    row: entry.rowIndex !== undefined ? String(entry.rowIndex + 1) : '',
+    column: entry.column || '',
+    model: entry.model || '',
+    latencyMs: entry.latencyMs !== undefined ? String(Math.round(entry.latencyMs)) : '',
+    sources: entry.sourceCount !== undefined ? String(entry.sourceCount) : '',
+    message: entry.message,
+    error: entry.error || '',
+  }));
@@ -0,0 +1,61 @@
+import { CellProvenance, CsvRow, ResearchConfig, ResearchResult } from "../types";
+import { idbDelete, idbGet, idbPut, isIndexedDbAvailable, STORES } from "./indexedDb";
+
+// Only one run is active at a time, so it lives under a fixed key
+const ACTIVE_RUN_KEY = 'active';
+
+export interface CellResult {
+  // Position in the run's data and the row's stable id; the id decides which row the result lands in
+  rowIndex: number;
+  rowId: string;
+  column: string;
+  result: ResearchResult;
+  // Missing in checkpoints saved before provenance was recorded
+  provenance?: CellProvenance;
+}
+
+export interface RunCheckpoint {
+  key: string;
+  runId: string;
+  config: ResearchConfig;
+  // Dataset, provenance and validation marks as they were when the run started.
+  // Per-cell maps are keyed by getCellKey (row id and column).
+  data: CsvRow[];
+  columns: string[];
+  cellProvenance: Record<string, CellProvenance>;
+  invalidCells: Record<string, string>;
+  // Confidence scores of AI-filled cells (missing in checkpoints saved before scoring existed)
+  cellConfidence?: Record<string, number>;
+  // Row fingerprints from the previous run, used by the "changed rows" mode
+  previousFingerprints: Record<string, string>;
+  // Results of finished jobs, keyed by job id
+  cellResults: Record<string, CellResult>;
+  // Estimated USD spent so far, and whether the user chose to continue past the budget cap
+  spentUsd?: number;
+  budgetCapLifted?: boolean;
+  startedAt: number;
+  updatedAt: number;
+}
+
+export const createRunId = () => `run-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`;
+
+/**
+ * Persists the state of the active run so it can be resumed after a reload or crash.
+ */
+export const saveRunCheckpoint = async (checkpoint: Omit<RunCheckpoint, 'key' | 'updatedAt'>) => {
+  if (!isIndexedDbAvailable()) return;
+  await idbPut<RunCheckpoint>(STORES.runs, { ...checkpoint, key: ACTIVE_RUN_KEY, updatedAt: Date.now() });
+};
+
+/**
+ * Returns the checkpoint of a run that was interrupted before finishing, if any.
+ */
+export const loadRunCheckpoint = async (): Promise<RunCheckpoint | undefined> => {
+  if (!isIndexedDbAvailable()) return undefined;
+  return idbGet<RunCheckpoint>(STORES.runs, ACTIVE_RUN_KEY);
+};
+
+export const clearRunCheckpoint = async () => {
+  if (!isIndexedDbAvailable()) return;
+  await idbDelete(STORES.runs, ACTIVE_RUN_KEY);
+};
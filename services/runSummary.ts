@@ -0,0 +1,59 @@
+import { EscalationReason, ResearchResult } from "../types";
+import { estimateCost } from "./modelPricing";
+
+export interface RunSummary {
+  cells: number;
+  cachedCells: number;
+  escalated: number;
+  escalationReasons: Record<EscalationReason, number>;
+  // USD spent on thinking-model re-runs
+  escalationCost: number;
+  totalCost: number;
+}
+
+export const ESCALATION_REASON_LABELS: Record<EscalationReason, string> = {
+  not_found: 'not found',
+  invalid: 'invalid',
+  low_confidence: 'low confidence',
+};
+
+// Cost of the calls that produced the answer itself (and its verification)
+const getAnswerCost = (result: ResearchResult) => {
+  if (result.fromCache) return 0;
+  const verification = result.verification;
+  return estimateCost(result.model, result.usage) + (verification ? estimateCost(verification.model, verification.usage) : 0);
+};
+
+/**
+ * Estimated USD cost of every call behind a result, including a fast-model attempt
+ * that was escalated. Answers served from the cache cost nothing.
+ */
+export const getResultCost = (result: ResearchResult) =>
+  getAnswerCost(result) + (result.escalation ? estimateCost(result.escalation.fromModel, result.escalation.initialUsage) : 0);
+
+/**
+ * Totals the cells, escalations and estimated spend of a finished run.
+ */
+export const summarizeRun = (results: ResearchResult[]): RunSummary => {
+  const summary: RunSummary = {
+    cells: results.length,
+    cachedCells: 0,
+    escalated: 0,
+    escalationReasons: { not_found: 0, invalid: 0, low_confidence: 0 },
+    escalationCost: 0,
+    totalCost: 0,
+  };
+
+  results.forEach(result => {
+    if (result.fromCache) summary.cachedCells++;
+    summary.totalCost += getResultCost(result);
+
+    if (result.escalation) {
+      summary.escalated++;
+      summary.escalationReasons[result.escalation.reason]++;
+      summary.escalationCost += getAnswerCost(result);
+    }
+  });
+
+  return summary;
+};
@@ -6,11 +6,26 @@ export interface ParsingResult {
   columns: string[];
 }
 
+export type AgentLogType = 'info' | 'success' | 'warning' | 'error';
+
+// What an activity log entry records: a run-level change or one job's lifecycle
+export type AgentLogEvent = 'run' | 'started' | 'completed' | 'retried' | 'failed' | 'skipped';
+
 export interface AgentLog {
   id: string;
   timestamp: Date;
   message: string;
-  type: 'info' | 'success' | 'error';
+  type: AgentLogType;
+  event?: AgentLogEvent;
+  // Cell the entry is about (job events only)
+  rowIndex?: number;
+  taskId?: string;
+  column?: string;
+  model?: string;
+  latencyMs?: number;
+  sourceCount?: number;
+  // Error kind and message for failures and retries
+  error?: string;
 }
 
 export enum ProcessingStatus {
@@ -20,25 +35,216 @@ export enum ProcessingStatus {
   COMPLETED = 'COMPLETED',
 }
 
+export type OutputType = 'text' | 'number' | 'currency' | 'url' | 'email' | 'date' | 'boolean' | 'enum' | 'list';
+
+// Web research with search grounding (a single call, or a multi-step agent),
+// or an offline operation that only reads the row's own data
+export type TaskMode = 'research' | 'agent' | 'classify' | 'extract' | 'transform' | 'generate';
+
 export interface ResearchTask {
   id: string;
   newColumnName: string;
-  prompt: string;
+  prompt: string; // May reference row values as {{Column Name}}
+  mode?: TaskMode; // Defaults to 'research'
+  outputType?: OutputType; // Defaults to 'text'
+  enumValues?: string[]; // Allowed values when outputType is 'enum'
+  sourcePolicy?: SourcePolicy; // Research tasks only
+  agentBudget?: AgentBudget; // Agent tasks only
+  grounding?: Grounding; // Research tasks only; defaults to 'web'
+}
+
+// Where a research task looks for its answer: Google Search, the local documents
+// attached to the run, or both
+export type Grounding = 'web' | 'documents' | 'both';
+
+// A local PDF or text file in the knowledge base, kept as the text of each page
+export interface KnowledgeDocument {
+  key: string;
+  name: string;
+  kind: 'pdf' | 'text';
+  pages: string[]; // Text files are a single page
+  size: number; // File size in bytes
+  addedAt: number;
+}
+
+// The passage of a local document a source points to
+export interface DocumentCitation {
+  documentId: string;
+  documentName: string;
+  page?: number; // 1-based; PDFs only
+  excerpt: string;
+}
+
+// When a multi-step agent must stop searching and answer
+export interface AgentBudget {
+  maxSteps?: number; // Grounded searches; defaults to 4
+  maxSeconds?: number; // Defaults to 90
+}
+
+// One step of an agent run: planning the next searches, one grounded search, or the final answer
+export interface AgentStep {
+  kind: 'plan' | 'search' | 'answer';
+  durationMs: number;
+  thought?: string; // Planner's reasoning
+  queries?: string[]; // Searches the planner still wanted to run
+  query?: string; // The search this step ran
+  findings?: string; // What the search turned up, as kept in the scratchpad
+  sources?: Source[];
+}
+
+export interface AgentTrace {
+  steps: AgentStep[];
+  // The planner had enough to answer, or the step or time budget ran out
+  stopReason: 'answered' | 'step_budget' | 'time_budget';
+  elapsedMs: number;
 }
 
+// Which sites a research task may cite. Domains also cover their subdomains.
+export interface SourcePolicy {
+  allowedDomains?: string[]; // When set, only these sites count as sources
+  blockedDomains?: string[];
+  preferredDomains?: string[];
+  onViolation?: 'flag' | 'reject'; // What happens when no source satisfies the policy; defaults to 'flag'
+}
+
+// Outcome of checking an answer's sources against its task's policy
+export interface SourcePolicyCheck {
+  policy: SourcePolicy;
+  rejectedSources: Source[]; // Sources dropped for breaking the policy
+  violation?: 'flagged' | 'rejected'; // Set when the answer had sources but none satisfied the policy
+}
+
+export type OutputSpec = Pick<ResearchTask, 'outputType' | 'enumValues'>;
+
+// Which cells a run writes: all of them, only empty ones, only failed ones,
+// only rows whose input changed since the last run, or only cells a reviewer rejected
+export type RunMode = 'overwrite' | 'empty' | 'failed' | 'changed' | 'rejected';
+
+// How tasks are sent to the model: one request per cell, or one structured request
+// per row answering all of its independent tasks at once
+export type ExecutionMode = 'per_task' | 'combined';
+
+// Which rows a run covers. Selection and filtered scopes carry the row indices
+// captured from the sheet when the run was configured.
+export type RowScope =
+  | { type: 'all' }
+  | { type: 'first'; count: number }
+  | { type: 'sample'; count: number; seed: number; stratifyColumn?: string }
+  // Ids of the rows picked in the sheet, so the scope survives sorting, inserts and deletes
+  | { type: 'selection'; rowIds: string[] }
+  | { type: 'filtered'; rowIds: string[] };
+
 export interface ResearchConfig {
   targetColumns: string[]; // Changed from single targetColumn to support composite keys
   tasks: ResearchTask[];
   useThinkingModel: boolean;
-  rowLimit?: number;
+  // Run on the fast model and re-run weak answers on the thinking model (ignored with useThinkingModel)
+  escalateToThinking?: boolean;
+  rowLimit?: number; // Legacy "first N rows"; ignored when rowScope is set
+  rowScope?: RowScope; // Defaults to all rows
+  // Columns sent as context with every prompt. Unset sends every non-identity column;
+  // prompts can also pull single values in with {{Column Name}} placeholders.
+  contextColumns?: string[];
+  runMode?: RunMode; // Defaults to 'overwrite'
+  executionMode?: ExecutionMode; // Defaults to 'per_task'
+  concurrency?: number; // Max in-flight requests; defaults depend on the model
+  offlineBatchSize?: number; // Rows answered per request by offline tasks; defaults to 25
+  requestsPerMinute?: number; // Per-model request budget override
+  tokensPerMinute?: number; // Per-model token budget override
+  bypassCache?: boolean; // Always call the model, refreshing cached results
+  cacheTtlHours?: number;
+  verifyResults?: boolean; // Check each answer against its sources with a second call
+  budgetUsd?: number; // Pause the run once its estimated spend reaches this amount
+  documentIds?: string[]; // Knowledge base documents that tasks with document grounding search
+  entityClusters?: EntityCluster[]; // Confirmed groups of rows naming the same entity
+}
+
+// Rows whose identity columns name the same entity (e.g. "Acme Inc.", "ACME" and "acme.com").
+// Research tasks run once per cluster and the answer is copied to every member row.
+export interface EntityCluster {
+  key: string; // Normalized name the members share, see utils/entityResolution.ts
+  rowIds: string[];
+  rowKeys: Record<string, string>; // Each member's entity key when the cluster was confirmed, by row id
 }
 
 export interface Source {
   title: string;
   uri: string;
+  document?: DocumentCitation; // Set for passages of a local document rather than web pages
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+  groundingTokens: number;
+  totalTokens: number;
+}
+
+export type SelfConfidence = 'high' | 'medium' | 'low';
+
+export interface Verification {
+  verdict: 'supported' | 'unsupported' | 'uncertain';
+  note?: string;
+  model?: string;
+  usage?: TokenUsage;
+}
+
+// Why a fast-model answer was re-run on the thinking model
+export type EscalationReason = 'not_found' | 'invalid' | 'low_confidence';
+
+export interface Escalation {
+  reason: EscalationReason;
+  fromModel: string;
+  // Tokens spent on the fast-model attempt (unset when it came from the cache)
+  initialUsage?: TokenUsage;
 }
 
 export interface ResearchResult {
   text: string;
   sources: Source[];
+  model?: string;
+  usage?: TokenUsage;
+  offline?: boolean; // Answered from the row's own data, without web search
+  validationError?: string; // Set when the answer did not match the task's output type
+  fromCache?: boolean;
+  selfConfidence?: SelfConfidence; // The model's own rating of its answer
+  verification?: Verification; // Outcome of the optional verifier call
+  confidence?: number; // 0-1 score, see utils/confidence.ts
+  escalation?: Escalation; // Set when this answer came from an escalated re-run
+  rawResponse?: string; // Model output the answer was read from (this cell's part of it for batched requests)
+  sourcePolicy?: SourcePolicyCheck; // Set when the task has a source policy
+  agentTrace?: AgentTrace; // Steps an agent task took to reach the answer
+}
+
+// Where a person's review of an AI-filled cell stands. Editing a cell by hand marks it edited.
+export type ReviewStatus = 'unreviewed' | 'accepted' | 'rejected' | 'edited';
+
+export interface CellReview {
+  status: Exclude<ReviewStatus, 'unreviewed'>;
+  reviewedAt: number;
+  note?: string; // Why a rejected answer is wrong; sent along when the cell is re-run
+}
+
+// Audit record of how an AI-filled cell got its value, see utils/provenance.ts
+export interface CellProvenance {
+  value: string; // Value as the agent wrote it
+  sources: Source[];
+  generatedAt: number;
+  model?: string;
+  runId?: string;
+  taskId?: string;
+  promptTemplate?: string; // The task prompt before placeholders were filled in
+  promptVersion?: string; // Hash of the task prompt and output settings
+  prompt?: string; // Rendered task prompt sent for this cell
+  context?: string; // Context from other columns sent with it
+  rawResponse?: string;
+  retries?: number;
+  fromCache?: boolean;
+  sourcePolicy?: SourcePolicyCheck;
+  agentTrace?: AgentTrace;
+  copiedFrom?: string; // Row id of the cluster member the answer was researched for, when it was copied here
+  editedAt?: number; // Set when a person changed the cell afterwards
+  editedValue?: string;
+  review?: CellReview; // Unset until someone reviews the cell; cleared when the cell is re-run
 }
\ No newline at end of file
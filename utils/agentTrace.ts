@@ -0,0 +1,42 @@
+import { AgentStep, AgentTrace } from '../types';
+
+export const AGENT_STOP_REASONS: Record<AgentTrace['stopReason'], string> = {
+  answered: 'had enough to answer',
+  step_budget: 'step budget used up',
+  time_budget: 'time budget used up',
+};
+
+export const formatDuration = (ms: number) => ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+
+export const countAgentSearches = (trace: AgentTrace) => trace.steps.filter(step => step.kind === 'search').length;
+
+/**
+ * One-line heading for a trace, e.g. "3 searches in 24.1s, step budget used up".
+ */
+export const summarizeAgentTrace = (trace: AgentTrace) => {
+  const searches = countAgentSearches(trace);
+  return `${searches} search${searches !== 1 ? 'es' : ''} in ${formatDuration(trace.elapsedMs)}, ${AGENT_STOP_REASONS[trace.stopReason]}`;
+};
+
+const formatStep = (step: AgentStep, index: number) => {
+  const heading = `${index + 1}. ${step.kind} (${formatDuration(step.durationMs)})`;
+  switch (step.kind) {
+    case 'plan':
+      return [heading, step.thought && `   Thought: ${step.thought}`, step.queries?.length && `   Next: ${step.queries.join(' | ')}`];
+    case 'search':
+      return [
+        heading,
+        `   Query: ${step.query}`,
+        `   Findings: ${step.findings}`,
+        step.sources?.length && `   Sources: ${step.sources.map(source => source.uri).join(' ')}`,
+      ];
+    default:
+      return [heading];
+  }
+};
+
+/**
+ * Plain-text rendering of a trace, for exports.
+ */
+export const formatAgentTrace = (trace: AgentTrace) =>
+  [summarizeAgentTrace(trace), ...trace.steps.flatMap(formatStep).filter(Boolean)].join('\n');
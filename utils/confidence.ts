@@ -0,0 +1,88 @@
+import { ResearchResult, SelfConfidence, Source, Verification } from '../types';
+import { NOT_FOUND } from './outputSchema';
+
+// Cells scoring below this are flagged for review
+export const LOW_CONFIDENCE_THRESHOLD = 0.5;
+
+const SELF_CONFIDENCE_SCORES: Record<SelfConfidence, number> = { high: 0.9, medium: 0.6, low: 0.25 };
+
+// Sources from this many distinct sites count as full agreement
+const AGREEING_SOURCES_TARGET = 3;
+
+export const isSelfConfidence = (value: unknown): value is SelfConfidence =>
+  typeof value === 'string' && value in SELF_CONFIDENCE_SCORES;
+
+const CONFIDENCE_LINE = /\n?[ \t]*\**confidence\**:?\**[ \t]*(high|medium|low)\**[ \t.]*$/i;
+
+/**
+ * Strips a trailing "Confidence: high|medium|low" line from a free-text answer.
+ */
+export const extractConfidenceLine = (text: string): { text: string; selfConfidence?: SelfConfidence } => {
+  const match = text.trimEnd().match(CONFIDENCE_LINE);
+  if (!match) return { text };
+  return {
+    text: text.trimEnd().slice(0, match.index).trim(),
+    selfConfidence: match[1].toLowerCase() as SelfConfidence,
+  };
+};
+
+// Distinct sites among the grounding sources; each local document counts as one site
+const countDistinctSites = (sources: Source[]) =>
+  new Set(sources.map(source => {
+    if (source.document) return `document:${source.document.documentId}`;
+    try {
+      return new URL(source.uri).hostname.replace(/^www\./, '');
+    } catch {
+      return source.uri;
+    }
+  })).size;
+
+/**
+ * Scores an answer from 0 to 1 using the model's self-assessment, how many distinct
+ * sites grounded it, whether it passed validation and, if run, the verifier's verdict.
+ * Offline answers have no sources to agree, so they rest on the other two signals.
+ * Answers flagged for citing only sites outside their source policy are halved.
+ * "Not found" answers make no claim and are not scored.
+ */
+export const scoreConfidence = (result: ResearchResult): number | undefined => {
+  if (!result.text || result.text === NOT_FOUND || result.text === 'Error') return undefined;
+
+  const self = result.selfConfidence ? SELF_CONFIDENCE_SCORES[result.selfConfidence] : 0.5;
+  const sources = Math.min(countDistinctSites(result.sources), AGREEING_SOURCES_TARGET) / AGREEING_SOURCES_TARGET;
+  const valid = result.validationError ? 0 : 1;
+  let score = result.offline
+    ? 0.7 * self + 0.3 * valid
+    : 0.5 * self + 0.3 * sources + 0.2 * valid;
+
+  if (result.sourcePolicy?.violation === 'flagged') score *= 0.5;
+
+  switch (result.verification?.verdict) {
+    case 'supported':
+      score += (1 - score) * 0.5;
+      break;
+    case 'unsupported':
+      score *= 0.4;
+      break;
+    case 'uncertain':
+      score *= 0.8;
+      break;
+  }
+
+  return Math.round(score * 100) / 100;
+};
+
+export const withConfidence = (result: ResearchResult): ResearchResult => ({
+  ...result,
+  confidence: scoreConfidence(result),
+});
+
+export const isLowConfidence = (confidence: number | undefined) =>
+  confidence !== undefined && confidence < LOW_CONFIDENCE_THRESHOLD;
+
+export const formatConfidence = (confidence: number) => `${Math.round(confidence * 100)}%`;
+
+export const VERIFICATION_LABELS: Record<Verification['verdict'], string> = {
+  supported: 'Verified against sources',
+  unsupported: 'Not supported by sources',
+  uncertain: 'Verifier was unsure',
+};
@@ -1,7 +1,12 @@
 import Papa from 'papaparse';
 import * as XLSX from 'xlsx';
-import { ParsingResult, CsvRow } from '../types';
+import { ParsingResult, CsvRow, OutputType } from '../types';
+import { getCurrencyCode, toTypedCellValue } from './outputSchema';
+import { ensureRowIds, stripRowIds } from './rowId';
 
+/**
+ * Parses an uploaded CSV or Excel file. Every row gets a stable id (see utils/rowId.ts).
+ */
 export const parseDataFile = async (file: File): Promise<ParsingResult> => {
   if (file.name.endsWith('.csv')) {
     return new Promise((resolve, reject) => {
@@ -9,7 +14,7 @@ export const parseDataFile = async (file: File): Promise<ParsingResult> => {
         header: true,
         skipEmptyLines: true,
         complete: (results) => {
-          const data = results.data as CsvRow[];
+          const data = ensureRowIds(results.data as CsvRow[]);
           const columns = results.meta.fields || [];
           resolve({ data, columns });
         },
@@ -42,7 +47,7 @@ export const parseDataFile = async (file: File): Promise<ParsingResult> => {
         const columns = Object.keys(jsonData[0] as object);
         
         resolve({ 
-          data: jsonData as CsvRow[], 
+          data: ensureRowIds(jsonData as CsvRow[]),
           columns 
         });
       } catch (e) {
@@ -54,9 +59,7 @@ export const parseDataFile = async (file: File): Promise<ParsingResult> => {
   }
 };
 
-export const exportCsv = (data: CsvRow[], filename: string = 'enriched_data.csv') => {
-  const csv = Papa.unparse(data);
-  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+const downloadBlob = (blob: Blob, filename: string) => {
   const link = document.createElement('a');
   if (link.download !== undefined) {
     const url = URL.createObjectURL(blob);
@@ -69,9 +72,52 @@ export const exportCsv = (data: CsvRow[], filename: string = 'enriched_data.csv'
   }
 };
 
-export const exportExcel = (data: CsvRow[], filename: string = 'enriched_data.xlsx') => {
-  const worksheet = XLSX.utils.json_to_sheet(data);
+export const exportCsv = (data: CsvRow[], filename: string = 'enriched_data.csv') => {
+  const csv = Papa.unparse(stripRowIds(data));
+  downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8;' }), filename);
+};
+
+export const exportJson = (value: unknown, filename: string) => {
+  downloadBlob(new Blob([JSON.stringify(value, null, 2)], { type: 'application/json' }), filename);
+};
+
+/**
+ * Writes the data to an Excel file. Provenance rows (see utils/provenance.ts), when given,
+ * go on a second "Provenance" sheet.
+ */
+export const exportExcel = (
+  data: CsvRow[],
+  filename: string = 'enriched_data.xlsx',
+  columnTypes: Record<string, OutputType> = {},
+  provenance: CsvRow[] = []
+) => {
+  // Convert typed columns so Excel sees real numbers, dates and booleans
+  const typedData = stripRowIds(data).map(row => {
+    const typedRow: Record<string, string | number | boolean | Date> = { ...row };
+    Object.entries(columnTypes).forEach(([col, type]) => {
+      if (col in row) {
+        typedRow[col] = toTypedCellValue(type, row[col]);
+      }
+    });
+    return typedRow;
+  });
+
+  const header = Array.from(new Set(typedData.flatMap(row => Object.keys(row))));
+  const worksheet = XLSX.utils.json_to_sheet(typedData, { header, cellDates: true, dateNF: 'yyyy-mm-dd' });
+
+  // Currency amounts keep their code in the number format, so mixed-currency columns stay readable
+  header.forEach((col, c) => {
+    if (columnTypes[col] !== 'currency') return;
+    data.forEach((row, r) => {
+      const code = getCurrencyCode(row[col] || '');
+      const cell = worksheet[XLSX.utils.encode_cell({ r: r + 1, c })];
+      if (code && cell && cell.t === 'n') cell.z = `#,##0.00 "${code}"`;
+    });
+  });
   const workbook = XLSX.utils.book_new();
   XLSX.utils.book_append_sheet(workbook, worksheet, "Data");
+  if (provenance.length > 0) {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(provenance), "Provenance");
+  }
   XLSX.writeFile(workbook, filename);
 };
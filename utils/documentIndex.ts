@@ -0,0 +1,125 @@
+import { DocumentCitation, KnowledgeDocument, Source } from '../types';
+
+// Chunks aim for this many characters and repeat the tail of the previous one,
+// so a fact straddling a boundary is still found whole
+const CHUNK_SIZE = 1200;
+const CHUNK_OVERLAP = 200;
+
+// BM25 tuning: term frequency saturation and document length normalization
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'do', 'does', 'for', 'from', 'has', 'have', 'how', 'in', 'is',
+  'it', 'its', 'of', 'on', 'or', 'that', 'the', 'their', 'this', 'to', 'was', 'were', 'what', 'when', 'where',
+  'which', 'who', 'why', 'will', 'with', 'find', 'return', 'value', 'give', 'list',
+]);
+
+export interface DocumentChunk {
+  documentId: string;
+  documentName: string;
+  page?: number;
+  text: string;
+}
+
+export interface DocumentIndex {
+  chunks: DocumentChunk[];
+  // Term counts of each chunk, by chunk position
+  termCounts: Map<string, number>[];
+  lengths: number[];
+  // Number of chunks each term appears in
+  chunkFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+export const tokenize = (text: string) =>
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(token => token.length > 1 && !STOP_WORDS.has(token));
+
+// Splits one page into overlapping chunks, cutting at paragraph or sentence ends where possible
+const chunkText = (text: string): string[] => {
+  const clean = text.replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < clean.length) {
+    let end = Math.min(clean.length, start + CHUNK_SIZE);
+    if (end < clean.length) {
+      const window = clean.slice(start + CHUNK_SIZE / 2, end);
+      const breakAt = Math.max(window.lastIndexOf('\n\n'), window.lastIndexOf('. '), window.lastIndexOf('\n'));
+      if (breakAt >= 0) end = start + CHUNK_SIZE / 2 + breakAt + 1;
+    }
+    chunks.push(clean.slice(start, end).trim());
+    if (end >= clean.length) break;
+    start = Math.max(start + 1, end - CHUNK_OVERLAP);
+  }
+  return chunks.filter(Boolean);
+};
+
+/**
+ * Splits a document into chunks, never across pages, so each chunk can cite its page.
+ */
+export const chunkDocument = (doc: KnowledgeDocument): DocumentChunk[] =>
+  doc.pages.flatMap((pageText, index) => chunkText(pageText).map(text => ({
+    documentId: doc.key,
+    documentName: doc.name,
+    page: doc.kind === 'pdf' ? index + 1 : undefined,
+    text,
+  })));
+
+/**
+ * Builds an in-memory BM25 index over the documents' chunks.
+ */
+export const buildDocumentIndex = (documents: KnowledgeDocument[]): DocumentIndex => {
+  const chunks = documents.flatMap(chunkDocument);
+  const termCounts = chunks.map(chunk => {
+    const counts = new Map<string, number>();
+    tokenize(chunk.text).forEach(token => counts.set(token, (counts.get(token) || 0) + 1));
+    return counts;
+  });
+  const lengths = termCounts.map(counts => Array.from(counts.values()).reduce((sum, count) => sum + count, 0));
+  const chunkFrequency = new Map<string, number>();
+  termCounts.forEach(counts => counts.forEach((_, term) => chunkFrequency.set(term, (chunkFrequency.get(term) || 0) + 1)));
+  const averageLength = lengths.reduce((sum, length) => sum + length, 0) / Math.max(1, lengths.length);
+  return { chunks, termCounts, lengths, chunkFrequency, averageLength };
+};
+
+/**
+ * The chunks that best match a query, best first, optionally only from the given documents.
+ * Chunks sharing no term with the query are left out.
+ */
+export const searchDocuments = (index: DocumentIndex, query: string, limit = 5, documentIds?: string[]): DocumentChunk[] => {
+  const terms = Array.from(new Set(tokenize(query)));
+  const total = index.chunks.length;
+
+  return index.termCounts
+    .map((counts, position) => {
+      if (documentIds && !documentIds.includes(index.chunks[position].documentId)) return { position, score: 0 };
+      const score = terms.reduce((sum, term) => {
+        const count = counts.get(term);
+        if (!count) return sum;
+        const frequency = index.chunkFrequency.get(term) || 0;
+        const idf = Math.log(1 + (total - frequency + 0.5) / (frequency + 0.5));
+        const norm = BM25_K1 * (1 - BM25_B + BM25_B * index.lengths[position] / (index.averageLength || 1));
+        return sum + idf * (count * (BM25_K1 + 1)) / (count + norm);
+      }, 0);
+      return { position, score };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ position }) => index.chunks[position]);
+};
+
+/**
+ * Human readable location of a passage, e.g. "Annual Report.pdf, p. 12".
+ */
+export const formatDocumentLocation = ({ documentName, page }: Pick<DocumentCitation, 'documentName' | 'page'>) =>
+  page ? `${documentName}, p. ${page}` : documentName;
+
+/**
+ * Turns a cited chunk into a source, so it can sit next to web sources.
+ */
+export const toDocumentSource = (chunk: DocumentChunk): Source => ({
+  title: formatDocumentLocation(chunk),
+  uri: `document:${chunk.documentId}${chunk.page ? `#page=${chunk.page}` : ''}`,
+  document: { documentId: chunk.documentId, documentName: chunk.documentName, page: chunk.page, excerpt: chunk.text },
+});
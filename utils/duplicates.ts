@@ -0,0 +1,132 @@
+import { CsvRow } from '../types';
+import { canonicalizeUrl, groupSimilarKeys, isUrlLike } from './entityResolution';
+import { ROW_ID_FIELD } from './rowId';
+
+// Which row of a duplicate group survives: the first or last in sheet order, the one with
+// the most filled cells, or the first with its empty cells filled from the others
+export type KeepPolicy = 'first' | 'last' | 'most_complete' | 'merge';
+
+export const KEEP_POLICIES: { value: KeepPolicy; label: string }[] = [
+  { value: 'first', label: 'First occurrence' },
+  { value: 'last', label: 'Last occurrence' },
+  { value: 'most_complete', label: 'Most complete row' },
+  { value: 'merge', label: 'Merge non-empty values' },
+];
+
+export interface DuplicateMatchOptions {
+  columns: string[];
+  trim: boolean;
+  caseFold: boolean;
+  stripPunctuation: boolean;
+  canonicalizeUrls: boolean;
+  // Minimum similarity (0-1) of two rows' keys; 1 only matches equal keys
+  threshold: number;
+}
+
+export const DEFAULT_DUPLICATE_MATCH: Omit<DuplicateMatchOptions, 'columns'> = {
+  trim: true,
+  caseFold: false,
+  stripPunctuation: false,
+  canonicalizeUrls: false,
+  threshold: 1,
+};
+
+export interface DuplicateGroup {
+  // Positions of the group's rows in the data, in sheet order
+  rowIndices: number[];
+  // Whether every row has the same normalized key
+  exact: boolean;
+}
+
+/**
+ * A cell value as compared under the match options. URLs are canonicalized before
+ * punctuation is stripped, so "https://acme.com/" and "acme.com" still match.
+ */
+export const normalizeCellValue = (value: string, options: Omit<DuplicateMatchOptions, 'columns' | 'threshold'>) => {
+  let normalized = value || '';
+  if (options.trim) normalized = normalized.trim().replace(/\s+/g, ' ');
+  if (options.canonicalizeUrls && isUrlLike(normalized)) normalized = canonicalizeUrl(normalized);
+  if (options.caseFold) normalized = normalized.toLowerCase();
+  if (options.stripPunctuation) normalized = normalized.replace(/[^\p{L}\p{N}\s]+/gu, '').replace(/\s+/g, ' ').trim();
+  return normalized;
+};
+
+const getDuplicateKey = (row: CsvRow, options: DuplicateMatchOptions) =>
+  options.columns.map(col => normalizeCellValue(row[col] || '', options)).join('|||');
+
+/**
+ * Groups rows whose selected columns match under the options, each row matching every other
+ * row of its group. Rows with every selected column empty are never treated as duplicates.
+ * Returns groups of two or more rows, ordered by their first row.
+ */
+export const findDuplicateGroups = (data: CsvRow[], options: DuplicateMatchOptions): DuplicateGroup[] => {
+  if (options.columns.length === 0) return [];
+
+  const rowsByKey = new Map<string, number[]>();
+  data.forEach((row, index) => {
+    if (options.columns.every(col => !(row[col] || '').trim())) return;
+    const key = getDuplicateKey(row, options);
+    if (!rowsByKey.has(key)) rowsByKey.set(key, []);
+    rowsByKey.get(key)!.push(index);
+  });
+
+  // Complete linkage: every row of a group must match each other one, so removal never chains
+  // through near misses. Keys come in sheet order, so groups form around their earliest rows.
+  return groupSimilarKeys(Array.from(rowsByKey.keys()), options.threshold, 'complete')
+    .map(keys => ({
+      rowIndices: keys.flatMap(key => rowsByKey.get(key)!).sort((a, b) => a - b),
+      exact: keys.length === 1,
+    }))
+    .filter(group => group.rowIndices.length > 1)
+    .sort((a, b) => a.rowIndices[0] - b.rowIndices[0]);
+};
+
+const countFilled = (row: CsvRow) =>
+  Object.entries(row).filter(([key, value]) => key !== ROW_ID_FIELD && value && value.trim()).length;
+
+/**
+ * Position of the row a group keeps (for "merge", the row the others are merged into).
+ */
+export const getKeptIndex = (data: CsvRow[], group: DuplicateGroup, keep: KeepPolicy) => {
+  const { rowIndices } = group;
+  if (keep === 'last') return rowIndices[rowIndices.length - 1];
+  if (keep === 'most_complete') {
+    // Ties go to the earliest row
+    return rowIndices.reduce((best, index) => countFilled(data[index]) > countFilled(data[best]) ? index : best);
+  }
+  return rowIndices[0];
+};
+
+/**
+ * The row a group collapses into. Merging fills the kept row's empty cells from the
+ * other rows, earliest first; the kept row's id is preserved.
+ */
+export const resolveDuplicateGroup = (data: CsvRow[], group: DuplicateGroup, keep: KeepPolicy): CsvRow => {
+  const kept = data[getKeptIndex(data, group, keep)];
+  if (keep !== 'merge') return kept;
+  const merged = { ...kept };
+  group.rowIndices.forEach(index => {
+    Object.entries(data[index]).forEach(([key, value]) => {
+      if (key !== ROW_ID_FIELD && !(merged[key] || '').trim() && value && value.trim()) merged[key] = value;
+    });
+  });
+  return merged;
+};
+
+/**
+ * The data with each group collapsed into its resolved row, at the kept row's position.
+ */
+export const removeDuplicateRows = (data: CsvRow[], groups: DuplicateGroup[], keep: KeepPolicy): CsvRow[] => {
+  const replacements = new Map<number, CsvRow>();
+  const removed = new Set<number>();
+  groups.forEach(group => {
+    const keptIndex = getKeptIndex(data, group, keep);
+    replacements.set(keptIndex, resolveDuplicateGroup(data, group, keep));
+    group.rowIndices.forEach(index => {
+      if (index !== keptIndex) removed.add(index);
+    });
+  });
+  return data
+    .map((row, index) => replacements.get(index) || row)
+    .filter((_, index) => !removed.has(index));
+};
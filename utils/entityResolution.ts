@@ -0,0 +1,284 @@
+import { CsvRow, EntityCluster } from '../types';
+import { getRowId } from './rowId';
+
+// Legal forms dropped from the end of company names, so "Acme Inc." and "Acme Incorporated" match
+const LEGAL_SUFFIXES = new Set([
+  'inc', 'incorporated', 'corp', 'corporation', 'co', 'company', 'llc', 'llp', 'lp', 'ltd', 'limited', 'plc',
+  'gmbh', 'ag', 'kg', 'sa', 'sas', 'sarl', 'srl', 'spa', 'bv', 'nv', 'ab', 'as', 'asa', 'oy', 'oyj', 'pty',
+  'pte', 'kk', 'group', 'holding', 'holdings',
+]);
+
+// Second-level labels of country domains, e.g. the "co" in "acme.co.uk"
+const SECOND_LEVEL_LABELS = new Set(['co', 'com', 'org', 'net', 'ac', 'gov', 'edu', 'ltd', 'plc']);
+
+// Hosts whose subdomains belong to different customers, so "foo.github.io" and "bar.github.io"
+// are different entities
+const MULTI_TENANT_HOSTS = [
+  'github.io', 'gitlab.io', 'blogspot.com', 'wordpress.com', 'myshopify.com', 'wixsite.com', 'squarespace.com',
+  'webflow.io', 'netlify.app', 'vercel.app', 'pages.dev', 'herokuapp.com', 'appspot.com', 'web.app',
+  'firebaseapp.com', 'azurewebsites.net', 'substack.com', 'tumblr.com', 'notion.site', 'carrd.co', 'framer.website',
+];
+
+// Generic top-level domains recognised in bare values like "acme.io"; any two-letter country
+// code is accepted too. Dotted names with another ending ("John.Smith") are not URLs.
+const GENERIC_TLDS = new Set([
+  'com', 'org', 'net', 'edu', 'gov', 'mil', 'int', 'io', 'ai', 'app', 'dev', 'info', 'biz', 'tech', 'xyz',
+  'online', 'site', 'website', 'store', 'shop', 'cloud', 'agency', 'company', 'digital', 'solutions', 'services',
+  'group', 'global', 'network', 'media', 'studio', 'design', 'health', 'finance', 'capital', 'ventures',
+  'partners', 'consulting', 'energy', 'systems', 'software', 'email', 'blog', 'news', 'world', 'life', 'live',
+  'inc', 'llc', 'ltd', 'pro', 'team', 'tools', 'works',
+]);
+
+// Sites whose URLs name the entity in the path rather than the domain
+const PROFILE_HOSTS = ['linkedin.com', 'facebook.com', 'twitter.com', 'x.com', 'instagram.com', 'crunchbase.com', 'github.com'];
+// Path segments of profile URLs that are not the entity's handle
+const PROFILE_PATH_WORDS = new Set(['company', 'in', 'organization', 'pub', 'school', 'showcase', 'people', 'person']);
+
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.85;
+
+const URL_PATTERN = /^(https?:\/\/)?(www\.)?[a-z0-9-]+(\.[a-z0-9-]+)+(:\d+)?([/?#]\S*)?$/i;
+
+/**
+ * Whether a value is a URL or bare domain. Without a protocol or "www." it must end in a
+ * known top-level domain, so dotted names like "A.B.C" stay names.
+ */
+export const isUrlLike = (value: string) => {
+  const trimmed = value.trim();
+  if (!URL_PATTERN.test(trimmed)) return false;
+  if (/^(https?:\/\/|www\.)/i.test(trimmed)) return true;
+  const tld = trimmed.split(/[/?#:]/)[0].split('.').pop()!.toLowerCase();
+  return /^[a-z]{2}$/.test(tld) || GENERIC_TLDS.has(tld);
+};
+
+// Lowercase words without accents or punctuation; "J.P. Morgan & Co." becomes ["jp", "morgan", "and", "co"]
+const toWords = (value: string) => value
+  .normalize('NFKD')
+  .replace(/[̀-ͯ]/g, '')
+  .toLowerCase()
+  .replace(/&/g, ' and ')
+  .replace(/[.'’]/g, '')
+  .split(/[^\p{L}\p{N}]+/u)
+  .filter(Boolean);
+
+/**
+ * Reduces a company or person name to its comparable core: casing, accents, punctuation,
+ * a leading "the" and trailing legal forms are dropped.
+ */
+export const normalizeName = (value: string) => {
+  const words = toWords(value);
+  const core = words[0] === 'the' && words.length > 1 ? words.slice(1) : [...words];
+  // "& Co." leaves a dangling "and" once the suffix is gone
+  while (core.length > 1 && (LEGAL_SUFFIXES.has(core[core.length - 1]) || core[core.length - 1] === 'and')) core.pop();
+  return core.join(' ');
+};
+
+// Query parameters that only track where a visitor came from
+const TRACKING_PARAMS = /^(utm_\w+|gclid|fbclid|mc_cid|mc_eid|ref)$/;
+
+/**
+ * A URL in comparable form: no protocol, "www.", port, fragment, tracking parameters or
+ * trailing slash, with a lowercase host ("HTTPS://www.Acme.com/About/?utm_source=x" becomes "acme.com/About").
+ */
+export const canonicalizeUrl = (value: string) => {
+  const [address, query = ''] = value.trim().replace(/^[a-z]+:\/\//i, '').split('#')[0].split('?');
+  const [host, ...path] = address.split('/');
+  const hostname = host.toLowerCase().replace(/^www\./, '').split(':')[0];
+  const params = query.split('&').filter(param => param && !TRACKING_PARAMS.test(param.split('=')[0].toLowerCase()));
+  const pathname = path.join('/').replace(/\/+$/, '');
+  return `${hostname}${pathname ? `/${pathname}` : ''}${params.length > 0 ? `?${params.join('&')}` : ''}`;
+};
+
+/**
+ * The entity a URL points to: the handle of a social profile URL, the full host of a site on a
+ * multi-tenant host, otherwise the main label of its domain ("https://www.acme.co.uk/about"
+ * becomes "acme").
+ */
+export const normalizeUrl = (value: string) => {
+  const [hostname, ...path] = canonicalizeUrl(value).toLowerCase().split('?')[0].split('/');
+
+  if (PROFILE_HOSTS.includes(hostname)) {
+    const handle = path.filter(segment => segment && !PROFILE_PATH_WORDS.has(segment))[0];
+    if (handle) return normalizeName(handle.replace(/[-_]+/g, ' '));
+  }
+
+  // Kept whole, so it neither matches other tenants nor a company named after the host
+  if (MULTI_TENANT_HOSTS.some(host => hostname.endsWith(`.${host}`))) return hostname;
+
+  const labels = hostname.split('.');
+  labels.pop();
+  if (labels.length > 1 && SECOND_LEVEL_LABELS.has(labels[labels.length - 1])) labels.pop();
+  return normalizeName(labels[labels.length - 1] || hostname);
+};
+
+export const normalizeEntityValue = (value: string) =>
+  isUrlLike(value) ? normalizeUrl(value) : normalizeName(value);
+
+/**
+ * Normalized identity of a row, from the values of its identity columns.
+ */
+export const getEntityKey = (row: CsvRow, targetColumns: string[]) => targetColumns
+  .map(col => normalizeEntityValue(row[col] || ''))
+  .filter(Boolean)
+  .join(' ');
+
+// Character bigrams of a key, ignoring spaces so "acme corp" and "acmecorp" compare equal
+const bigrams = (key: string) => {
+  const compact = key.replace(/\s+/g, '');
+  const pairs = new Map<string, number>();
+  for (let i = 0; i < compact.length - 1; i++) {
+    const pair = compact.slice(i, i + 2);
+    pairs.set(pair, (pairs.get(pair) || 0) + 1);
+  }
+  return pairs;
+};
+
+// Dice coefficient of two bigram multisets
+const dice = (pairsA: Map<string, number>, pairsB: Map<string, number>) => {
+  let total = 0;
+  let shared = 0;
+  pairsA.forEach((count, pair) => {
+    total += count;
+    shared += Math.min(count, pairsB.get(pair) || 0);
+  });
+  pairsB.forEach(count => { total += count; });
+  return total === 0 ? 0 : (2 * shared) / total;
+};
+
+// Numbers in a key; keys with different numbers ("store 120", "store 121") name different things
+const getDigits = (key: string) => (key.match(/\d+/g) || []).join(' ');
+
+export type Linkage = 'single' | 'complete';
+
+/**
+ * Groups distinct keys that are at least `threshold` similar. With single linkage a key joins a
+ * group when it is similar to any member, so groups can chain; with complete linkage it must be
+ * similar to every member, and keys are placed in the order given. Only keys starting with the
+ * same character and containing the same numbers are compared, and a threshold of 1 only groups
+ * equal keys. Returns every key, in groups of one or more.
+ */
+export const groupSimilarKeys = (keys: string[], threshold: number, linkage: Linkage = 'single'): string[][] => {
+  const unique = Array.from(new Set(keys));
+  if (threshold >= 1) return unique.map(key => [key]);
+
+  const pairs = unique.map(bigrams);
+  const sizes = pairs.map(keyPairs => Array.from(keyPairs.values()).reduce((sum, count) => sum + count, 0));
+  const isSimilar = (a: number, b: number) =>
+    // Keys too different in length cannot reach the threshold
+    2 * Math.min(sizes[a], sizes[b]) >= threshold * (sizes[a] + sizes[b]) && dice(pairs[a], pairs[b]) >= threshold;
+
+  const blocks = new Map<string, number[]>();
+  unique.forEach((key, index) => {
+    const block = `${key[0]}|${getDigits(key)}`;
+    if (!blocks.has(block)) blocks.set(block, []);
+    blocks.get(block)!.push(index);
+  });
+
+  const groups: number[][] = [];
+  blocks.forEach(members => {
+    if (linkage === 'complete') {
+      const blockGroups: number[][] = [];
+      members.forEach(index => {
+        const group = blockGroups.find(candidate => candidate.every(member => isSimilar(member, index)));
+        if (group) group.push(index); else blockGroups.push([index]);
+      });
+      groups.push(...blockGroups);
+      return;
+    }
+
+    // Union-find over the block's keys
+    const parent = new Map(members.map(index => [index, index]));
+    const find = (index: number): number => {
+      const root = parent.get(index)!;
+      if (root === index) return index;
+      const top = find(root);
+      parent.set(index, top);
+      return top;
+    };
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        if (isSimilar(members[i], members[j])) parent.set(find(members[j]), find(members[i]));
+      }
+    }
+    const byRoot = new Map<number, number[]>();
+    members.forEach(index => {
+      const root = find(index);
+      if (!byRoot.has(root)) byRoot.set(root, []);
+      byRoot.get(root)!.push(index);
+    });
+    groups.push(...byRoot.values());
+  });
+
+  return groups.map(group => group.map(index => unique[index]));
+};
+
+export interface ClusterSuggestion extends EntityCluster {
+  // Every member normalizes to the same key; fuzzy clusters also join similar keys
+  exact: boolean;
+  // Distinct keys joined into the cluster
+  keys: string[];
+}
+
+/**
+ * Groups rows that likely name the same entity: rows with equal normalized keys, joined with
+ * rows whose keys are at least `threshold` similar (see groupSimilarKeys). Returns clusters of
+ * two or more rows, largest first; members keep sheet order.
+ */
+export const suggestEntityClusters = (
+  data: CsvRow[],
+  targetColumns: string[],
+  threshold = DEFAULT_SIMILARITY_THRESHOLD
+): ClusterSuggestion[] => {
+  const rowsByKey = new Map<string, string[]>();
+  data.forEach(row => {
+    const key = getEntityKey(row, targetColumns);
+    if (!key) return;
+    if (!rowsByKey.has(key)) rowsByKey.set(key, []);
+    rowsByKey.get(key)!.push(getRowId(row));
+  });
+
+  const order = new Map(data.map((row, index) => [getRowId(row), index]));
+  return groupSimilarKeys(Array.from(rowsByKey.keys()), threshold)
+    .map(groupKeys => {
+      // The most common key names the cluster
+      const sorted = [...groupKeys].sort((a, b) => rowsByKey.get(b)!.length - rowsByKey.get(a)!.length);
+      return {
+        key: sorted[0],
+        keys: sorted,
+        rowIds: groupKeys.flatMap(key => rowsByKey.get(key)!).sort((a, b) => order.get(a)! - order.get(b)!),
+        rowKeys: Object.fromEntries(groupKeys.flatMap(key => rowsByKey.get(key)!.map(rowId => [rowId, key]))),
+        exact: groupKeys.length === 1,
+      };
+    })
+    .filter(cluster => cluster.rowIds.length > 1)
+    .sort((a, b) => b.rowIds.length - a.rowIds.length);
+};
+
+/**
+ * Confirmed clusters limited to the members still in the data whose identity columns
+ * normalize to the key they had when the cluster was confirmed. Clusters left with a
+ * single member are dropped.
+ */
+export const pruneClusters = (clusters: EntityCluster[] = [], data: CsvRow[], targetColumns: string[]) => {
+  const rows = new Map(data.map(row => [getRowId(row), row]));
+  return clusters
+    .map(cluster => ({
+      ...cluster,
+      rowIds: cluster.rowIds.filter(rowId => {
+        const row = rows.get(rowId);
+        return !!row && getEntityKey(row, targetColumns) === cluster.rowKeys[rowId];
+      }),
+    }))
+    .filter(cluster => cluster.rowIds.length > 1);
+};
+
+/**
+ * Position of each row's cluster in `clusters`, by row id. A row listed in several
+ * clusters belongs to the first.
+ */
+export const indexClusters = (clusters: EntityCluster[] = []) => {
+  const index = new Map<string, number>();
+  clusters.forEach((cluster, position) => cluster.rowIds.forEach(rowId => {
+    if (!index.has(rowId)) index.set(rowId, position);
+  }));
+  return index;
+};
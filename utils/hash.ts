@@ -0,0 +1,11 @@
+/**
+ * Fast non-cryptographic string hash (FNV-1a, 32-bit) returned as hex.
+ */
+export const hashString = (input: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
@@ -0,0 +1,265 @@
+import { OutputSpec, OutputType } from '../types';
+
+export const NOT_FOUND = 'N/A';
+
+export const OUTPUT_TYPES: { value: OutputType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'currency', label: 'Currency' },
+  { value: 'url', label: 'URL' },
+  { value: 'email', label: 'Email' },
+  { value: 'date', label: 'Date' },
+  { value: 'boolean', label: 'Yes / No' },
+  { value: 'enum', label: 'One of...' },
+  { value: 'list', label: 'List' },
+];
+
+export const isOutputType = (value: unknown): value is OutputType =>
+  OUTPUT_TYPES.some(t => t.value === value);
+
+export interface ValidationOutcome {
+  valid: boolean;
+  value: string; // Normalized value to write into the cell (raw text when invalid)
+  error?: string;
+}
+
+const LIST_SEPARATOR = '; ';
+
+// JSON schema for the "value" field of a given output type
+const valueSchema = ({ outputType = 'text', enumValues = [] }: OutputSpec): Record<string, unknown> => {
+  switch (outputType) {
+    case 'number':
+      return { type: ['number', 'null'] };
+    case 'currency':
+      return {
+        type: ['object', 'null'],
+        properties: {
+          amount: { type: 'number' },
+          currency: { type: 'string', description: 'ISO 4217 code, e.g. USD' },
+        },
+        required: ['amount', 'currency'],
+      };
+    case 'url':
+      return { type: ['string', 'null'], format: 'uri' };
+    case 'email':
+      return { type: ['string', 'null'], format: 'email' };
+    case 'date':
+      return { type: ['string', 'null'], description: 'ISO 8601 date (YYYY-MM-DD, YYYY-MM or YYYY)' };
+    case 'boolean':
+      return { type: ['boolean', 'null'] };
+    case 'enum':
+      return { type: ['string', 'null'], enum: [...enumValues, null] };
+    case 'list':
+      return { type: ['array', 'null'], items: { type: 'string' } };
+    default:
+      return { type: ['string', 'null'] };
+  }
+};
+
+/**
+ * Builds the JSON schema sent to the model for a task's answer.
+ * A null value means the information was not found.
+ */
+export const buildResponseSchema = (spec: OutputSpec) => ({
+  type: 'object',
+  properties: {
+    value: valueSchema(spec),
+    // The model's own rating of how sure it is
+    confidence: { type: 'string', enum: ['high', 'medium', 'low'] },
+  },
+  required: ['value'],
+});
+
+/**
+ * Schema for a combined request answering several tasks at once, keyed by output column.
+ */
+export const buildCombinedResponseSchema = (fields: { key: string; output: OutputSpec }[]) => ({
+  type: 'object',
+  properties: Object.fromEntries(fields.map(({ key, output }) => [key, buildResponseSchema(output)])),
+  required: fields.map(({ key }) => key),
+});
+
+/**
+ * Whether a task needs structured output (plain text tasks keep the free-form prompt).
+ */
+export const isStructuredOutput = (spec: OutputSpec) => !!spec.outputType && spec.outputType !== 'text';
+
+/**
+ * Prompt instructions describing the expected JSON answer. Used when the backend
+ * cannot combine a response schema with search grounding.
+ */
+export const describeOutputFormat = (spec: OutputSpec) => `
+    Output format:
+    Respond ONLY with a JSON object (no markdown) matching this JSON schema:
+    ${JSON.stringify(buildResponseSchema(spec))}
+    If the information is not found, use {"value": null}.
+  `;
+
+/**
+ * Extracts a JSON value from model output, tolerating markdown fences and surrounding prose.
+ */
+export const parseModelJson = (text: string): unknown => {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    const start = trimmed.search(/[[{]/);
+    const end = Math.max(trimmed.lastIndexOf('}'), trimmed.lastIndexOf(']'));
+    if (start >= 0 && end > start) {
+      return JSON.parse(trimmed.slice(start, end + 1));
+    }
+    throw new Error('Response is not valid JSON');
+  }
+};
+
+const MULTIPLIERS: Record<string, number> = {
+  k: 1e3, thousand: 1e3,
+  m: 1e6, mm: 1e6, million: 1e6,
+  b: 1e9, bn: 1e9, billion: 1e9,
+  t: 1e12, trillion: 1e12,
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '$': 'USD', '€': 'EUR', '£': 'GBP', '¥': 'JPY', '₹': 'INR',
+};
+
+// Parses "1,234", "$4.5M", "12 billion" etc. into a number
+const parseNumber = (raw: string): number | null => {
+  const match = raw.replace(/,/g, '').match(/(-?\d+(?:\.\d+)?)\s*(thousand|million|billion|trillion|bn|mm|k|m|b|t)?\b/i);
+  if (!match) return null;
+  const multiplier = match[2] ? MULTIPLIERS[match[2].toLowerCase()] : 1;
+  return parseFloat(match[1]) * multiplier;
+};
+
+const isBlank = (value: unknown) =>
+  value === null || value === undefined || (typeof value === 'string' && (value.trim() === '' || value.trim().toUpperCase() === NOT_FOUND));
+
+const invalid = (value: unknown, error: string): ValidationOutcome => ({
+  valid: false,
+  value: typeof value === 'string' ? value : JSON.stringify(value),
+  error,
+});
+
+/**
+ * Validates and coerces a model answer to the task's output type.
+ */
+export const validateOutput = (spec: OutputSpec, value: unknown): ValidationOutcome => {
+  const outputType = spec.outputType || 'text';
+
+  if (isBlank(value)) {
+    return { valid: true, value: NOT_FOUND };
+  }
+
+  const str = typeof value === 'string' ? value.trim() : String(value);
+
+  switch (outputType) {
+    case 'number': {
+      const num = typeof value === 'number' ? value : parseNumber(str);
+      if (num === null || !Number.isFinite(num)) return invalid(value, 'Expected a number');
+      return { valid: true, value: String(num) };
+    }
+
+    case 'currency': {
+      let amount: number | null = null;
+      let currency = '';
+      if (typeof value === 'object' && value !== null) {
+        const obj = value as { amount?: unknown; currency?: unknown };
+        amount = typeof obj.amount === 'number' ? obj.amount : parseNumber(String(obj.amount ?? ''));
+        currency = String(obj.currency ?? '').toUpperCase();
+      } else {
+        amount = parseNumber(str);
+        const symbol = Object.keys(CURRENCY_SYMBOLS).find(s => str.includes(s));
+        const code = str.match(/\b[A-Z]{3}\b/);
+        currency = code ? code[0] : (symbol ? CURRENCY_SYMBOLS[symbol] : '');
+      }
+      if (amount === null || !Number.isFinite(amount)) return invalid(value, 'Expected a currency amount');
+      return { valid: true, value: currency ? `${amount} ${currency}` : String(amount) };
+    }
+
+    case 'url': {
+      const candidate = /^https?:\/\//i.test(str) ? str : `https://${str}`;
+      try {
+        const url = new URL(candidate);
+        if (!url.hostname.includes('.') || /\s/.test(str)) throw new Error();
+        return { valid: true, value: url.toString() };
+      } catch {
+        return invalid(value, 'Expected a URL');
+      }
+    }
+
+    case 'email':
+      if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(str)) return invalid(value, 'Expected an email address');
+      return { valid: true, value: str.toLowerCase() };
+
+    case 'date': {
+      // Keep partial ISO dates (year or year-month) as-is
+      if (/^\d{4}(-\d{2}(-\d{2})?)?$/.test(str)) return { valid: true, value: str };
+      const time = Date.parse(str);
+      if (Number.isNaN(time)) return invalid(value, 'Expected a date');
+      // Free-form dates parse as local midnight, so the day is read in local time too
+      const date = new Date(time);
+      const pad = (n: number) => String(n).padStart(2, '0');
+      return { valid: true, value: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` };
+    }
+
+    case 'boolean': {
+      if (typeof value === 'boolean') return { valid: true, value: value ? 'Yes' : 'No' };
+      const lower = str.toLowerCase();
+      if (['yes', 'true', 'y'].includes(lower)) return { valid: true, value: 'Yes' };
+      if (['no', 'false', 'n'].includes(lower)) return { valid: true, value: 'No' };
+      return invalid(value, 'Expected yes or no');
+    }
+
+    case 'enum': {
+      const allowed = spec.enumValues || [];
+      const match = allowed.find(v => v.toLowerCase() === str.toLowerCase());
+      if (!match) return invalid(value, `Expected one of: ${allowed.join(', ')}`);
+      return { valid: true, value: match };
+    }
+
+    case 'list': {
+      if (Array.isArray(value)) {
+        const items = value.map(v => String(v).trim()).filter(Boolean);
+        return items.length ? { valid: true, value: items.join(LIST_SEPARATOR) } : { valid: true, value: NOT_FOUND };
+      }
+      return { valid: true, value: str };
+    }
+
+    default:
+      return { valid: true, value: str };
+  }
+};
+
+/**
+ * Currency code of a validated currency cell ("1200 EUR" gives "EUR"), if it has one.
+ */
+export const getCurrencyCode = (value: string) => value.split(' ')[1] || undefined;
+
+/**
+ * Converts a validated cell string into a typed spreadsheet value for export.
+ * Currency cells become their amount; see getCurrencyCode for the code.
+ */
+export const toTypedCellValue = (outputType: OutputType | undefined, value: string): string | number | boolean | Date => {
+  if (!value || value === NOT_FOUND) return value;
+
+  switch (outputType) {
+    case 'number': {
+      const num = Number(value);
+      return Number.isFinite(num) ? num : value;
+    }
+    case 'currency': {
+      const num = Number(value.split(' ')[0]);
+      return Number.isFinite(num) ? num : value;
+    }
+    case 'date': {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+      // Local midnight: SheetJS writes Dates as serial numbers in local time
+      const [year, month, day] = value.split('-').map(Number);
+      return new Date(year, month - 1, day);
+    }
+    case 'boolean':
+      return value === 'Yes' ? true : value === 'No' ? false : value;
+    default:
+      return value;
+  }
+};
@@ -0,0 +1,37 @@
+import { CsvRow } from '../types';
+
+// Matches {{Column Name}}; whitespace inside the braces is ignored
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+/**
+ * Column names referenced by `{{Column}}` placeholders in a prompt, in order of first use.
+ */
+export const extractPlaceholders = (prompt: string): string[] =>
+  Array.from(new Set(Array.from(prompt.matchAll(PLACEHOLDER_PATTERN), match => match[1])));
+
+/**
+ * Placeholders that don't name an existing column.
+ */
+export const findUnknownPlaceholders = (prompt: string, columns: string[]) =>
+  extractPlaceholders(prompt).filter(name => !columns.includes(name));
+
+/**
+ * Substitutes each placeholder with the row's value. Unknown columns are left as-is
+ * so the problem stays visible; empty values render as "N/A".
+ */
+export const renderPrompt = (prompt: string, row: CsvRow) =>
+  prompt.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+    if (!(name in row)) return placeholder;
+    const value = (row[name] || '').trim();
+    return value || 'N/A';
+  });
+
+/**
+ * The partially typed column name when the caret sits right after an unclosed `{{`.
+ */
+export const getOpenPlaceholder = (text: string, caret: number) => {
+  const before = text.slice(0, caret);
+  const start = before.lastIndexOf('{{');
+  if (start === -1 || before.indexOf('}}', start) !== -1) return null;
+  return { start, query: before.slice(start + 2) };
+};
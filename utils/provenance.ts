@@ -0,0 +1,109 @@
+import { CellProvenance, CsvRow, ResearchResult, ResearchTask } from '../types';
+import { hashString } from './hash';
+import { formatAgentTrace } from './agentTrace';
+import { getReviewLabel, getReviewStatus, setReview } from './review';
+import { indexRowIds, parseCellKey } from './rowId';
+import { summarizeSourcePolicy } from './sourcePolicy';
+
+// Excel refuses cells longer than this
+const EXCEL_CELL_LIMIT = 32_767;
+
+/**
+ * Short hash identifying a version of a task's prompt and output settings,
+ * so cells produced by different prompt revisions can be told apart.
+ */
+export const getPromptVersion = (task: ResearchTask) =>
+  hashString(JSON.stringify([task.prompt, task.mode || 'research', task.outputType || 'text', task.enumValues || []]));
+
+export interface ProvenanceDetails {
+  task?: ResearchTask;
+  // Rendered prompt and context the job sent
+  prompt?: string;
+  context?: string;
+  retries?: number;
+  runId?: string;
+}
+
+/**
+ * Provenance record for a cell the agent just filled.
+ */
+export const createProvenance = (
+  result: ResearchResult,
+  { task, prompt, context, retries, runId }: ProvenanceDetails = {}
+): CellProvenance => ({
+  value: result.text,
+  sources: result.sources,
+  generatedAt: Date.now(),
+  model: result.model,
+  runId,
+  taskId: task?.id,
+  promptTemplate: task?.prompt,
+  promptVersion: task ? getPromptVersion(task) : undefined,
+  prompt,
+  context,
+  rawResponse: result.rawResponse,
+  retries,
+  fromCache: result.fromCache,
+  sourcePolicy: result.sourcePolicy,
+  agentTrace: result.agentTrace,
+});
+
+/**
+ * Records a manual edit of the cell, which also marks it reviewed as edited.
+ * Editing it back to the agent's value clears both marks.
+ */
+export const markEdited = (record: CellProvenance, value: string): CellProvenance => {
+  if (value === record.value) {
+    const { editedAt: _editedAt, editedValue: _editedValue, ...unedited } = record;
+    return getReviewStatus(unedited) === 'edited' ? setReview(unedited, 'unreviewed') : unedited;
+  }
+  const editedAt = Date.now();
+  return { ...record, editedAt, editedValue: value, review: { status: 'edited', reviewedAt: editedAt } };
+};
+
+const fitCell = (text: string | undefined) =>
+  text && text.length > EXCEL_CELL_LIMIT ? `${text.slice(0, EXCEL_CELL_LIMIT - 3)}...` : text || '';
+
+const formatTime = (timestamp: number | undefined) => timestamp ? new Date(timestamp).toISOString() : '';
+
+/**
+ * Flattens the provenance of cells in rows that still exist into spreadsheet rows
+ * (one per cell, in sheet order), for the provenance sheet of the Excel export.
+ */
+export const provenanceToRows = (provenance: Record<string, CellProvenance>, data: CsvRow[]): CsvRow[] => {
+  const rowPositions = indexRowIds(data);
+  return Object.entries(provenance)
+    .map(([key, record]) => ({ ...parseCellKey(key), record }))
+    .filter(({ rowId }) => rowPositions.has(rowId))
+    .sort((a, b) => rowPositions.get(a.rowId)! - rowPositions.get(b.rowId)! || a.column.localeCompare(b.column))
+    .map(({ rowId, column, record }) => ({
+      Row: String(rowPositions.get(rowId)! + 1),
+      Column: column,
+      Value: fitCell(record.value),
+      'Review Status': getReviewLabel(getReviewStatus(record)),
+      'Reviewed At': formatTime(record.review?.reviewedAt),
+      'Reviewer Note': fitCell(record.review?.note),
+      'Human Edited': record.editedAt ? 'yes' : 'no',
+      'Edited Value': fitCell(record.editedValue),
+      'Edited At': formatTime(record.editedAt),
+      'Generated At': formatTime(record.generatedAt),
+      Model: record.model || '',
+      'Prompt Version': record.promptVersion || '',
+      'Prompt Template': fitCell(record.promptTemplate),
+      Prompt: fitCell(record.prompt),
+      Context: fitCell(record.context),
+      // Local documents are listed by name and page rather than their internal uri
+      Sources: fitCell(record.sources.map(source => source.document ? source.title : source.uri).join('\n')),
+      'Source Policy': record.sourcePolicy
+        ? `${summarizeSourcePolicy(record.sourcePolicy.policy)}${record.sourcePolicy.violation ? ` (${record.sourcePolicy.violation})` : ''}`
+        : '',
+      'Rejected Sources': fitCell(record.sourcePolicy?.rejectedSources.map(source => source.uri).join('\n')),
+      'Raw Response': fitCell(record.rawResponse),
+      'Agent Trace': fitCell(record.agentTrace && formatAgentTrace(record.agentTrace)),
+      Retries: record.retries !== undefined ? String(record.retries) : '',
+      // Answers shared within an entity cluster point at the row they were researched for
+      'Copied From Row': record.copiedFrom && rowPositions.has(record.copiedFrom) ? String(rowPositions.get(record.copiedFrom)! + 1) : '',
+      'From Cache': record.fromCache ? 'yes' : 'no',
+      'Run Id': record.runId || '',
+    }));
+};
@@ -0,0 +1,82 @@
+import { CellProvenance, ReviewStatus } from '../types';
+import { parseCellKey } from './rowId';
+
+export const REVIEW_STATUSES: { value: ReviewStatus; label: string }[] = [
+  { value: 'unreviewed', label: 'Unreviewed' },
+  { value: 'accepted', label: 'Accepted' },
+  { value: 'rejected', label: 'Rejected' },
+  { value: 'edited', label: 'Edited' },
+];
+
+export const getReviewStatus = (record: CellProvenance | undefined): ReviewStatus =>
+  record?.review?.status || 'unreviewed';
+
+export const getReviewLabel = (status: ReviewStatus) =>
+  REVIEW_STATUSES.find(s => s.value === status)?.label || status;
+
+/**
+ * Records a reviewer's verdict on a cell. Only rejections keep a note.
+ */
+export const setReview = (record: CellProvenance, status: ReviewStatus, note?: string): CellProvenance => {
+  if (status === 'unreviewed') {
+    const { review: _review, ...unreviewed } = record;
+    return unreviewed;
+  }
+  const trimmed = status === 'rejected' ? note?.trim() : undefined;
+  return { ...record, review: { status, reviewedAt: Date.now(), ...(trimmed ? { note: trimmed } : {}) } };
+};
+
+/**
+ * Accepts every unreviewed cell whose confidence is at least `minConfidence`.
+ * Cells flagged by validation are left for a person to look at.
+ */
+export const acceptByConfidence = (
+  provenance: Record<string, CellProvenance>,
+  cellConfidence: Record<string, number>,
+  minConfidence: number,
+  invalidCells: Record<string, string> = {}
+): Record<string, CellProvenance> => {
+  const next = { ...provenance };
+  Object.entries(provenance).forEach(([key, record]) => {
+    const confidence = cellConfidence[key];
+    if (getReviewStatus(record) !== 'unreviewed' || key in invalidCells) return;
+    if (confidence !== undefined && confidence >= minConfidence) next[key] = setReview(record, 'accepted');
+  });
+  return next;
+};
+
+/**
+ * Reviewer notes of rejected cells keyed by cell key ('' when rejected without a note),
+ * for the "rejected cells" run mode.
+ */
+export const getRejectedCells = (provenance: Record<string, CellProvenance> = {}): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(provenance)
+      .filter(([, record]) => getReviewStatus(record) === 'rejected')
+      .map(([key, record]) => [key, record.review?.note || ''])
+  );
+
+/**
+ * Instruction appended to a rejected cell's prompt when it is re-run, quoting the
+ * rejected answer and the reviewer's note.
+ */
+export const formatReviewFeedback = (rejectedValue: string, note: string) => {
+  const answer = rejectedValue.trim() ? ` ("${rejectedValue.trim()}")` : '';
+  return note
+    ? `A reviewer rejected an earlier answer${answer} with this note: ${note}`
+    : `A reviewer rejected an earlier answer${answer} as wrong. Research it again.`;
+};
+
+export const withReviewFeedback = (prompt: string, feedback?: string) =>
+  feedback ? `${prompt}\n\n${feedback}` : prompt;
+
+/**
+ * Number of cells in each review state, counting only cells in rows that still exist.
+ */
+export const countReviewStatuses = (provenance: Record<string, CellProvenance>, rowPositions: Map<string, number>) => {
+  const counts: Record<ReviewStatus, number> = { unreviewed: 0, accepted: 0, rejected: 0, edited: 0 };
+  Object.entries(provenance).forEach(([key, record]) => {
+    if (rowPositions.has(parseCellKey(key).rowId)) counts[getReviewStatus(record)]++;
+  });
+  return counts;
+};
@@ -0,0 +1,50 @@
+import { CsvRow } from '../types';
+
+// Hidden field holding a row's stable id. It is never listed in `columns`, so it is not shown or exported.
+export const ROW_ID_FIELD = '__rowId';
+
+// Row ids never contain this, so column names after it may
+const CELL_KEY_SEPARATOR = ':';
+
+export const createRowId = () => `r${Date.now().toString(36)}${Math.random().toString(36).substr(2, 6)}`;
+
+export const getRowId = (row: CsvRow): string => row[ROW_ID_FIELD];
+
+/**
+ * Gives every row without an id (or with an id already used by an earlier row) a fresh one.
+ * Rows that already have a unique id are returned as is.
+ */
+export const ensureRowIds = (rows: CsvRow[]): CsvRow[] => {
+  const seen = new Set<string>();
+  return rows.map(row => {
+    const id = getRowId(row);
+    if (id && !seen.has(id)) {
+      seen.add(id);
+      return row;
+    }
+    const fresh = createRowId();
+    seen.add(fresh);
+    return { ...row, [ROW_ID_FIELD]: fresh };
+  });
+};
+
+/**
+ * Copies of the rows without their id, for export.
+ */
+export const stripRowIds = (rows: CsvRow[]): CsvRow[] =>
+  rows.map(({ [ROW_ID_FIELD]: _id, ...row }) => row);
+
+/**
+ * Key of a per-cell artifact (sources, validation error, confidence), bound to the row rather than its position.
+ */
+export const getCellKey = (rowId: string, column: string) => `${rowId}${CELL_KEY_SEPARATOR}${column}`;
+
+export const parseCellKey = (key: string) => {
+  const separatorIndex = key.indexOf(CELL_KEY_SEPARATOR);
+  return { rowId: key.slice(0, separatorIndex), column: key.slice(separatorIndex + 1) };
+};
+
+/**
+ * Position of each row id in `rows`.
+ */
+export const indexRowIds = (rows: CsvRow[]) => new Map(rows.map((row, index) => [getRowId(row), index]));
@@ -0,0 +1,98 @@
+import { CsvRow, RowScope } from '../types';
+import { indexRowIds } from './rowId';
+
+export const ROW_SCOPE_TYPES: { value: RowScope['type']; label: string }[] = [
+  { value: 'all', label: 'All rows' },
+  { value: 'first', label: 'First N' },
+  { value: 'sample', label: 'Random sample' },
+  { value: 'selection', label: 'Selected rows' },
+  { value: 'filtered', label: 'Filtered rows' },
+];
+
+// Small seeded PRNG (mulberry32) so a sample can be reproduced
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Picks `count` items using a partial Fisher-Yates shuffle
+const sampleIndices = (indices: number[], count: number, random: () => number) => {
+  const pool = [...indices];
+  const take = Math.min(count, pool.length);
+  for (let i = 0; i < take; i++) {
+    const j = i + Math.floor(random() * (pool.length - i));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, take);
+};
+
+// Samples proportionally from each group of rows sharing a value in `column`
+const stratifiedSample = (data: CsvRow[], column: string, count: number, random: () => number) => {
+  const groups = new Map<string, number[]>();
+  data.forEach((row, index) => {
+    const key = (row[column] || '').trim().toLowerCase();
+    groups.set(key, [...(groups.get(key) || []), index]);
+  });
+
+  // Largest-remainder allocation keeps the total exactly at `count`
+  const target = Math.min(count, data.length);
+  const allocations = Array.from(groups.values()).map(indices => {
+    const exact = (indices.length / data.length) * target;
+    return { indices, take: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+  let remaining = target - allocations.reduce((sum, a) => sum + a.take, 0);
+  [...allocations]
+    .sort((a, b) => b.remainder - a.remainder)
+    .forEach(allocation => {
+      if (remaining > 0 && allocation.take < allocation.indices.length) {
+        allocation.take++;
+        remaining--;
+      }
+    });
+
+  return allocations.flatMap(({ indices, take }) => sampleIndices(indices, take, random));
+};
+
+/**
+ * Resolves a row scope to the sorted list of row indices a run should process.
+ */
+export const resolveRowScope = (data: CsvRow[], scope: RowScope = { type: 'all' }): number[] => {
+  const all = data.map((_, index) => index);
+
+  switch (scope.type) {
+    case 'first':
+      return all.slice(0, Math.max(0, scope.count));
+    case 'sample': {
+      const random = createRandom(scope.seed);
+      const picked = scope.stratifyColumn
+        ? stratifiedSample(data, scope.stratifyColumn, scope.count, random)
+        : sampleIndices(all, scope.count, random);
+      return picked.sort((a, b) => a - b);
+    }
+    case 'selection':
+    case 'filtered': {
+      // Rows deleted since the scope was captured are skipped
+      const positions = indexRowIds(data);
+      return Array.from(new Set(scope.rowIds.map(rowId => positions.get(rowId))))
+        .filter((index): index is number => index !== undefined)
+        .sort((a, b) => a - b);
+    }
+    default:
+      return all;
+  }
+};
+
+export const describeRowScope = (scope: RowScope | undefined, rowCount: number) => {
+  if (!scope || scope.type === 'all') return `all ${rowCount} rows`;
+  if (scope.type === 'first') return `the first ${Math.min(scope.count, rowCount)} rows`;
+  if (scope.type === 'sample') {
+    return `a ${scope.stratifyColumn ? `sample stratified by "${scope.stratifyColumn}"` : 'random sample'} of ${Math.min(scope.count, rowCount)} rows`;
+  }
+  return `${scope.rowIds.length} ${scope.type === 'selection' ? 'selected' : 'filtered'} rows`;
+};
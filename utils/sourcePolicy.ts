@@ -0,0 +1,108 @@
+import { ResearchResult, Source, SourcePolicy } from '../types';
+import { withConfidence } from './confidence';
+import { NOT_FOUND } from './outputSchema';
+
+// Gemini grounding links go through this redirect service and carry the site's domain as their title
+const GROUNDING_REDIRECT_HOSTS = ['vertexaisearch.cloud.google.com'];
+const DOMAIN_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+
+/**
+ * Reduces "https://www.Example.com/path" and similar input to "example.com".
+ */
+export const normalizeDomain = (value: string) =>
+  value.trim().toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/^www\./, '').split(/[/?#:]/)[0];
+
+/**
+ * Domains typed as a comma or whitespace separated list.
+ */
+export const parseDomainList = (value: string) =>
+  Array.from(new Set(value.split(/[\s,]+/).map(normalizeDomain).filter(Boolean)));
+
+/**
+ * The site a source comes from, or undefined when it cannot be told.
+ */
+export const getSourceDomain = (source: Source): string | undefined => {
+  let hostname = '';
+  try {
+    hostname = normalizeDomain(new URL(source.uri).hostname);
+  } catch {
+    // Not a URL; fall back to the title below
+  }
+  if (hostname && !GROUNDING_REDIRECT_HOSTS.includes(hostname)) return hostname;
+  const title = normalizeDomain(source.title || '');
+  return DOMAIN_PATTERN.test(title) ? title : undefined;
+};
+
+const matchesDomain = (domain: string, policyDomains: string[] = []) =>
+  policyDomains.some(entry => domain === entry || domain.endsWith(`.${entry}`));
+
+export const hasSourcePolicy = (policy?: SourcePolicy): policy is SourcePolicy =>
+  !!policy && [policy.allowedDomains, policy.blockedDomains, policy.preferredDomains].some(list => !!list?.length);
+
+/**
+ * Whether a source may back an answer. Sources of unknown origin only pass when there is no allow list.
+ * Policies are about websites, so passages of the run's own documents always pass.
+ */
+export const isSourceAllowed = (source: Source, policy: SourcePolicy) => {
+  if (source.document) return true;
+  const domain = getSourceDomain(source);
+  if (!domain) return !policy.allowedDomains?.length;
+  if (matchesDomain(domain, policy.blockedDomains)) return false;
+  return !policy.allowedDomains?.length || matchesDomain(domain, policy.allowedDomains);
+};
+
+/**
+ * Prompt rule telling the model which sites to use. Empty when the task has no policy.
+ */
+export const describeSourcePolicy = (policy?: SourcePolicy) => {
+  if (!hasSourcePolicy(policy)) return '';
+  const rules = [
+    policy.allowedDomains?.length ? `Only use information from these sites: ${policy.allowedDomains.join(', ')}.` : '',
+    policy.blockedDomains?.length ? `Never use information from these sites: ${policy.blockedDomains.join(', ')}.` : '',
+    policy.preferredDomains?.length ? `Prefer these sites when they have the answer: ${policy.preferredDomains.join(', ')}.` : '',
+  ];
+  return `SOURCES: ${rules.filter(Boolean).join(' ')} If no acceptable site has the answer, treat it as not found.`;
+};
+
+/**
+ * Short summary of a policy for the UI and exports, e.g. "only: a.gov · never: b.com".
+ */
+export const summarizeSourcePolicy = (policy: SourcePolicy) => [
+  policy.allowedDomains?.length ? `only: ${policy.allowedDomains.join(', ')}` : '',
+  policy.blockedDomains?.length ? `never: ${policy.blockedDomains.join(', ')}` : '',
+  policy.preferredDomains?.length ? `prefer: ${policy.preferredDomains.join(', ')}` : '',
+].filter(Boolean).join(' · ');
+
+/**
+ * Enforces a task's source policy on an answer. Sources breaking the policy are dropped
+ * and preferred sites are listed first. When the answer had sources but none of them is
+ * acceptable, it is rejected (turned into "not found" with a validation error) or flagged
+ * (kept, with its confidence halved), as the policy says.
+ */
+export const applySourcePolicy = (result: ResearchResult, policy?: SourcePolicy): ResearchResult => {
+  if (!hasSourcePolicy(policy) || result.offline) return result;
+
+  const accepted = result.sources.filter(source => isSourceAllowed(source, policy));
+  const rejectedSources = result.sources.filter(source => !accepted.includes(source));
+  const isPreferred = (source: Source) => {
+    const domain = getSourceDomain(source);
+    return !!domain && matchesDomain(domain, policy.preferredDomains);
+  };
+  const sources = [...accepted.filter(isPreferred), ...accepted.filter(source => !isPreferred(source))];
+
+  if (result.sources.length === 0 || accepted.length > 0 || result.text === NOT_FOUND) {
+    return withConfidence({ ...result, sources, sourcePolicy: { policy, rejectedSources } });
+  }
+
+  const sites = Array.from(new Set(rejectedSources.map(source => getSourceDomain(source) || source.uri))).join(', ');
+  if (policy.onViolation === 'reject') {
+    return withConfidence({
+      ...result,
+      text: NOT_FOUND,
+      sources,
+      validationError: `Rejected: only sourced from sites outside the policy (${sites})`,
+      sourcePolicy: { policy, rejectedSources, violation: 'rejected' },
+    });
+  }
+  return withConfidence({ ...result, sources, sourcePolicy: { policy, rejectedSources, violation: 'flagged' } });
+};
@@ -0,0 +1,78 @@
+import { ResearchTask } from '../types';
+import { extractPlaceholders } from './promptTemplate';
+
+export interface TaskGraph {
+  // Ids of the tasks whose output each task's prompt references
+  dependencies: Record<string, string[]>;
+  // Task ids grouped into steps; every task only depends on tasks in earlier steps
+  steps: string[][];
+  // Task ids forming a dependency cycle, if there is one
+  cycle?: string[];
+}
+
+/**
+ * Tasks whose output column a task's prompt references through `{{Column}}` placeholders.
+ * A task reading its own column uses the existing value and is not a dependency.
+ */
+export const getTaskDependencies = (task: ResearchTask, tasks: ResearchTask[]) => {
+  const referenced = extractPlaceholders(task.prompt);
+  return tasks
+    .filter(other => other.id !== task.id && other.newColumnName && referenced.includes(other.newColumnName))
+    .map(other => other.id);
+};
+
+// Depth-first search for a cycle, returned as the list of task ids along it
+const findCycle = (dependencies: Record<string, string[]>): string[] | undefined => {
+  const state = new Map<string, 'visiting' | 'done'>();
+  const path: string[] = [];
+
+  const visit = (id: string): string[] | undefined => {
+    if (state.get(id) === 'done') return undefined;
+    if (state.get(id) === 'visiting') return path.slice(path.indexOf(id));
+    state.set(id, 'visiting');
+    path.push(id);
+    for (const dependency of dependencies[id] || []) {
+      const cycle = visit(dependency);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    state.set(id, 'done');
+    return undefined;
+  };
+
+  for (const id of Object.keys(dependencies)) {
+    const cycle = visit(id);
+    if (cycle) return cycle;
+  }
+  return undefined;
+};
+
+/**
+ * Builds the dependency graph between tasks and orders them into steps.
+ */
+export const buildTaskGraph = (tasks: ResearchTask[]): TaskGraph => {
+  const dependencies = Object.fromEntries(tasks.map(task => [task.id, getTaskDependencies(task, tasks)]));
+
+  const cycle = findCycle(dependencies);
+  if (cycle) return { dependencies, steps: [], cycle };
+
+  const steps: string[][] = [];
+  const placed = new Set<string>();
+  while (placed.size < tasks.length) {
+    const step = tasks
+      .filter(task => !placed.has(task.id) && dependencies[task.id].every(id => placed.has(id)))
+      .map(task => task.id);
+    step.forEach(id => placed.add(id));
+    steps.push(step);
+  }
+
+  return { dependencies, steps };
+};
+
+/**
+ * Human readable description of a cycle, e.g. "Website → Pricing → Website".
+ */
+export const describeCycle = (cycle: string[], tasks: ResearchTask[]) => {
+  const names = cycle.map(id => tasks.find(t => t.id === id)?.newColumnName || id);
+  return [...names, names[0]].join(' → ');
+};
@@ -0,0 +1,38 @@
+import { Grounding, ResearchTask, TaskMode } from '../types';
+
+export const TASK_MODES: { value: TaskMode; label: string; description: string }[] = [
+  { value: 'research', label: 'Web research', description: 'Searches the web for the answer' },
+  { value: 'agent', label: 'Agent research', description: 'Plans several searches and reasons over what they find, for hard questions' },
+  { value: 'classify', label: 'Classify', description: "Puts the row into a category using only its own data" },
+  { value: 'extract', label: 'Extract', description: "Pulls a value out of the row's existing text" },
+  { value: 'transform', label: 'Transform', description: "Rewrites, translates or reformats the row's data" },
+  { value: 'generate', label: 'Generate', description: "Writes new text from the row's data" },
+];
+
+export const GROUNDINGS: { value: Grounding; label: string }[] = [
+  { value: 'web', label: 'Web' },
+  { value: 'documents', label: 'Documents' },
+  { value: 'both', label: 'Web + documents' },
+];
+
+export type OfflineTaskMode = Exclude<TaskMode, 'research' | 'agent'>;
+
+export const isTaskMode = (value: unknown): value is TaskMode =>
+  TASK_MODES.some(m => m.value === value);
+
+/**
+ * Whether a task works offline on the row's own data instead of searching the web.
+ */
+export const isOfflineTask = <T extends Pick<ResearchTask, 'mode'>>(task: T): task is T & { mode: OfflineTaskMode } =>
+  !!task.mode && task.mode !== 'research' && task.mode !== 'agent';
+
+/**
+ * Whether a task researches the web in several planned steps instead of one call.
+ */
+export const isAgentTask = (task: Pick<ResearchTask, 'mode'>) => task.mode === 'agent';
+
+/**
+ * Whether a task answers from the run's local documents. Only single-call research tasks can.
+ */
+export const usesDocuments = (task: Pick<ResearchTask, 'mode' | 'grounding'>) =>
+  (!task.mode || task.mode === 'research') && (task.grounding === 'documents' || task.grounding === 'both');
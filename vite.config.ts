@@ -16,6 +16,9 @@ export default defineConfig(({ mode }) => {
 
     console.log('Building with API key:', geminiApiKey ? 'Key found' : 'No key found');
 
+    // Optional self-hosted / alternative LLM provider settings
+    const readEnv = (name: string) => process.env[name] || env[name] || env[`VITE_${name}`] || '';
+
     return {
       server: {
         port: 3000,
@@ -24,7 +27,12 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(geminiApiKey),
-        'process.env.GEMINI_API_KEY': JSON.stringify(geminiApiKey)
+        'process.env.GEMINI_API_KEY': JSON.stringify(geminiApiKey),
+        'process.env.LLM_PROVIDER': JSON.stringify(readEnv('LLM_PROVIDER')),
+        'process.env.LLM_BASE_URL': JSON.stringify(readEnv('LLM_BASE_URL')),
+        'process.env.LLM_API_KEY': JSON.stringify(readEnv('LLM_API_KEY')),
+        'process.env.LLM_MODEL': JSON.stringify(readEnv('LLM_MODEL')),
+        'process.env.LLM_THINKING_MODEL': JSON.stringify(readEnv('LLM_THINKING_MODEL'))
       },
       resolve: {
         alias: {